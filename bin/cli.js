@@ -22,15 +22,56 @@ Options:
   --read-only        Run server in read-only mode (default)
   --read-write       Run server in read-write mode (enables all write operations)
   --mode <mode>      Set mode: 'read-only' or 'read-write'
+  --transport <type> Transport: 'stdio' (default) or 'http' (MCP Streamable HTTP)
+  --port <n>         Port for the HTTP transport (default: 3000)
+  --host <host>      Interface for the HTTP transport to bind (default: 127.0.0.1)
+  --auth-tokens <f>  JSON file of bearer tokens required by the HTTP transport
+  --config <file>    JSON config file with named connection profiles
+  --profile <name>   Profile to use from the config file (default: its defaultProfile)
+  --allow-database <pattern>
+                     Let read tools target another database via their database argument (glob, repeatable)
+  --allow-database-write <pattern>
+                     Same, and also allow writes to matching databases
+  --tools <names>    Comma-separated tools to expose (added to those picked by --categories)
+  --disable-tools <names>
+                     Comma-separated tools to hide
+  --categories <names>
+                     Comma-separated categories to expose, e.g. explore,monitoring,quality
+  --list-tools       Print the tools that would be exposed, with their read/write classification, and exit
+  --require-approval Require an approval token from previewUpdate, previewDelete or previewBulkWrite
+                     before updateMany, deleteMany and bulkWrite run (profile: writeApproval.required)
+  --require-readonly-user
+                     Exit when a read-only connection's user can write, or its privileges cannot be
+                     checked within 10 seconds
+  --tenant-field <field>
+                     Restrict every call to documents whose <field> equals --tenant-value (profile: tenant.field)
+  --tenant-value <value>
+                     The tenant's value of --tenant-field (profile: tenant.value)
+  --environment <label>
+                     Environment label of the startup connection, e.g. staging or production (profile: environment)
+  --production-hosts <patterns>
+                     Comma-separated host globs, e.g. "*.prod.example.com", that mark connections as production.
+                     Production caps are set in the profile's productionLimits
+                     (maxQueryLimit, maxTimeMS, maxMonitoringDuration)
 
 Arguments:
   mongodb-uri        MongoDB connection URI (default: mongodb://localhost:27017)
   database-name      Database name to use (default: test)
 
+Environment variables:
+  MONGODB_URI        Connection URI used when none is given as an argument or in the profile
+  LOG_DIR            Directory for log files when the profile sets no logDir (default: ./logs)
+  The options above have no environment variables; use a config profile to set them without flags.
+
 Examples:
   mongo-scout-mcp
   mongo-scout-mcp --read-write mongodb://localhost:27017 mydb
   mongo-scout-mcp --mode read-only mongodb://localhost:27017 mydb
+  mongo-scout-mcp --transport http --port 3000 mongodb://localhost:27017 mydb
+  mongo-scout-mcp --config mongo-scout.config.json --profile staging
+  mongo-scout-mcp --categories explore,query --disable-tools aggregate --list-tools
+  mongo-scout-mcp --read-write --require-approval --production-hosts "*.prod.example.com" mongodb://db1.prod.example.com mydb
+  mongo-scout-mcp --tenant-field tenantId --tenant-value acme mongodb://localhost:27017 mydb
 `;
 
 // Handle command-line options
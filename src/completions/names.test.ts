@@ -0,0 +1,129 @@
+import { describe, it, expect, vi } from 'vitest';
+import { ObjectId } from 'mongodb';
+import type { Db } from 'mongodb';
+import { collectFieldPaths, createNameCompleter } from './names.js';
+
+vi.mock('../utils/logger.js', () => ({ logToolUsage: vi.fn(), logError: vi.fn() }));
+
+function toArray<T>(items: T[]) {
+  return { toArray: async () => items };
+}
+
+function createMockDb() {
+  const listIndexes = vi.fn(() => toArray([{ name: '_id_' }, { name: 'email_1' }, { name: 'createdAt_-1' }]));
+  const aggregate = vi.fn(() =>
+    toArray([
+      { _id: new ObjectId(), email: 'a@example.com', address: { city: 'Oslo', geo: { lat: 1 } }, createdAt: new Date() },
+      { _id: new ObjectId(), email: 'b@example.com', tags: [{ name: 'x' }] },
+    ])
+  );
+  const db = {
+    databaseName: 'app',
+    listCollections: vi.fn(() => toArray([{ name: 'users' }, { name: 'Orders' }, { name: 'orderItems' }])),
+    collection: vi.fn(() => ({ aggregate, listIndexes })),
+  };
+  return db;
+}
+
+function setup() {
+  const db = createMockDb();
+  let time = 0;
+  const resolve = vi.fn((database?: string) => ({ key: `default/${database ?? 'app'}`, db: db as unknown as Db }));
+  const completer = createNameCompleter(resolve, { ttlMs: 1000, now: () => time });
+  const advance = (ms: number) => {
+    time += ms;
+  };
+  return { db, resolve, completer, advance };
+}
+
+describe('collectFieldPaths', () => {
+  it('includes nested subdocument paths but not array or BSON value internals', () => {
+    const paths = collectFieldPaths([
+      { _id: new ObjectId(), address: { city: 'Oslo', geo: { lat: 1 } }, tags: [{ name: 'x' }], at: new Date() },
+    ]);
+
+    expect(paths).toEqual(['_id', 'address', 'address.city', 'address.geo', 'address.geo.lat', 'tags', 'at']);
+  });
+});
+
+describe('createNameCompleter', () => {
+  it('completes collection names case-insensitively by prefix', async () => {
+    const { completer } = setup();
+
+    expect(await completer.complete('collection', 'ord')).toEqual(['Orders', 'orderItems']);
+    expect(await completer.complete('collection', '')).toEqual(['Orders', 'orderItems', 'users']);
+  });
+
+  it('completes field paths and index names for the collection in context', async () => {
+    const { db, completer } = setup();
+
+    expect(await completer.complete('timestampField', 'address.', { collection: 'users' })).toEqual([
+      'address.city',
+      'address.geo',
+      'address.geo.lat',
+    ]);
+    expect(await completer.complete('foreignKey', 'em', { collection: 'users' })).toEqual(['email']);
+    expect(await completer.complete('indexName', 'e', { collection: 'users' })).toEqual(['email_1']);
+    expect(db.collection).toHaveBeenCalledWith('users');
+  });
+
+  it('needs a collection for field and index completions and ignores other arguments', async () => {
+    const { resolve, completer } = setup();
+
+    expect(await completer.complete('field', 'a')).toEqual([]);
+    expect(await completer.complete('indexName', '')).toEqual([]);
+    expect(await completer.complete('limit', '1', { collection: 'users' })).toEqual([]);
+    expect(resolve).not.toHaveBeenCalled();
+  });
+
+  it('passes the database argument to the resolver', async () => {
+    const { resolve, completer } = setup();
+
+    await completer.complete('collection', '', { database: 'analytics' });
+
+    expect(resolve).toHaveBeenCalledWith('analytics');
+  });
+
+  it('caches lookups until the TTL expires', async () => {
+    const { db, completer, advance } = setup();
+
+    await completer.complete('collection', 'u');
+    await completer.complete('collection', 'o');
+    expect(db.listCollections).toHaveBeenCalledTimes(1);
+
+    advance(1001);
+    await completer.complete('collection', 'u');
+    expect(db.listCollections).toHaveBeenCalledTimes(2);
+  });
+
+  it('drops the cache on clear', async () => {
+    const { db, completer } = setup();
+
+    await completer.complete('collection', '');
+    completer.clear();
+    await completer.complete('collection', '');
+
+    expect(db.listCollections).toHaveBeenCalledTimes(2);
+  });
+
+  it('returns nothing and does not cache failed lookups', async () => {
+    const { db, completer } = setup();
+    db.listCollections.mockImplementationOnce(() => ({
+      toArray: async () => {
+        throw new Error('connection refused');
+      },
+    }));
+
+    expect(await completer.complete('collection', '')).toEqual([]);
+    expect(await completer.complete('collection', 'u')).toEqual(['users']);
+  });
+
+  it('returns nothing when the database cannot be resolved', async () => {
+    const { resolve, completer } = setup();
+    resolve.mockImplementationOnce(() => {
+      throw new Error("Database 'admin' is not available");
+    });
+
+    expect(await completer.complete('collection', '', { database: 'admin' })).toEqual([]);
+  });
+});
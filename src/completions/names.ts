@@ -0,0 +1,150 @@
+import { ObjectId } from 'mongodb';
+import type { Db } from 'mongodb';
+import { logError } from '../utils/logger.js';
+import { validateCollectionName } from '../utils/name-validator.js';
+import { isReadDenied } from '../utils/policy-engine.js';
+import { scopePipeline } from '../utils/tenant-scope.js';
+import type { MongoDocument, PolicyRule } from '../types.js';
+
+export const COMPLETION_CACHE_TTL_MS = 60_000;
+const FIELD_SAMPLE_SIZE = 100;
+const MAX_FIELD_DEPTH = 5;
+
+type CompletionKind = 'collection' | 'field' | 'index';
+
+/** Argument names that get completions, and what they complete to */
+export const COMPLETABLE_ARGUMENTS: Record<string, CompletionKind> = {
+  collection: 'collection',
+  field: 'field',
+  timestampField: 'field',
+  foreignKey: 'field',
+  indexName: 'index',
+};
+
+export interface CompletionTarget {
+  /** Cache key prefix identifying the connection and database */
+  key: string;
+  db: Db;
+  /** Collections these deny reading are never suggested or sampled */
+  policies?: PolicyRule[];
+}
+
+export interface NameCompleterOptions {
+  ttlMs?: number;
+  now?: () => number;
+}
+
+export interface NameCompleter {
+  /**
+   * Suggestions for an argument, given the other arguments filled in so far
+   * (`database`, `collection`). Unknown arguments and lookup failures give none.
+   */
+  complete(argument: string, value: string, context?: Record<string, string>): Promise<string[]>;
+  clear(): void;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    !Array.isArray(value) &&
+    !(value instanceof Date) &&
+    !(value instanceof ObjectId) &&
+    Object.getPrototypeOf(value) === Object.prototype
+  );
+}
+
+/** Dotted paths of all fields in the documents, including nested subdocument fields */
+export function collectFieldPaths(documents: MongoDocument[]): string[] {
+  const paths = new Set<string>();
+
+  const visit = (value: Record<string, unknown>, prefix: string, depth: number) => {
+    for (const [key, child] of Object.entries(value)) {
+      const path = prefix ? `${prefix}.${key}` : key;
+      paths.add(path);
+      if (depth < MAX_FIELD_DEPTH && isPlainObject(child)) {
+        visit(child, path, depth + 1);
+      }
+    }
+  };
+
+  documents.forEach((doc) => visit(doc, '', 1));
+  return [...paths];
+}
+
+function matchPrefix(names: string[], value: string): string[] {
+  const prefix = value.toLowerCase();
+  return names.filter((name) => name.toLowerCase().startsWith(prefix)).sort();
+}
+
+/**
+ * Completes collection names, field paths and index names. Lookups are cached
+ * per database and collection for `ttlMs`, so typing an argument does not
+ * query the cluster on every keystroke.
+ */
+export function createNameCompleter(
+  resolve: (database?: string) => CompletionTarget,
+  options: NameCompleterOptions = {}
+): NameCompleter {
+  const { ttlMs = COMPLETION_CACHE_TTL_MS, now = Date.now } = options;
+  const cache = new Map<string, { expiresAt: number; names: Promise<string[]> }>();
+
+  const cached = (key: string, load: () => Promise<string[]>): Promise<string[]> => {
+    const hit = cache.get(key);
+    if (hit && hit.expiresAt > now()) {
+      return hit.names;
+    }
+
+    const names = load();
+    cache.set(key, { expiresAt: now() + ttlMs, names });
+    names.catch(() => cache.delete(key));
+    return names;
+  };
+
+  const lookup = (kind: CompletionKind, target: CompletionTarget, collection?: string): Promise<string[]> => {
+    const { key, db } = target;
+    switch (kind) {
+      case 'collection':
+        return cached(`${key}:collections`, async () => {
+          const collections = await db.listCollections({}, { nameOnly: true }).toArray();
+          return collections.map((collection) => collection.name).filter((name) => validateCollectionName(name).valid);
+        });
+      case 'field':
+        return cached(`${key}:${collection}:fields`, async () => {
+          const pipeline = [{ $sample: { size: FIELD_SAMPLE_SIZE } }];
+          return collectFieldPaths(await db.collection(collection!).aggregate(scopePipeline(pipeline)).toArray());
+        });
+      case 'index':
+        return cached(`${key}:${collection}:indexes`, async () => {
+          const indexes = await db.collection(collection!).listIndexes().toArray();
+          return indexes.map((index) => index.name as string);
+        });
+    }
+  };
+
+  return {
+    async complete(argument, value, context = {}) {
+      const kind = COMPLETABLE_ARGUMENTS[argument];
+      if (!kind || (kind !== 'collection' && !context.collection)) {
+        return [];
+      }
+
+      try {
+        const target = resolve(context.database || undefined);
+        const policies = target.policies ?? [];
+        if (context.collection && kind !== 'collection' && isReadDenied(policies, context.collection)) {
+          return [];
+        }
+        const names = await lookup(kind, target, context.collection);
+        return matchPrefix(kind === 'collection' ? names.filter((name) => !isReadDenied(policies, name)) : names, value);
+      } catch (error) {
+        logError('complete', error, { argument, ...context });
+        return [];
+      }
+    },
+
+    clear() {
+      cache.clear();
+    },
+  };
+}
@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import { parseAuthTokens, findAuthToken } from './auth-tokens.js';
+
+const validFile = {
+  tokens: [
+    { name: 'alice', token: 'alice-token-0123456789', mode: 'read-write' },
+    { name: 'bob', token: 'bob-token-0123456789ab', mode: 'read-only', tools: ['find'] },
+  ],
+};
+
+describe('parseAuthTokens', () => {
+  it('accepts a valid token file', () => {
+    const tokens = parseAuthTokens(validFile);
+    expect(tokens).toHaveLength(2);
+    expect(tokens[1].tools).toEqual(['find']);
+  });
+
+  it('rejects an empty token list', () => {
+    expect(() => parseAuthTokens({ tokens: [] })).toThrow(/at least one token/);
+  });
+
+  it('rejects short tokens', () => {
+    expect(() => parseAuthTokens({ tokens: [{ name: 'a', token: 'short', mode: 'read-only' }] })).toThrow(/16 characters/);
+  });
+
+  it('rejects unknown modes', () => {
+    expect(() => parseAuthTokens({ tokens: [{ name: 'a', token: 'a-token-0123456789', mode: 'admin' }] })).toThrow(
+      /Invalid auth token file/
+    );
+  });
+
+  it('rejects duplicate names', () => {
+    expect(() =>
+      parseAuthTokens({
+        tokens: [
+          { name: 'a', token: 'first-token-0123456789', mode: 'read-only' },
+          { name: 'a', token: 'second-token-0123456789', mode: 'read-only' },
+        ],
+      })
+    ).toThrow(/duplicate token name 'a'/);
+  });
+
+  it('rejects duplicate token values', () => {
+    expect(() =>
+      parseAuthTokens({
+        tokens: [
+          { name: 'a', token: 'shared-token-0123456789', mode: 'read-only' },
+          { name: 'b', token: 'shared-token-0123456789', mode: 'read-write' },
+        ],
+      })
+    ).toThrow(/already assigned/);
+  });
+});
+
+describe('findAuthToken', () => {
+  const tokens = parseAuthTokens(validFile);
+
+  it('finds the entry for a presented token', () => {
+    expect(findAuthToken(tokens, 'bob-token-0123456789ab')?.name).toBe('bob');
+  });
+
+  it('returns undefined for an unknown token', () => {
+    expect(findAuthToken(tokens, 'alice-token-012345678')).toBeUndefined();
+    expect(findAuthToken(tokens, '')).toBeUndefined();
+  });
+});
@@ -0,0 +1,81 @@
+import fs from 'fs';
+import { createHash, timingSafeEqual } from 'crypto';
+import { z } from 'zod';
+import type { AuthToken } from '../types.js';
+
+const authTokenSchema = z.object({
+  name: z.string().min(1),
+  token: z.string().min(16, 'token must be at least 16 characters'),
+  mode: z.enum(['read-only', 'read-write']),
+  tools: z.array(z.string().min(1)).optional(),
+});
+
+const authTokenFileSchema = z.object({
+  tokens: z.array(authTokenSchema).min(1, 'at least one token must be defined'),
+});
+
+/**
+ * Validates the parsed contents of a token file:
+ * { "tokens": [{ "name": "alice", "token": "...", "mode": "read-only", "tools": ["find"] }] }
+ */
+export function parseAuthTokens(data: unknown): AuthToken[] {
+  const result = authTokenFileSchema.safeParse(data);
+  if (!result.success) {
+    const details = result.error.issues
+      .map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+      .join('; ');
+    throw new Error(`Invalid auth token file: ${details}`);
+  }
+
+  const names = new Set<string>();
+  const tokens = new Set<string>();
+  for (const entry of result.data.tokens) {
+    if (names.has(entry.name)) {
+      throw new Error(`Invalid auth token file: duplicate token name '${entry.name}'`);
+    }
+    if (tokens.has(entry.token)) {
+      throw new Error(`Invalid auth token file: token for '${entry.name}' is already assigned to another entry`);
+    }
+    names.add(entry.name);
+    tokens.add(entry.token);
+  }
+
+  return result.data.tokens;
+}
+
+export function loadAuthTokens(filePath: string): AuthToken[] {
+  let raw: string;
+  try {
+    raw = fs.readFileSync(filePath, 'utf8');
+  } catch (error) {
+    throw new Error(`Could not read auth token file '${filePath}': ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(raw);
+  } catch (error) {
+    throw new Error(`Auth token file '${filePath}' is not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  return parseAuthTokens(data);
+}
+
+function digest(value: string): Buffer {
+  return createHash('sha256').update(value).digest();
+}
+
+/**
+ * Looks up the entry for a presented bearer token. Comparison is constant-time
+ * per entry so response timing does not reveal how much of a token matched.
+ */
+export function findAuthToken(tokens: AuthToken[], presented: string): AuthToken | undefined {
+  const presentedDigest = digest(presented);
+  let match: AuthToken | undefined;
+  for (const entry of tokens) {
+    if (timingSafeEqual(digest(entry.token), presentedDigest)) {
+      match = entry;
+    }
+  }
+  return match;
+}
@@ -0,0 +1,168 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { parseConfigFile, loadConfigFile, resolveProfile } from './config-file.js';
+
+const validConfig = {
+  defaultProfile: 'dev',
+  profiles: {
+    dev: { uri: 'mongodb://localhost:27017', database: 'app', mode: 'read-write', limits: { maxQueryLimit: 500 } },
+    prod: {
+      uriEnv: 'SCOUT_TEST_PROD_URI',
+      database: 'app',
+      mode: 'read-only',
+      logDir: 'logs/prod',
+      writeApproval: { required: true, ttlSeconds: 120 },
+      policies: [{ name: 'payments-read-only', collections: ['payments'], operations: ['write'], deny: true }],
+      tenant: { field: 'tenantId', value: 'acme' },
+    },
+    staging: { uriFile: 'staging.uri' },
+  },
+};
+
+describe('parseConfigFile', () => {
+  it('accepts a valid config', () => {
+    const config = parseConfigFile(validConfig);
+    expect(Object.keys(config.profiles)).toEqual(['dev', 'prod', 'staging']);
+  });
+
+  it('rejects a profile with more than one URI source', () => {
+    expect(() => parseConfigFile({ profiles: { dev: { uri: 'mongodb://a', uriEnv: 'X' } } })).toThrow(
+      /profiles\.dev: set only one of uri, uriFile or uriEnv/
+    );
+  });
+
+  it('rejects unknown keys and bad modes with their path', () => {
+    expect(() => parseConfigFile({ profiles: { dev: { mode: 'admin' } } })).toThrow(/profiles\.dev\.mode/);
+    expect(() => parseConfigFile({ profiles: { dev: { databse: 'x' } } })).toThrow(/Invalid config file/);
+    expect(() => parseConfigFile({ profiles: { dev: { limits: { maxQueryLimit: -1 } } } })).toThrow(
+      /profiles\.dev\.limits\.maxQueryLimit/
+    );
+    expect(() => parseConfigFile({ profiles: { dev: { writeApproval: { tolerance: 2 } } } })).toThrow(
+      /profiles\.dev\.writeApproval\.tolerance/
+    );
+    expect(() => parseConfigFile({ profiles: { dev: { policies: [{ name: 'p', collections: ['x'] }] } } })).toThrow(
+      /profiles\.dev\.policies\.0/
+    );
+    expect(() => parseConfigFile({ profiles: { dev: { tenant: { field: 'owner.id', value: 'acme' } } } })).toThrow(
+      /profiles\.dev\.tenant\.field: must be a top-level field name/
+    );    expect(() => parseConfigFile({ profiles: { dev: { masking: [{ pattern: '(', strategy: 'redact' }] } } })).toThrow(
+      /profiles\.dev\.masking\.0\.pattern: must be a valid regular expression/
+    );
+    expect(() =>
+      parseConfigFile({ profiles: { dev: { masking: [{ pattern: 'x', detector: 'email', strategy: 'hash' }] } } })
+    ).toThrow(/set only one of pattern or detector/);
+  });
+
+  it('rejects an empty profile map', () => {
+    expect(() => parseConfigFile({ profiles: {} })).toThrow(/at least one profile/);
+  });
+
+  it('rejects a defaultProfile that does not exist', () => {
+    expect(() => parseConfigFile({ defaultProfile: 'qa', profiles: { dev: {} } })).toThrow(/defaultProfile 'qa'/);
+  });
+});
+
+describe('loadConfigFile', () => {
+  it('reports YAML files as unsupported', () => {
+    expect(() => loadConfigFile('mongo-scout.config.yaml')).toThrow(/only JSON config files are supported/);
+  });
+
+  it('reports a missing file', () => {
+    expect(() => loadConfigFile('/nonexistent/mongo-scout.config.json')).toThrow(/Could not read config file/);
+  });
+});
+
+describe('resolveProfile', () => {
+  let dir: string;
+  let configPath: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'scout-config-'));
+    configPath = path.join(dir, 'mongo-scout.config.json');
+    fs.writeFileSync(configPath, JSON.stringify(validConfig));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+    delete process.env.SCOUT_TEST_PROD_URI;
+  });
+
+  it('uses the default profile when none is named', () => {
+    const profile = resolveProfile(loadConfigFile(configPath), configPath);
+    expect(profile).toMatchObject({
+      name: 'dev',
+      uri: 'mongodb://localhost:27017',
+      dbName: 'app',
+      mode: 'read-write',
+      limits: { maxQueryLimit: 500 },
+    });
+  });
+
+  it('reads the URI from an environment variable and resolves logDir against the config file', () => {
+    process.env.SCOUT_TEST_PROD_URI = 'mongodb://prod.example.com:27017';
+    const profile = resolveProfile(loadConfigFile(configPath), configPath, 'prod');
+    expect(profile.uri).toBe('mongodb://prod.example.com:27017');
+    expect(profile.logDir).toBe(path.join(dir, 'logs/prod'));
+    expect(profile.writeApproval).toEqual({ required: true, ttlMs: 120_000, tolerance: undefined });
+    expect(profile.tenant).toEqual({ field: 'tenantId', value: 'acme' });
+    expect(profile.policies).toEqual([
+      { name: 'payments-read-only', collections: ['payments'], operations: ['write'], deny: true },
+    ]);
+  });
+
+  it('fails clearly when the URI environment variable is not set', () => {
+    expect(() => resolveProfile(loadConfigFile(configPath), configPath, 'prod')).toThrow(/SCOUT_TEST_PROD_URI, which is not set/);
+  });
+
+  it('reads the URI from a file next to the config', () => {
+    fs.writeFileSync(path.join(dir, 'staging.uri'), 'mongodb://staging.example.com:27017\n');
+    const profile = resolveProfile(loadConfigFile(configPath), configPath, 'staging');
+    expect(profile.uri).toBe('mongodb://staging.example.com:27017');
+  });
+
+  it('lists available profiles for an unknown name', () => {
+    expect(() => resolveProfile(loadConfigFile(configPath), configPath, 'qa')).toThrow(
+      /Profile 'qa' is not defined. Available profiles: dev, prod, staging/
+    );
+  });
+
+  it('requires --profile when several profiles exist and there is no default', () => {
+    const config = parseConfigFile({ profiles: { a: {}, b: {} } });
+    expect(() => resolveProfile(config, configPath)).toThrow(/choose one with --profile/);
+  });
+
+  it('normalizes database allowlist entries', () => {
+    const config = parseConfigFile({
+      profiles: { dev: { databases: ['analytics_*', { name: 'scratch', write: true }] } },
+    });
+    expect(resolveProfile(config, configPath).databases).toEqual([
+      { pattern: 'analytics_*', write: false },
+      { pattern: 'scratch', write: true },
+    ]);
+  });
+
+  it('reads the environment label, production host patterns and production limits', () => {
+    const config = parseConfigFile({
+      productionHosts: ['*.prod.example.com'],
+      profiles: {
+        live: { uri: 'mongodb://db1.example.com', environment: ' production ', productionLimits: { maxTimeMS: 10_000 } },
+      },
+    });
+    expect(config.productionHosts).toEqual(['*.prod.example.com']);
+    expect(resolveProfile(config, configPath)).toMatchObject({ environment: 'production', productionLimits: { maxTimeMS: 10_000 } });
+    expect(() => parseConfigFile({ profiles: { live: { productionLimits: { maxTimeMs: 5 } } } })).toThrow(/productionLimits/);
+  });
+
+  it('reads tool filters from the profile', () => {
+    const config = parseConfigFile({
+      profiles: { dev: { categories: ['explore', 'monitoring'], disableTools: ['runAdminCommand'] } },
+    });
+    expect(resolveProfile(config, configPath).toolFilter).toEqual({
+      tools: undefined,
+      categories: ['explore', 'monitoring'],
+      disableTools: ['runAdminCommand'],
+    });
+  });
+});
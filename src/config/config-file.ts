@@ -0,0 +1,274 @@
+import fs from 'fs';
+import path from 'path';
+import { z } from 'zod';
+import type {
+  DatabaseAccessRule,
+  MaskingRule,
+  PolicyRule,
+  ProductionLimits,
+  QueryLimits,
+  TenantScope,
+  ToolFilter,
+  WriteApprovalSettings,
+} from '../types.js';
+
+export const DEFAULT_CONFIG_FILE = 'mongo-scout.config.json';
+
+const limitsSchema = z
+  .object({
+    maxQueryLimit: z.number().int().positive(),
+    maxExportLimit: z.number().int().positive(),
+    maxSampleSize: z.number().int().positive(),
+    maxMonitoringDuration: z.number().int().positive(),
+    maxMonitoringLimit: z.number().int().positive(),
+    maxResultSizeBytes: z.number().int().positive(),
+  })
+  .partial()
+  .strict();
+
+const productionLimitsSchema = z
+  .object({
+    maxQueryLimit: z.number().int().positive(),
+    maxTimeMS: z.number().int().positive(),
+    maxMonitoringDuration: z.number().int().positive(),
+  })
+  .partial()
+  .strict();
+
+const writeApprovalSchema = z
+  .object({
+    required: z.boolean(),
+    ttlSeconds: z.number().int().positive(),
+    tolerance: z.number().min(0).max(1),
+  })
+  .partial()
+  .strict();
+
+export const tenantFieldSchema = z
+  .string()
+  .regex(/^[^$.][^.]*$/, 'must be a top-level field name, without dots or a leading $');
+
+const tenantSchema = z
+  .object({
+    field: tenantFieldSchema,
+    value: z.union([z.string().min(1), z.number()]),
+  })
+  .strict();
+
+const policyRuleSchema = z
+  .object({
+    name: z.string().min(1),
+    description: z.string().min(1).optional(),
+    collections: z.array(z.string().min(1)).min(1),
+    operations: z
+      .array(z.enum(['read', 'lookup', 'insert', 'update', 'delete', 'drop', 'create', 'index', 'write']))
+      .min(1)
+      .optional(),
+    deny: z.boolean().optional(),
+    requireFilterFields: z.array(z.string().min(1)).min(1).optional(),
+    maxDocuments: z.number().int().positive().optional(),
+  })
+  .strict()
+  .refine((rule) => rule.deny || rule.requireFilterFields || rule.maxDocuments, {
+    message: 'set deny, requireFilterFields or maxDocuments',
+  });
+
+function compiles(pattern: string): boolean {
+  try {
+    new RegExp(pattern);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+const maskingRuleSchema = z
+  .object({
+    fields: z.array(z.string().min(1)).min(1).optional(),
+    pattern: z.string().min(1).refine(compiles, { message: 'must be a valid regular expression' }).optional(),
+    detector: z.enum(['email', 'phone', 'creditCard', 'iban', 'ipAddress', 'nationalId', 'name']).optional(),
+    strategy: z.enum(['redact', 'hash', 'partial', 'fake']),
+  })
+  .strict()
+  .refine((rule) => !(rule.pattern && rule.detector), { message: 'set only one of pattern or detector' })
+  .refine((rule) => rule.fields || rule.pattern || rule.detector, {
+    message: 'set fields, pattern or detector',
+  });
+
+const databaseRuleSchema = z.union([
+  z.string().min(1),
+  z.object({ name: z.string().min(1), write: z.boolean().optional() }).strict(),
+]);
+
+const profileSchema = z
+  .object({
+    uri: z.string().min(1).optional(),
+    uriFile: z.string().min(1).optional(),
+    uriEnv: z.string().min(1).optional(),
+    database: z.string().min(1).optional(),
+    mode: z.enum(['read-only', 'read-write']).optional(),
+    environment: z.string().trim().min(1).optional(),
+    logDir: z.string().min(1).optional(),
+    limits: limitsSchema.optional(),
+    productionLimits: productionLimitsSchema.optional(),
+    writeApproval: writeApprovalSchema.optional(),
+    tenant: tenantSchema.optional(),
+    policies: z.array(policyRuleSchema).optional(),
+    masking: z.array(maskingRuleSchema).optional(),
+    databases: z.array(databaseRuleSchema).optional(),
+    tools: z.array(z.string().min(1)).optional(),
+    disableTools: z.array(z.string().min(1)).optional(),
+    categories: z.array(z.string().min(1)).optional(),
+  })
+  .strict()
+  .refine((profile) => [profile.uri, profile.uriFile, profile.uriEnv].filter(Boolean).length <= 1, {
+    message: 'set only one of uri, uriFile or uriEnv',
+  });
+
+const configFileSchema = z
+  .object({
+    defaultProfile: z.string().min(1).optional(),
+    productionHosts: z.array(z.string().min(1)).optional(),
+    profiles: z.record(profileSchema).refine((profiles) => Object.keys(profiles).length > 0, {
+      message: 'at least one profile must be defined',
+    }),
+  })
+  .strict();
+
+export type ConfigFile = z.infer<typeof configFileSchema>;
+export type ConfigProfile = z.infer<typeof profileSchema>;
+
+export interface ResolvedProfile {
+  name: string;
+  uri?: string;
+  dbName?: string;
+  mode?: 'read-only' | 'read-write';
+  environment?: string;
+  logDir?: string;
+  limits?: Partial<QueryLimits>;
+  productionLimits?: Partial<ProductionLimits>;
+  writeApproval?: Partial<WriteApprovalSettings>;
+  tenant?: TenantScope;
+  databases?: DatabaseAccessRule[];
+  policies?: PolicyRule[];
+  masking?: MaskingRule[];
+  toolFilter?: ToolFilter;
+}
+
+/**
+ * Validates the parsed contents of a config file:
+ * { "defaultProfile": "dev", "profiles": { "dev": { "uri": "...", "database": "app", "mode": "read-write" } } }
+ */
+export function parseConfigFile(data: unknown): ConfigFile {
+  const result = configFileSchema.safeParse(data);
+  if (!result.success) {
+    const details = result.error.issues
+      .map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+      .join('; ');
+    throw new Error(`Invalid config file: ${details}`);
+  }
+
+  const { defaultProfile, profiles } = result.data;
+  if (defaultProfile && !profiles[defaultProfile]) {
+    throw new Error(`Invalid config file: defaultProfile '${defaultProfile}' is not defined in profiles`);
+  }
+
+  return result.data;
+}
+
+export function loadConfigFile(filePath: string): ConfigFile {
+  const extension = path.extname(filePath).toLowerCase();
+  if (extension === '.yaml' || extension === '.yml') {
+    throw new Error(`Config file '${filePath}' is YAML; only JSON config files are supported`);
+  }
+
+  let raw: string;
+  try {
+    raw = fs.readFileSync(filePath, 'utf8');
+  } catch (error) {
+    throw new Error(`Could not read config file '${filePath}': ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(raw);
+  } catch (error) {
+    throw new Error(`Config file '${filePath}' is not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  return parseConfigFile(data);
+}
+
+function resolveUri(name: string, profile: ConfigProfile, configDir: string): string | undefined {
+  if (profile.uri) {
+    return profile.uri;
+  }
+
+  if (profile.uriEnv) {
+    const value = process.env[profile.uriEnv]?.trim();
+    if (!value) {
+      throw new Error(`Profile '${name}' reads its URI from environment variable ${profile.uriEnv}, which is not set`);
+    }
+    return value;
+  }
+
+  if (profile.uriFile) {
+    const uriPath = path.resolve(configDir, profile.uriFile);
+    let value: string;
+    try {
+      value = fs.readFileSync(uriPath, 'utf8').trim();
+    } catch (error) {
+      throw new Error(
+        `Profile '${name}' could not read its URI file '${uriPath}': ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+    if (!value) {
+      throw new Error(`Profile '${name}' URI file '${uriPath}' is empty`);
+    }
+    return value;
+  }
+
+  return undefined;
+}
+
+/**
+ * Picks a profile by name (or the file's defaultProfile, or its only profile) and
+ * resolves indirect URIs. Relative paths in the profile are relative to the
+ * config file.
+ */
+export function resolveProfile(config: ConfigFile, configPath: string, profileName?: string): ResolvedProfile {
+  const names = Object.keys(config.profiles);
+  const name = profileName ?? config.defaultProfile ?? (names.length === 1 ? names[0] : undefined);
+  if (!name) {
+    throw new Error(`Config file defines several profiles (${names.join(', ')}); choose one with --profile <name>`);
+  }
+
+  const profile = config.profiles[name];
+  if (!profile) {
+    throw new Error(`Profile '${name}' is not defined. Available profiles: ${names.join(', ')}`);
+  }
+
+  const configDir = path.dirname(path.resolve(configPath));
+  return {
+    name,
+    uri: resolveUri(name, profile, configDir),
+    dbName: profile.database,
+    mode: profile.mode,
+    environment: profile.environment,
+    logDir: profile.logDir ? path.resolve(configDir, profile.logDir) : undefined,
+    limits: profile.limits,
+    productionLimits: profile.productionLimits,
+    writeApproval: profile.writeApproval && {
+      required: profile.writeApproval.required,
+      ttlMs: profile.writeApproval.ttlSeconds === undefined ? undefined : profile.writeApproval.ttlSeconds * 1000,
+      tolerance: profile.writeApproval.tolerance,
+    },
+    tenant: profile.tenant,
+    databases: profile.databases?.map((rule) =>
+      typeof rule === 'string' ? { pattern: rule, write: false } : { pattern: rule.name, write: rule.write ?? false }
+    ),
+    policies: profile.policies,
+    masking: profile.masking,
+    toolFilter: { tools: profile.tools, disableTools: profile.disableTools, categories: profile.categories },
+  };
+}
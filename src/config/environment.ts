@@ -1,10 +1,33 @@
-import type { AppConfig } from '../types.js';
+import fs from 'fs';
+import type { AppConfig, ConnectionConfig, DatabaseAccessRule, TenantScope, ToolFilter, TransportType } from '../types.js';
+import { DEFAULT_CONFIG_FILE, loadConfigFile, resolveProfile, tenantFieldSchema } from './config-file.js';
+import type { ResolvedProfile } from './config-file.js';
+import { resolveEnvironment } from '../utils/production-guardrails.js';
+
+const DEFAULT_HTTP_PORT = 3000;
+const DEFAULT_HTTP_HOST = '127.0.0.1';
+export const DEFAULT_CONNECTION_NAME = 'default';
 
 export function parseArgs(): AppConfig {
   const args = process.argv.slice(2);
   let uri: string | undefined;
   let dbName: string | undefined;
-  let mode = 'read-only';
+  let mode: string | undefined;
+  let transport = 'stdio';
+  let port = String(DEFAULT_HTTP_PORT);
+  let host = DEFAULT_HTTP_HOST;
+  let authTokensFile: string | undefined;
+  let configFile: string | undefined;
+  let profileName: string | undefined;
+  const databaseRules: DatabaseAccessRule[] = [];
+  const toolFilter: ToolFilter = {};
+  let listTools = false;
+  let requireApproval = false;
+  let requireReadonlyUser = false;
+  let tenantField: string | undefined;
+  let tenantValue: string | undefined;
+  let environment: string | undefined;
+  const productionHosts: string[] = [];
 
   for (let i = 0; i < args.length; i++) {
     const arg = args[i];
@@ -14,6 +37,42 @@ export function parseArgs(): AppConfig {
       mode = 'read-write';
     } else if (arg === '--mode' && i + 1 < args.length) {
       mode = args[++i];
+    } else if (arg === '--transport' && i + 1 < args.length) {
+      transport = args[++i];
+    } else if (arg === '--port' && i + 1 < args.length) {
+      port = args[++i];
+    } else if (arg === '--host' && i + 1 < args.length) {
+      host = args[++i];
+    } else if (arg === '--auth-tokens' && i + 1 < args.length) {
+      authTokensFile = args[++i];
+    } else if (arg === '--config' && i + 1 < args.length) {
+      configFile = args[++i];
+    } else if (arg === '--profile' && i + 1 < args.length) {
+      profileName = args[++i];
+    } else if (arg === '--allow-database' && i + 1 < args.length) {
+      databaseRules.push({ pattern: args[++i], write: false });
+    } else if (arg === '--allow-database-write' && i + 1 < args.length) {
+      databaseRules.push({ pattern: args[++i], write: true });
+    } else if (arg === '--tools' && i + 1 < args.length) {
+      toolFilter.tools = [...(toolFilter.tools ?? []), ...parseList(args[++i])];
+    } else if (arg === '--disable-tools' && i + 1 < args.length) {
+      toolFilter.disableTools = [...(toolFilter.disableTools ?? []), ...parseList(args[++i])];
+    } else if (arg === '--categories' && i + 1 < args.length) {
+      toolFilter.categories = [...(toolFilter.categories ?? []), ...parseList(args[++i])];
+    } else if (arg === '--list-tools') {
+      listTools = true;
+    } else if (arg === '--require-approval') {
+      requireApproval = true;
+    } else if (arg === '--require-readonly-user') {
+      requireReadonlyUser = true;
+    } else if (arg === '--tenant-field' && i + 1 < args.length) {
+      tenantField = args[++i];
+    } else if (arg === '--tenant-value' && i + 1 < args.length) {
+      tenantValue = args[++i];
+    } else if (arg === '--environment' && i + 1 < args.length) {
+      environment = args[++i];
+    } else if (arg === '--production-hosts' && i + 1 < args.length) {
+      productionHosts.push(...parseList(args[++i]));
     } else if (!uri) {
       uri = arg;
     } else if (!dbName) {
@@ -21,6 +80,10 @@ export function parseArgs(): AppConfig {
     }
   }
 
+  const profiles = loadProfiles(configFile, profileName);
+  const profile = profiles?.selected;
+  mode = mode ?? profile?.mode ?? 'read-only';
+
   const normalizedMode = mode.toLowerCase().trim();
   if (normalizedMode !== 'read-only' && normalizedMode !== 'read-write') {
     console.error(`Invalid mode "${mode}". Must be "read-only" or "read-write". Defaulting to read-only for safety.`);
@@ -29,8 +92,130 @@ export function parseArgs(): AppConfig {
     mode = normalizedMode;
   }
 
-  uri = uri || process.env.MONGODB_URI || 'mongodb://localhost:27017';
-  dbName = dbName || 'test';
+  const normalizedTransport = transport.toLowerCase().trim();
+  if (normalizedTransport !== 'stdio' && normalizedTransport !== 'http') {
+    console.error(`Invalid transport "${transport}". Must be "stdio" or "http". Defaulting to stdio.`);
+    transport = 'stdio';
+  } else {
+    transport = normalizedTransport;
+  }
+
+  let portNumber = Number(port);
+  if (!Number.isInteger(portNumber) || portNumber < 1 || portNumber > 65535) {
+    console.error(`Invalid port "${port}". Must be an integer between 1 and 65535. Defaulting to ${DEFAULT_HTTP_PORT}.`);
+    portNumber = DEFAULT_HTTP_PORT;
+  }
+
+  uri = uri || profile?.uri || process.env.MONGODB_URI || 'mongodb://localhost:27017';
+  dbName = dbName || profile?.dbName || 'test';
+  productionHosts.push(...(profiles?.productionHosts ?? []));
+
+  const connections: ConnectionConfig[] = [
+    {
+      name: profile?.name ?? DEFAULT_CONNECTION_NAME,
+      uri,
+      dbName,
+      mode,
+      databases: [...(profile?.databases ?? []), ...databaseRules],
+      policies: profile?.policies,
+      environment: resolveEnvironment(uri, environment ?? profile?.environment, productionHosts),
+    },
+    ...(profiles?.others ?? []).map((other) => {
+      const otherUri = other.uri ?? 'mongodb://localhost:27017';
+      return {
+        name: other.name,
+        uri: otherUri,
+        dbName: other.dbName ?? 'test',
+        mode: other.mode ?? 'read-only',
+        databases: other.databases,
+        policies: other.policies,
+        environment: resolveEnvironment(otherUri, other.environment, productionHosts),
+      };
+    }),
+  ];
+
+  return {
+    uri,
+    dbName,
+    mode,
+    connections,
+    logDir: profile?.logDir || process.env.LOG_DIR || './logs',
+    transport: transport as TransportType,
+    port: portNumber,
+    host,
+    authTokensFile,
+    profile: profile?.name,
+    limits: profile?.limits,
+    productionLimits: profile?.productionLimits,
+    writeApproval: requireApproval ? { ...profile?.writeApproval, required: true } : profile?.writeApproval,
+    tenant: resolveTenantScope(tenantField, tenantValue, profile?.tenant),
+    masking: profile?.masking,
+    toolFilter: {
+      tools: toolFilter.tools ?? profile?.toolFilter?.tools,
+      disableTools: toolFilter.disableTools ?? profile?.toolFilter?.disableTools,
+      categories: toolFilter.categories ?? profile?.toolFilter?.categories,
+    },
+    listTools,
+    requireReadonlyUser,
+  };
+}
+
+/** Flags override the profile's tenant field and value; a scope needs both */
+function resolveTenantScope(field?: string, value?: string, profileTenant?: TenantScope): TenantScope | undefined {
+  const scope = { field: field ?? profileTenant?.field, value: value ?? profileTenant?.value };
+  if (scope.field === undefined && scope.value === undefined) {
+    return undefined;
+  }
+  if (scope.field === undefined || scope.value === undefined || scope.value === '') {
+    throw new Error('Tenant scoping needs both --tenant-field and --tenant-value');
+  }
+  const fieldCheck = tenantFieldSchema.safeParse(scope.field);
+  if (!fieldCheck.success) {
+    throw new Error(`Invalid --tenant-field "${scope.field}": ${fieldCheck.error.issues[0].message}`);
+  }
+  return { field: scope.field, value: scope.value };
+}
+
+/** Comma-separated flag values: "find, count" -> ['find', 'count'] */
+function parseList(value: string): string[] {
+  return value
+    .split(',')
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Loads the selected profile plus every other profile in the file, which become
+ * additional named connections. --profile without --config looks for
+ * mongo-scout.config.json in the working directory. Errors in the selected
+ * profile are thrown so startup fails with the validation message instead of
+ * silently using defaults; other profiles that cannot be resolved are skipped.
+ */
+function loadProfiles(
+  configFile: string | undefined,
+  profileName: string | undefined
+): { selected: ResolvedProfile; others: ResolvedProfile[]; productionHosts?: string[] } | undefined {
+  if (!configFile && !profileName) {
+    return undefined;
+  }
+
+  const filePath = configFile ?? DEFAULT_CONFIG_FILE;
+  if (!configFile && !fs.existsSync(filePath)) {
+    throw new Error(`--profile ${profileName} was given but no --config file was specified and ${DEFAULT_CONFIG_FILE} was not found`);
+  }
+
+  const config = loadConfigFile(filePath);
+  const selected = resolveProfile(config, filePath, profileName);
+
+  const others: ResolvedProfile[] = [];
+  for (const name of Object.keys(config.profiles)) {
+    if (name === selected.name) continue;
+    try {
+      others.push(resolveProfile(config, filePath, name));
+    } catch (error) {
+      console.error(`Skipping connection '${name}': ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
 
-  return { uri, dbName, mode, logDir: './logs' };
+  return { selected, others, productionHosts: config.productionHosts };
 }
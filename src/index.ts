@@ -1,11 +1,102 @@
-import { MongoClient } from 'mongodb';
 import { parseArgs } from './config/environment.js';
 import { setupServer } from './server/setup.js';
+import { stopHttpServer } from './server/http.js';
 import { stopRateLimiterCleanup } from './utils/rate-limiter.js';
 import { redactString } from './utils/uri-redactor.js';
+import { createConnectionRegistryFromConfig } from './utils/connection-registry.js';
+import type { RegisteredConnection } from './utils/connection-registry.js';
+import type { ConnectionManager } from './utils/connection-manager.js';
+import { auditCredentials, auditReadOnlyCredentials } from './utils/credential-audit.js';
+import { applyMaskingRules } from './utils/pii-masking.js';
+import { applyProductionLimits, isProduction } from './utils/production-guardrails.js';
+import { applyQueryLimits } from './utils/query-limits.js';
+import { applyTenantScope } from './utils/query-preprocessor.js';
+import { applyWriteApprovalSettings } from './utils/write-approval.js';
+import { setLogDir } from './utils/logger.js';
+import { getHiddenTools, getToolCatalog } from './tools/multi-connection.js';
+import { formatToolCatalog } from './tools/registry.js';
+import type { ConnectionErrorCategory } from './types.js';
 
-const { uri, dbName, mode } = parseArgs();
-const client = new MongoClient(uri);
+function loadConfig() {
+  try {
+    return parseArgs();
+  } catch (error) {
+    console.error('Configuration error:', redactString(error instanceof Error ? error.message : String(error)));
+    process.exit(1);
+  }
+}
+
+const config = loadConfig();
+setLogDir(config.logDir);
+if (config.limits) {
+  applyQueryLimits(config.limits);
+}
+if (config.productionLimits) {
+  applyProductionLimits(config.productionLimits);
+}
+if (config.writeApproval) {
+  applyWriteApprovalSettings(config.writeApproval);
+}
+if (config.tenant) {
+  applyTenantScope(config.tenant);
+}
+if (config.masking) {
+  applyMaskingRules(config.masking);
+}
+const registry = createConnectionRegistryFromConfig(config.connections);
+
+function loadToolCatalog() {
+  try {
+    return getToolCatalog(registry, config.toolFilter);
+  } catch (error) {
+    console.error('Configuration error:', redactString(error instanceof Error ? error.message : String(error)));
+    process.exit(1);
+  }
+}
+
+/** How long --list-tools waits for each connection before listing without its privileges */
+const LIST_TOOLS_CONNECT_TIMEOUT_MS = 10_000;
+
+/** How long --require-readonly-user waits for each read-only connection before refusing to start */
+const AUDIT_CONNECT_TIMEOUT_MS = 10_000;
+
+async function connectWithin(connection: ConnectionManager, timeoutMs: number): Promise<void> {
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`no connection within ${timeoutMs / 1000}s`)), timeoutMs);
+  });
+  try {
+    await Promise.race([connection.connect(), timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/** Connects to read each user's privileges, so the listing leaves out the tools they cannot use */
+async function listTools() {
+  await Promise.all(
+    registry.list().map(async ({ name, connection }) => {
+      try {
+        await connectWithin(connection, LIST_TOOLS_CONNECT_TIMEOUT_MS);
+      } catch (error) {
+        const reason = redactString(error instanceof Error ? error.message : String(error));
+        console.error(`Privileges not checked for connection '${name}': ${reason}`);
+      }
+    })
+  );
+
+  console.log(formatToolCatalog(loadToolCatalog(), getHiddenTools(registry, config.toolFilter)));
+  await registry.closeAll().catch(() => undefined);
+  process.exit(0);
+}
+
+const toolCatalog = loadToolCatalog();
+if (config.listTools) {
+  await listTools();
+}
+if (toolCatalog.length === 0) {
+  console.error('Warning: the tool filter leaves no tools exposed. Check --tools, --disable-tools and --categories.');
+}
 
 let isShuttingDown = false;
 
@@ -17,25 +108,109 @@ async function shutdown() {
 
   try {
     stopRateLimiterCleanup();
-    await client.close();
+    await stopHttpServer();
+    await registry.closeAll();
   } catch (error) {
     console.error('Error during shutdown:', error);
   }
   process.exit(0);
 }
 
+function connectInBackground({ name, connection }: RegisteredConnection) {
+  let lastReported: ConnectionErrorCategory | undefined;
+  const label = registry.list().length > 1 ? ` '${name}'` : '';
+
+  connection
+    .connectInBackground((diagnosis) => {
+      if (diagnosis.category === lastReported) {
+        return;
+      }
+      lastReported = diagnosis.category;
+      console.error(`Database${label} unavailable (${diagnosis.category}): ${diagnosis.message}`);
+      console.error(diagnosis.hint);
+    })
+    .then((connected) => {
+      if (connected && lastReported) {
+        console.error(`Connected to MongoDB${label}.`);
+      } else if (!connected && !isShuttingDown) {
+        const diagnosis = connection.getUnavailableDiagnosis();
+        console.error(`Not connecting to MongoDB${label}: ${diagnosis?.message ?? 'unknown error'}`);
+        if (diagnosis) {
+          console.error(diagnosis.hint);
+        }
+      }
+    })
+    .catch((error) => {
+      console.error('Background connection failed:', redactString(error instanceof Error ? error.message : String(error)));
+    });
+}
+
+function warnAboutCredentials(entry: RegisteredConnection) {
+  const warning = auditReadOnlyCredentials(entry);
+  if (warning) {
+    console.error(`\n⚠ WARNING: ${warning}\n`);
+  }
+}
+
+/**
+ * Checks that read-only connections cannot write with their credentials.
+ * With --require-readonly-user, exits unless every one connected in time and
+ * passed; otherwise warns once each connection comes up, without delaying
+ * startup. Sessions already open get the warning from createMcpServer.
+ */
+async function auditReadOnlyConnections() {
+  const readOnly = registry.list().filter((entry) => entry.mode === 'read-only');
+
+  if (!config.requireReadonlyUser) {
+    for (const entry of readOnly) {
+      const unsubscribe = entry.connection.onPrivilegesChanged(() => {
+        unsubscribe();
+        warnAboutCredentials(entry);
+      });
+    }
+    return;
+  }
+
+  const unchecked = await Promise.all(
+    readOnly.map(async ({ name, connection }) => {
+      try {
+        await connectWithin(connection, AUDIT_CONNECT_TIMEOUT_MS);
+      } catch (error) {
+        const reason = connection.getUnavailableDiagnosis()?.message ?? (error instanceof Error ? error.message : String(error));
+        return `Could not check the credentials of connection '${name}': ${reason}`;
+      }
+      return connection.getPrivileges() ? [] : `Could not check the credentials of connection '${name}': privileges unavailable`;
+    })
+  );
+  const failures = [...unchecked.flat(), ...auditCredentials(registry)];
+  if (failures.length > 0) {
+    failures.forEach((failure) => console.error(`Error: ${redactString(failure)}`));
+    console.error('Refusing to start because of --require-readonly-user.');
+    await registry.closeAll().catch(() => undefined);
+    process.exit(1);
+  }
+}
+
 async function main() {
+  if (config.profile) {
+    console.error(`Using config profile '${config.profile}'`);
+  }
+  for (const { name, environment } of registry.list()) {
+    if (isProduction(environment)) {
+      console.error(`Connection '${name}' is production: stricter limits, maxTimeMS on reads and approval tokens for bulk writes apply.`);
+    }
+  }
+
+  await auditReadOnlyConnections();
+
   try {
-    await client.connect();
-    await client.db(dbName).command({ ping: 1 });
-    await setupServer(client, dbName, mode);
+    await setupServer(registry, config);
   } catch (error) {
     console.error('Error:', redactString(error instanceof Error ? error.message : String(error)));
-    if (String(error).includes('Authentication failed')) {
-      console.error('Authentication failed. Please check your username and password.');
-    }
     process.exit(1);
   }
+
+  registry.list().forEach(connectInBackground);
 }
 
 process.on('SIGINT', shutdown);
@@ -43,6 +218,6 @@ process.on('SIGTERM', shutdown);
 
 main().catch((error) => {
   console.error('Fatal error:', redactString(error instanceof Error ? error.message : String(error)));
-  client.close().catch(console.error);
+  registry.closeAll().catch(console.error);
   process.exit(1);
 });
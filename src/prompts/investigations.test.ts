@@ -0,0 +1,118 @@
+import { describe, it, expect, vi } from 'vitest';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { MongoClient } from 'mongodb';
+import { INVESTIGATION_PROMPTS, registerInvestigationPrompts, renderInvestigation } from './investigations.js';
+import { buildToolRegistry } from '../tools/index.js';
+import type { NameCompleter } from '../completions/names.js';
+
+const allTools = new Set(INVESTIGATION_PROMPTS.flatMap((prompt) => prompt.steps.map((step) => step.tool)));
+
+function getPrompt(name: string) {
+  return INVESTIGATION_PROMPTS.find((prompt) => prompt.name === name)!;
+}
+
+function createCompleter(): NameCompleter {
+  return {
+    complete: vi.fn(async (argument: string, value: string, context?: Record<string, string>) => {
+      const names = argument === 'collection' ? ['orders', 'users'] : context?.collection === 'orders' ? ['createdAt', 'total'] : [];
+      return names.filter((name) => name.startsWith(value));
+    }),
+    clear: vi.fn(),
+  };
+}
+
+async function connect(availableTools: ReadonlySet<string>, completer = createCompleter()) {
+  const server = new McpServer({ name: 'test', version: '1.0.0' });
+  registerInvestigationPrompts(server, availableTools, completer);
+
+  const client = new Client({ name: 'test-client', version: '1.0.0' });
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+  return client;
+}
+
+describe('investigation prompts', () => {
+  it('only references tools that exist', () => {
+    const client = new MongoClient('mongodb://127.0.0.1:27017');
+    const registered = new Set(
+      buildToolRegistry(client, client.db('app'), 'app', 'read-write').list().map((definition) => definition.name)
+    );
+
+    for (const tool of allTools) {
+      expect(registered).toContain(tool);
+    }
+  });
+
+  it('lists the prompts with their arguments', async () => {
+    const client = await connect(allTools);
+
+    const { prompts } = await client.listPrompts();
+
+    expect(prompts.map((prompt) => prompt.name)).toEqual([
+      'investigate-slow-query',
+      'data-quality-audit',
+      'volume-spike',
+    ]);
+    const volumeSpike = prompts.find((prompt) => prompt.name === 'volume-spike');
+    expect(volumeSpike?.arguments?.map((argument) => [argument.name, argument.required])).toEqual([
+      ['collection', true],
+      ['timestampField', true],
+    ]);
+  });
+
+  it('fills the arguments into an ordered tool sequence', async () => {
+    const client = await connect(allTools);
+
+    const result = await client.getPrompt({ name: 'investigate-slow-query', arguments: { collection: 'orders' } });
+    const text = (result.messages[0].content as { text: string }).text;
+
+    expect(result.messages[0].role).toBe('user');
+    expect(text).toContain('queries on the `orders` collection are slow');
+    expect(text.indexOf('1. `getSlowestOperations`')).toBeGreaterThan(-1);
+    expect(text.indexOf('`getSlowestOperations`')).toBeLessThan(text.indexOf('`analyzeQueryPerformance`'));
+    expect(text).toContain('`createIndex`: Propose the index definitions');
+  });
+
+  it('drops steps for unexposed tools and uses fallbacks', () => {
+    const readOnly = new Set([...allTools].filter((tool) => tool !== 'createIndex' && tool !== 'getProfilerStats'));
+
+    const text = renderInvestigation(getPrompt('investigate-slow-query'), { collection: 'orders' }, readOnly);
+
+    expect(text).not.toContain('getProfilerStats');
+    expect(text).not.toContain('`createIndex`');
+    expect(text).toContain('2. `analyzeQueryPerformance`');
+    expect(text).toContain('This server cannot create indexes');
+  });
+
+  it('skips prompts none of whose tools are exposed', async () => {
+    const client = await connect(new Set(['detectVolumeAnomalies']));
+
+    const { prompts } = await client.listPrompts();
+
+    expect(prompts.map((prompt) => prompt.name)).toEqual(['volume-spike']);
+  });
+
+  it('completes collection and timestamp field arguments', async () => {
+    const client = await connect(allTools);
+    const ref = { type: 'ref/prompt' as const, name: 'volume-spike' };
+
+    const collections = await client.complete({ ref, argument: { name: 'collection', value: 'o' } });
+    const fields = await client.complete({
+      ref,
+      argument: { name: 'timestampField', value: 'cr' },
+      context: { arguments: { collection: 'orders' } },
+    });
+
+    expect(collections.completion.values).toEqual(['orders']);
+    expect(fields.completion.values).toEqual(['createdAt']);
+  });
+
+  it('can be registered on one server per session', async () => {
+    await connect(allTools);
+    const client = await connect(allTools);
+
+    expect((await client.listPrompts()).prompts).toHaveLength(3);
+  });
+});
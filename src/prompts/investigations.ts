@@ -0,0 +1,205 @@
+import { z } from 'zod';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { completable } from '@modelcontextprotocol/sdk/server/completable.js';
+import { COMPLETABLE_ARGUMENTS } from '../completions/names.js';
+import type { NameCompleter } from '../completions/names.js';
+
+type PromptArgs = Record<string, string>;
+
+/** Instructions may reference prompt arguments as {name} */
+interface WorkflowStep {
+  tool: string;
+  instruction: string;
+  /** Used instead of the step when the tool is not exposed, e.g. writes in read-only mode */
+  fallback?: string;
+}
+
+export interface InvestigationPrompt {
+  name: string;
+  title: string;
+  description: string;
+  /** Argument names and descriptions; all arguments are required strings */
+  arguments: Record<string, string>;
+  goal: string;
+  steps: WorkflowStep[];
+  summary: string;
+}
+
+export const INVESTIGATION_PROMPTS: InvestigationPrompt[] = [
+  {
+    name: 'investigate-slow-query',
+    title: 'Investigate Slow Query',
+    description: 'Find why queries on a collection are slow and recommend indexes',
+    arguments: { collection: 'Collection to investigate' },
+    goal: 'Find out why queries on the {collection} collection are slow.',
+    steps: [
+      {
+        tool: 'getSlowestOperations',
+        instruction: 'Call with includeQueryDetails: true and pick out the slow operations against {collection}, noting their filters and sorts.',
+      },
+      {
+        tool: 'getProfilerStats',
+        instruction: 'If the profiler is enabled, filter on the {collection} namespace to see whether the same query shapes recur.',
+      },
+      {
+        tool: 'analyzeQueryPerformance',
+        instruction: "Run the slowest query shapes against {collection} with options { verbosity: 'executionStats', includeRecommendations: true } and compare documents examined with documents returned.",
+      },
+      {
+        tool: 'listIndexes',
+        instruction: 'List the existing indexes on {collection} and check whether a recommended index already exists or would make one redundant.',
+      },
+      {
+        tool: 'getCollectionStats',
+        instruction: 'Check the size of {collection} and its indexes to judge the cost of a new index.',
+      },
+      {
+        tool: 'createIndex',
+        instruction: 'Propose the index definitions and only create them after the user confirms.',
+        fallback: 'Propose the index definitions. This server cannot create indexes, so the user has to apply them.',
+      },
+    ],
+    summary: 'Finish with the root cause, the evidence for it and the recommended indexes or query changes.',
+  },
+  {
+    name: 'data-quality-audit',
+    title: 'Data Quality Audit',
+    description: 'Audit a collection for type drift, missing fields, duplicates and broken references',
+    arguments: { collection: 'Collection to audit' },
+    goal: 'Audit the data quality of the {collection} collection.',
+    steps: [
+      {
+        tool: 'inferSchema',
+        instruction: 'Infer the schema of {collection} and note fields with more than one type or that only some documents have.',
+      },
+      {
+        tool: 'findInconsistentTypes',
+        instruction: 'For each field with several types, measure how many documents have each type, with includeSamples: true.',
+      },
+      {
+        tool: 'findMissingFields',
+        instruction: 'Pass the fields most documents have as requiredFields to find the documents missing them.',
+      },
+      {
+        tool: 'findDuplicates',
+        instruction: 'Look for duplicates on fields that look like natural keys, such as emails, slugs or external IDs.',
+      },
+      {
+        tool: 'findOrphans',
+        instruction: 'For fields that reference other collections (ObjectIds or names ending in Id), find references whose target no longer exists.',
+      },
+    ],
+    summary: 'Finish with a list of issues ranked by the number of affected documents, each with a suggested fix.',
+  },
+  {
+    name: 'volume-spike',
+    title: 'Investigate Volume Spike',
+    description: 'Find unusual document volume in a collection and explain where it came from',
+    arguments: {
+      collection: 'Collection to investigate',
+      timestampField: 'Date field recording when documents were created or modified',
+    },
+    goal: 'Investigate unusual document volume in the {collection} collection, using {timestampField} as the timestamp.',
+    steps: [
+      {
+        tool: 'detectVolumeAnomalies',
+        instruction: "Run on {collection} with timestampField {timestampField} and groupBy 'hour' to locate the spike, then 'day' for the longer trend.",
+      },
+      {
+        tool: 'findInTimeRange',
+        instruction: 'Sample documents from the anomalous period and from a normal period before it.',
+      },
+      {
+        tool: 'aggregate',
+        instruction: 'Group the anomalous period by the fields that differ between the samples (source, user, type, status) to find what drives the extra volume.',
+      },
+      {
+        tool: 'getHottestCollections',
+        instruction: 'If the spike is still going on, check whether {collection} is among the busiest collections right now.',
+      },
+      {
+        tool: 'getCurrentOperations',
+        instruction: 'If the spike is still going on, look for the clients or operations producing it.',
+      },
+    ],
+    summary: 'Finish with when the spike started and ended, its size compared with the baseline and the most likely source.',
+  },
+];
+
+function fill(template: string, args: PromptArgs): string {
+  return template.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    name in args ? `\`${args[name]}\`` : placeholder
+  );
+}
+
+/** Steps for tools this server does not expose are dropped or replaced by their fallback */
+export function renderInvestigation(
+  prompt: InvestigationPrompt,
+  args: PromptArgs,
+  availableTools: ReadonlySet<string>
+): string {
+  const steps = prompt.steps.flatMap((step) => {
+    if (availableTools.has(step.tool)) {
+      return [`\`${step.tool}\`: ${fill(step.instruction, args)}`];
+    }
+    return step.fallback ? [fill(step.fallback, args)] : [];
+  });
+
+  return [
+    fill(prompt.goal, args),
+    '',
+    'Work through these steps with the MongoDB tools, using what each step finds to shape the next:',
+    ...steps.map((step, index) => `${index + 1}. ${step}`),
+    '',
+    prompt.summary,
+  ].join('\n');
+}
+
+/** Collection and field name arguments complete through the completer */
+function buildArgsSchema(args: Record<string, string>, completer: NameCompleter) {
+  return Object.fromEntries(
+    Object.entries(args).map(([name, description]) => {
+      const schema = z.string().describe(description);
+      return [
+        name,
+        name in COMPLETABLE_ARGUMENTS
+          ? completable(schema, (value, context) => completer.complete(name, value, context?.arguments))
+          : schema,
+      ];
+    })
+  );
+}
+
+/**
+ * Publishes guided workflows built from the existing tools. A prompt is only
+ * published when at least one of its tools is exposed.
+ */
+export function registerInvestigationPrompts(
+  server: McpServer,
+  availableTools: ReadonlySet<string>,
+  completer: NameCompleter
+): void {
+  for (const prompt of INVESTIGATION_PROMPTS) {
+    if (!prompt.steps.some((step) => availableTools.has(step.tool))) {
+      continue;
+    }
+
+    server.registerPrompt(
+      prompt.name,
+      {
+        title: prompt.title,
+        description: prompt.description,
+        argsSchema: buildArgsSchema(prompt.arguments, completer),
+      },
+      (args: PromptArgs) => ({
+        description: prompt.description,
+        messages: [
+          {
+            role: 'user',
+            content: { type: 'text', text: renderInvestigation(prompt, args, availableTools) },
+          },
+        ],
+      })
+    );
+  }
+}
@@ -0,0 +1,221 @@
+import { describe, it, expect, vi } from 'vitest';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { registerDatabaseResources, collectionResourceUri, collectionsUri, resolveDatabase } from './database.js';
+import { createNameCompleter } from '../completions/names.js';
+import { createConnectionRegistry } from '../utils/connection-registry.js';
+import type { ConnectionManager } from '../utils/connection-manager.js';
+import type { ConnectionSession } from '../tools/connection.js';
+import type { PolicyRule } from '../types.js';
+
+vi.mock('../utils/logger.js', () => ({ logToolUsage: vi.fn(), logError: vi.fn() }));
+
+function toArray<T>(items: T[]) {
+  return { toArray: async () => items };
+}
+
+function createMockDb() {
+  return {
+    listCollections: vi.fn(() =>
+      toArray([
+        { name: 'users', type: 'collection' },
+        { name: 'active users', type: 'view' },
+        { name: 'system.views', type: 'collection' },
+      ])
+    ),
+    collection: vi.fn(() => ({
+      aggregate: vi.fn(() => toArray([{ name: 'Ada', age: 36 }, { name: 'Grace', age: null }])),
+      listIndexes: vi.fn(() => toArray([{ v: 2, key: { _id: 1 }, name: '_id_' }])),
+    })),
+    command: vi.fn(async () => ({ ns: 'app.users', count: 2, size: 120, nindexes: 1, wiredTiger: {} })),
+  };
+}
+
+function createMockConnection(db: ReturnType<typeof createMockDb>, unavailable = false) {
+  return {
+    client: { db: vi.fn(() => db) },
+    getUnavailableDiagnosis: () =>
+      unavailable ? { category: 'unreachable', message: 'connect ECONNREFUSED', hint: 'start it' } : undefined,
+  } as unknown as ConnectionManager;
+}
+
+async function setup(options: { unavailable?: boolean; policies?: PolicyRule[] } = {}) {
+  const db = createMockDb();
+  const connection = createMockConnection(db, options.unavailable);
+  const registry = createConnectionRegistry([
+    {
+      name: 'default',
+      dbName: 'app',
+      mode: 'read-only',
+      databases: [{ pattern: 'analytics_*', write: false }],
+      policies: options.policies,
+      connection,
+    },
+  ]);
+  const session: ConnectionSession = { activeConnection: 'default' };
+
+  const server = new McpServer({ name: 'test', version: '1.0.0' });
+  const completer = createNameCompleter((database) => {
+    const { connection, db, policies } = resolveDatabase(registry, session, database);
+    return { key: `${connection}/${db.databaseName}`, db, policies };
+  });
+  registerDatabaseResources(server, registry, session, completer);
+
+  const client = new Client({ name: 'test-client', version: '1.0.0' });
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+
+  const read = async (uri: string) => {
+    const result = await client.readResource({ uri });
+    return JSON.parse(result.contents[0].text as string);
+  };
+  return { db, connection, client, read };
+}
+
+describe('database resources', () => {
+  it('builds encoded resource URIs', () => {
+    expect(collectionsUri('app')).toBe('mongodb://app/collections');
+    expect(collectionResourceUri('app', 'active users', 'schema')).toBe('mongodb://app/active%20users/schema');
+  });
+
+  it('lists the collections resource and per-collection resources', async () => {
+    const { client } = await setup();
+
+    const { resources } = await client.listResources();
+    const uris = resources.map((resource) => resource.uri);
+
+    expect(uris).toContain('mongodb://app/collections');
+    expect(uris).toContain('mongodb://app/users/schema');
+    expect(uris).toContain('mongodb://app/active%20users/indexes');
+    expect(uris).toContain('mongodb://app/users/stats');
+    expect(uris.filter((uri) => uri.includes('system.'))).toEqual([]);
+  });
+
+  it('exposes the resource templates', async () => {
+    const { client } = await setup();
+
+    const { resourceTemplates } = await client.listResourceTemplates();
+
+    expect(resourceTemplates.map((template) => template.uriTemplate)).toEqual([
+      'mongodb://{database}/collections',
+      'mongodb://{database}/{collection}/schema',
+      'mongodb://{database}/{collection}/indexes',
+      'mongodb://{database}/{collection}/stats',
+      'mongodb://{database}/{collection}/indexes/{indexName}',
+    ]);
+  });
+
+  it('reads the collection list', async () => {
+    const { read } = await setup();
+
+    expect(await read('mongodb://app/collections')).toEqual({
+      database: 'app',
+      collections: [
+        { name: 'users', type: 'collection' },
+        { name: 'active users', type: 'view' },
+        { name: 'system.views', type: 'collection' },
+      ],
+    });
+  });
+
+  it('reads an inferred schema with a decoded collection name', async () => {
+    const { db, read } = await setup();
+
+    const schema = await read('mongodb://app/active%20users/schema');
+
+    expect(db.collection).toHaveBeenCalledWith('active users');
+    expect(schema).toEqual({
+      database: 'app',
+      collection: 'active users',
+      sampledDocuments: 2,
+      fields: { name: ['string'], age: ['number', 'null'] },
+    });
+  });
+
+  it('reads indexes and summary stats', async () => {
+    const { read } = await setup();
+
+    expect((await read('mongodb://app/users/indexes')).indexes[0].name).toBe('_id_');
+
+    const stats = await read('mongodb://app/users/stats');
+    expect(stats).toMatchObject({ collection: 'users', count: 2, size: 120 });
+    expect(stats).not.toHaveProperty('wiredTiger');
+  });
+
+  it('reads allowlisted databases and rejects others', async () => {
+    const { connection, read } = await setup();
+
+    await read('mongodb://analytics_2024/collections');
+    expect(connection.client.db).toHaveBeenCalledWith('analytics_2024');
+
+    await expect(read('mongodb://admin/collections')).rejects.toThrow(/Database 'admin' is not available/);
+  });
+
+  it('rejects system collections', async () => {
+    const { read } = await setup();
+
+    await expect(read('mongodb://app/system.users/schema')).rejects.toThrow(/system/);
+  });
+
+  it('reports an unavailable database on read and omits its collections from the list', async () => {
+    const { client, read } = await setup({ unavailable: true });
+
+    await expect(read('mongodb://app/collections')).rejects.toThrow(/Database unavailable \(unreachable\)/);
+
+    const { resources } = await client.listResources();
+    expect(resources.map((resource) => resource.uri)).toEqual(['mongodb://app/collections']);
+  });
+
+  it('reads a single index by name', async () => {
+    const { read } = await setup();
+
+    expect((await read('mongodb://app/users/indexes/_id_')).index.key).toEqual({ _id: 1 });
+    await expect(read('mongodb://app/users/indexes/email_1')).rejects.toThrow(/Index 'email_1' not found/);
+  });
+
+  it('hides and refuses collections that policies deny reading', async () => {
+    const { client, read } = await setup({
+      policies: [{ name: 'no-users', collections: ['users'], operations: ['read'], deny: true }],
+    });
+
+    const { resources } = await client.listResources();
+    expect(resources.map((resource) => resource.uri).filter((uri) => uri.includes('/users/'))).toEqual([]);
+    expect((await read('mongodb://app/collections')).collections.map(({ name }: { name: string }) => name)).toEqual([
+      'active users',
+      'system.views',
+    ]);
+    await expect(read('mongodb://app/users/schema')).rejects.toThrow(/blocked by policy 'no-users'/);
+    await expect(read('mongodb://app/users/indexes/_id_')).rejects.toThrow(/blocked by policy 'no-users'/);
+
+    const completion = await client.complete({
+      ref: { type: 'ref/resource', uri: 'mongodb://{database}/{collection}/schema' },
+      argument: { name: 'collection', value: '' },
+      context: { arguments: { database: 'app' } },
+    });
+    expect(completion.completion.values).toEqual(['active users']);
+  });
+
+  it('completes template variables', async () => {
+    const { client } = await setup();
+    const complete = async (uri: string, name: string, value: string, args?: Record<string, string>) =>
+      (
+        await client.complete({
+          ref: { type: 'ref/resource', uri },
+          argument: { name, value },
+          context: args ? { arguments: args } : undefined,
+        })
+      ).completion.values;
+
+    expect(await complete('mongodb://{database}/collections', 'database', 'a')).toEqual(['app']);
+    expect(await complete('mongodb://{database}/{collection}/schema', 'collection', 'u', { database: 'app' })).toEqual([
+      'users',
+    ]);
+    expect(
+      await complete('mongodb://{database}/{collection}/indexes/{indexName}', 'indexName', '', {
+        database: 'app',
+        collection: 'users',
+      })
+    ).toEqual(['_id_']);
+  });
+});
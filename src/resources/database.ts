@@ -0,0 +1,261 @@
+import { ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import type { Resource } from '@modelcontextprotocol/sdk/types.js';
+import type { Variables } from '@modelcontextprotocol/sdk/shared/uriTemplate.js';
+import type { Db } from 'mongodb';
+import { sampleCollectionSchema } from '../tools/schema.js';
+import type { NameCompleter } from '../completions/names.js';
+import type { ConnectionSession } from '../tools/connection.js';
+import { validateCollectionName, validateDatabaseName } from '../utils/name-validator.js';
+import { authorizeToolCall, getTokenGrant } from '../utils/tool-authorization.js';
+import { filterCollectionStats, excludeZeroMetrics } from '../utils/response-filter.js';
+import { logError } from '../utils/logger.js';
+import { checkPolicies, isReadDenied } from '../utils/policy-engine.js';
+import { redactString } from '../utils/uri-redactor.js';
+import type { ConnectionRegistry, RegisteredConnection } from '../utils/connection-registry.js';
+import type { PolicyRule } from '../types.js';
+
+const MIME_TYPE = 'application/json';
+const SCHEMA_SAMPLE_SIZE = 100;
+
+type CollectionResourceKind = 'schema' | 'indexes' | 'stats';
+
+interface CollectionResource {
+  kind: CollectionResourceKind;
+  title: string;
+  description: string;
+  /** The tool serving the same data; token allowlists for it apply to the resource */
+  tool: string;
+  read(db: Db, collection: string): Promise<unknown>;
+}
+
+const COLLECTION_RESOURCES: CollectionResource[] = [
+  {
+    kind: 'schema',
+    title: 'Collection Schema',
+    description: `Field types inferred from a sample of up to ${SCHEMA_SAMPLE_SIZE} documents`,
+    tool: 'inferSchema',
+    read: (db, collection) => sampleCollectionSchema(db, collection, SCHEMA_SAMPLE_SIZE),
+  },
+  {
+    kind: 'indexes',
+    title: 'Collection Indexes',
+    description: 'Index definitions of the collection',
+    tool: 'listIndexes',
+    read: async (db, collection) => ({ indexes: await db.collection(collection).listIndexes().toArray() }),
+  },
+  {
+    kind: 'stats',
+    title: 'Collection Statistics',
+    description: 'Document count, sizes and index sizes of the collection',
+    tool: 'getCollectionStats',
+    read: async (db, collection) => {
+      const stats = await db.command({ collStats: collection });
+      return excludeZeroMetrics(filterCollectionStats(stats as Record<string, unknown>, 'summary') as Record<string, unknown>);
+    },
+  },
+];
+
+export function collectionsUri(database: string): string {
+  return `mongodb://${encodeURIComponent(database)}/collections`;
+}
+
+export function collectionResourceUri(database: string, collection: string, kind: CollectionResourceKind): string {
+  return `mongodb://${encodeURIComponent(database)}/${encodeURIComponent(collection)}/${kind}`;
+}
+
+function variable(variables: Variables, name: string): string {
+  const value = variables[name];
+  return decodeURIComponent((Array.isArray(value) ? value[0] : value) ?? '');
+}
+
+function collectionVariables(variables: Variables): { database: string; collection: string } {
+  const collection = variable(variables, 'collection');
+  const validation = validateCollectionName(collection);
+  if (!validation.valid) {
+    throw new Error(validation.error ?? 'invalid collection name');
+  }
+  return { database: variable(variables, 'database'), collection };
+}
+
+export interface ResolvedDatabase {
+  /** Name of the connection serving the database */
+  connection: string;
+  db: Db;
+  /** The connection's policies, checked like those of the tools serving the same data */
+  policies: PolicyRule[];
+}
+
+/**
+ * Finds the connection serving a database: the session's active connection
+ * when it can read the database, otherwise the first connection that can.
+ * Without a database name, the active connection's own database is used.
+ */
+export function resolveDatabase(
+  registry: ConnectionRegistry,
+  session: ConnectionSession,
+  database?: string
+): ResolvedDatabase {
+  const active = registry.get(session.activeConnection);
+  const candidates = active ? [active, ...registry.list()] : registry.list();
+  const name = database ?? candidates[0].dbName;
+
+  const entry = candidates.find((candidate) => validateDatabaseName(name, candidate.dbName, candidate.databases).valid);
+  if (!entry) {
+    const available = [...new Set(registry.list().map((candidate) => candidate.dbName))].join(', ');
+    throw new Error(`Database '${name}' is not available. Configured databases: ${available}`);
+  }
+
+  const diagnosis = entry.connection.getUnavailableDiagnosis();
+  if (diagnosis) {
+    throw new Error(`Database unavailable (${diagnosis.category}): ${diagnosis.message}`);
+  }
+
+  return { connection: entry.name, db: entry.connection.client.db(name), policies: entry.policies ?? [] };
+}
+
+function authorize(tool: string, authInfo?: AuthInfo): void {
+  const result = authorizeToolCall(tool, false, getTokenGrant(authInfo));
+  if (!result.allowed) {
+    throw new Error(result.error ?? 'not authorized');
+  }
+}
+
+/** Refuses a resource read the connection's policies would refuse for `tool` */
+async function enforcePolicies(policies: PolicyRule[], tool: string, collection: string): Promise<void> {
+  const refusal = await checkPolicies(policies, tool, { collection });
+  if (refusal) {
+    throw new Error(refusal);
+  }
+}
+
+async function readJson(uri: URL, read: () => Promise<unknown>) {
+  try {
+    const data = await read();
+    return { contents: [{ uri: uri.href, mimeType: MIME_TYPE, text: JSON.stringify(data, null, 2) }] };
+  } catch (error) {
+    logError('readResource', error, { uri: uri.href });
+    throw new Error(redactString(error instanceof Error ? error.message : String(error)));
+  }
+}
+
+/** One entry per connection's primary database; allowlisted databases are readable but not listed */
+function listedDatabases(registry: ConnectionRegistry): RegisteredConnection[] {
+  const seen = new Set<string>();
+  return registry.list().filter((entry) => !seen.has(entry.dbName) && seen.add(entry.dbName));
+}
+
+async function listCollectionResources(registry: ConnectionRegistry, resource: CollectionResource): Promise<Resource[]> {
+  const resources: Resource[] = [];
+  for (const entry of listedDatabases(registry)) {
+    if (entry.connection.getUnavailableDiagnosis()) {
+      continue;
+    }
+    try {
+      const collections = await entry.connection.client.db(entry.dbName).listCollections({}, { nameOnly: true }).toArray();
+      for (const { name } of collections) {
+        // system.* collections cannot be read through these resources
+        if (!validateCollectionName(name).valid || isReadDenied(entry.policies ?? [], name)) continue;
+        resources.push({
+          uri: collectionResourceUri(entry.dbName, name, resource.kind),
+          name: `${entry.dbName}.${name} ${resource.kind}`,
+          mimeType: MIME_TYPE,
+        });
+      }
+    } catch (error) {
+      logError('listResources', error, { database: entry.dbName });
+    }
+  }
+  return resources;
+}
+
+/**
+ * Exposes collection lists, schemas, indexes and stats as MCP resources so
+ * clients can browse and attach them without tool calls.
+ */
+export function registerDatabaseResources(
+  server: McpServer,
+  registry: ConnectionRegistry,
+  session: ConnectionSession,
+  completer: NameCompleter
+): void {
+  const complete = {
+    database: (value: string) =>
+      listedDatabases(registry)
+        .map((entry) => entry.dbName)
+        .filter((name) => name.startsWith(value)),
+    collection: (value: string, context?: { arguments?: Record<string, string> }) =>
+      completer.complete('collection', value, context?.arguments),
+    indexName: (value: string, context?: { arguments?: Record<string, string> }) =>
+      completer.complete('indexName', value, context?.arguments),
+  };
+
+  server.registerResource(
+    'collections',
+    new ResourceTemplate('mongodb://{database}/collections', {
+      list: async () => ({
+        resources: listedDatabases(registry).map((entry) => ({
+          uri: collectionsUri(entry.dbName),
+          name: `${entry.dbName} collections`,
+          mimeType: MIME_TYPE,
+        })),
+      }),
+      complete,
+    }),
+    { title: 'Collections', description: 'Collections and views in a database', mimeType: MIME_TYPE },
+    (uri, variables, extra) =>
+      readJson(uri, async () => {
+        authorize('listCollections', extra.authInfo);
+        const database = variable(variables, 'database');
+        const { db, policies } = resolveDatabase(registry, session, database);
+        const collections = await db.listCollections({}, { nameOnly: true }).toArray();
+        return {
+          database,
+          collections: collections
+            .filter(({ name }) => !isReadDenied(policies, name))
+            .map(({ name, type }) => ({ name, type })),
+        };
+      })
+  );
+
+  for (const resource of COLLECTION_RESOURCES) {
+    server.registerResource(
+      `collection-${resource.kind}`,
+      new ResourceTemplate(`mongodb://{database}/{collection}/${resource.kind}`, {
+        list: async () => ({ resources: await listCollectionResources(registry, resource) }),
+        complete,
+      }),
+      { title: resource.title, description: resource.description, mimeType: MIME_TYPE },
+      (uri, variables, extra) =>
+        readJson(uri, async () => {
+          authorize(resource.tool, extra.authInfo);
+          const { database, collection } = collectionVariables(variables);
+          const { db, policies } = resolveDatabase(registry, session, database);
+          await enforcePolicies(policies, resource.tool, collection);
+          const data = await resource.read(db, collection);
+          return { database, collection, ...(data as Record<string, unknown>) };
+        })
+    );
+  }
+
+  server.registerResource(
+    'collection-index',
+    new ResourceTemplate('mongodb://{database}/{collection}/indexes/{indexName}', { list: undefined, complete }),
+    { title: 'Index', description: 'Definition of a single index', mimeType: MIME_TYPE },
+    (uri, variables, extra) =>
+      readJson(uri, async () => {
+        authorize('listIndexes', extra.authInfo);
+        const { database, collection } = collectionVariables(variables);
+        const indexName = variable(variables, 'indexName');
+        const { db, policies } = resolveDatabase(registry, session, database);
+        await enforcePolicies(policies, 'listIndexes', collection);
+        const indexes = await db.collection(collection).listIndexes().toArray();
+        const index = indexes.find((candidate) => candidate.name === indexName);
+        if (!index) {
+          throw new Error(`Index '${indexName}' not found on collection '${collection}'`);
+        }
+        return { database, collection, index };
+      })
+  );
+}
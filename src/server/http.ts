@@ -0,0 +1,297 @@
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http';
+import { randomUUID } from 'node:crypto';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import type { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import { logError } from '../utils/logger.js';
+import { findAuthToken } from '../config/auth-tokens.js';
+import { createAuthInfo } from '../utils/tool-authorization.js';
+import type { AuthToken } from '../types.js';
+
+export const MCP_HTTP_PATH = '/mcp';
+
+/** Maximum accepted JSON-RPC request body size */
+export const MAX_HTTP_BODY_BYTES = 4 * 1_048_576;
+
+/** Sessions without a request for this long are closed */
+export const SESSION_IDLE_TIMEOUT_MS = 30 * 60_000;
+
+const IDLE_SWEEP_INTERVAL_MS = 60_000;
+
+const LOOPBACK_HOSTNAMES = new Set(['localhost', '127.0.0.1', '[::1]']);
+
+export interface HttpServerOptions {
+  port: number;
+  host: string;
+  /** When set, every request must carry one of these bearer tokens */
+  authTokens?: AuthToken[];
+  /** Defaults to SESSION_IDLE_TIMEOUT_MS */
+  sessionIdleTimeoutMs?: number;
+}
+
+interface HttpSession {
+  server: McpServer;
+  transport: StreamableHTTPServerTransport;
+  tokenName?: string;
+  lastActivity: number;
+  /** Requests still being answered, including open SSE streams; a session is never idle while one is */
+  openRequests: number;
+}
+
+const sessions = new Map<string, HttpSession>();
+let activeServer: Server | null = null;
+let idleSweep: NodeJS.Timeout | null = null;
+
+class HttpError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+  }
+}
+
+function sendJsonRpcError(res: ServerResponse, status: number, message: string): void {
+  if (res.headersSent) return;
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify({ jsonrpc: '2.0', error: { code: -32000, message }, id: null }));
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > MAX_HTTP_BODY_BYTES) {
+      throw new HttpError(413, `Request body exceeds ${MAX_HTTP_BODY_BYTES} bytes`);
+    }
+    chunks.push(chunk as Buffer);
+  }
+
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+  } catch {
+    throw new HttpError(400, 'Parse error: request body is not valid JSON');
+  }
+}
+
+function authenticate(req: IncomingMessage, tokens: AuthToken[]): AuthInfo {
+  const header = req.headers.authorization;
+  const match = header ? /^Bearer\s+(\S+)$/i.exec(header) : null;
+  if (!match) {
+    throw new HttpError(401, 'Unauthorized: missing bearer token');
+  }
+
+  const entry = findAuthToken(tokens, match[1]);
+  if (!entry) {
+    throw new HttpError(401, 'Unauthorized: invalid bearer token');
+  }
+
+  return createAuthInfo(entry);
+}
+
+function parseHostname(url: string): string | undefined {
+  try {
+    return new URL(url).hostname.toLowerCase();
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Guards against DNS rebinding: a server bound to a loopback address only answers
+ * requests addressed to a loopback name, and a browser Origin must be local or
+ * the host the request was sent to.
+ */
+function checkRequestOrigin(req: IncomingMessage, bindHost: string): void {
+  const hostname = req.headers.host ? parseHostname(`http://${req.headers.host}`) : undefined;
+  const bindHostname = parseHostname(`http://${bindHost.includes(':') ? `[${bindHost}]` : bindHost}`);
+
+  if (bindHostname && LOOPBACK_HOSTNAMES.has(bindHostname) && !(hostname && LOOPBACK_HOSTNAMES.has(hostname))) {
+    throw new HttpError(403, `Forbidden: invalid Host header '${req.headers.host ?? ''}'`);
+  }
+
+  const origin = req.headers.origin;
+  if (origin !== undefined) {
+    const originHostname = parseHostname(origin);
+    if (!originHostname || (!LOOPBACK_HOSTNAMES.has(originHostname) && originHostname !== hostname)) {
+      throw new HttpError(403, `Forbidden: invalid Origin header '${origin}'`);
+    }
+  }
+}
+
+function getSessionId(req: IncomingMessage): string | undefined {
+  const header = req.headers['mcp-session-id'];
+  return Array.isArray(header) ? header[0] : header;
+}
+
+async function openSession(
+  createMcpServer: () => McpServer,
+  tokenName?: string
+): Promise<StreamableHTTPServerTransport> {
+  const server = createMcpServer();
+  const transport = new StreamableHTTPServerTransport({
+    sessionIdGenerator: () => randomUUID(),
+    onsessioninitialized: (sessionId) => {
+      sessions.set(sessionId, { server, transport, tokenName, lastActivity: Date.now(), openRequests: 0 });
+    },
+  });
+
+  // Registered before connect() so the server's own close handling is chained after ours
+  transport.onclose = () => {
+    if (transport.sessionId) {
+      sessions.delete(transport.sessionId);
+    }
+  };
+
+  await server.connect(transport);
+  return transport;
+}
+
+function trackRequest(session: HttpSession, res: ServerResponse): void {
+  session.openRequests++;
+  session.lastActivity = Date.now();
+  res.once('close', () => {
+    session.openRequests--;
+    session.lastActivity = Date.now();
+  });
+}
+
+function closeIdleSessions(idleTimeoutMs: number): void {
+  const now = Date.now();
+  for (const [sessionId, session] of sessions) {
+    if (session.openRequests === 0 && now - session.lastActivity >= idleTimeoutMs) {
+      sessions.delete(sessionId);
+      session.transport.close().catch((error) => logError('httpTransport', error));
+    }
+  }
+}
+
+async function handleMcpRequest(
+  req: IncomingMessage & { auth?: AuthInfo },
+  res: ServerResponse,
+  createMcpServer: () => McpServer,
+  options: HttpServerOptions
+): Promise<void> {
+  checkRequestOrigin(req, options.host);
+
+  if (options.authTokens) {
+    req.auth = authenticate(req, options.authTokens);
+  }
+
+  const sessionId = getSessionId(req);
+  const session = sessionId ? sessions.get(sessionId) : undefined;
+
+  if (sessionId && !session) {
+    sendJsonRpcError(res, 404, `Session '${sessionId}' not found. Start a new session with an initialize request.`);
+    return;
+  }
+
+  if (session && session.tokenName !== req.auth?.clientId) {
+    throw new HttpError(403, 'Forbidden: session was opened with a different token');
+  }
+
+  if (session) {
+    trackRequest(session, res);
+  }
+
+  if (req.method === 'POST') {
+    const body = await readJsonBody(req);
+
+    if (session) {
+      await session.transport.handleRequest(req, res, body);
+      return;
+    }
+
+    if (!isInitializeRequest(body)) {
+      sendJsonRpcError(res, 400, 'Bad Request: no session ID provided and request is not an initialize request');
+      return;
+    }
+
+    const transport = await openSession(createMcpServer, req.auth?.clientId);
+    await transport.handleRequest(req, res, body);
+    return;
+  }
+
+  if (req.method === 'GET' || req.method === 'DELETE') {
+    if (!session) {
+      sendJsonRpcError(res, 400, 'Bad Request: Mcp-Session-Id header is required');
+      return;
+    }
+    await session.transport.handleRequest(req, res);
+    return;
+  }
+
+  res.writeHead(405, { Allow: 'GET, POST, DELETE' }).end();
+}
+
+/**
+ * Serves MCP over the Streamable HTTP transport. Every session gets its own
+ * McpServer instance (built by `createMcpServer`) so per-session state such as
+ * negotiated capabilities never leaks between clients. Sessions idle for
+ * longer than `sessionIdleTimeoutMs` are closed and forgotten.
+ */
+export async function startHttpServer(
+  createMcpServer: () => McpServer,
+  options: HttpServerOptions
+): Promise<Server> {
+  const httpServer = createServer((req, res) => {
+    const { pathname } = new URL(req.url ?? '/', 'http://localhost');
+    if (pathname !== MCP_HTTP_PATH) {
+      res.writeHead(404).end();
+      return;
+    }
+
+    handleMcpRequest(req, res, createMcpServer, options).catch((error) => {
+      if (error instanceof HttpError) {
+        if (error.status === 401 || error.status === 403) {
+          logError('httpTransport', error);
+        }
+        if (error.status === 401) {
+          res.setHeader('WWW-Authenticate', 'Bearer realm="mongo-scout-mcp"');
+        }
+        sendJsonRpcError(res, error.status, error.message);
+        return;
+      }
+      logError('httpTransport', error);
+      sendJsonRpcError(res, 500, 'Internal server error');
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(options.port, options.host, () => {
+      httpServer.off('error', reject);
+      resolve();
+    });
+  });
+
+  activeServer = httpServer;
+
+  const idleTimeoutMs = options.sessionIdleTimeoutMs ?? SESSION_IDLE_TIMEOUT_MS;
+  idleSweep = setInterval(() => closeIdleSessions(idleTimeoutMs), Math.min(idleTimeoutMs, IDLE_SWEEP_INTERVAL_MS));
+  idleSweep.unref();
+
+  return httpServer;
+}
+
+export function getActiveSessionCount(): number {
+  return sessions.size;
+}
+
+export async function stopHttpServer(): Promise<void> {
+  if (idleSweep) {
+    clearInterval(idleSweep);
+    idleSweep = null;
+  }
+
+  const closing = [...sessions.values()].map(({ transport }) => transport.close().catch(() => undefined));
+  await Promise.all(closing);
+  sessions.clear();
+
+  if (activeServer) {
+    const server = activeServer;
+    activeServer = null;
+    server.closeAllConnections();
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  }
+}
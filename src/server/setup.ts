@@ -1,18 +1,98 @@
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
-import type { MongoClient } from 'mongodb';
-import { registerAllTools } from '../tools/index.js';
+import { getToolCatalog, registerMultiConnectionTools } from '../tools/multi-connection.js';
+import { registerDatabaseResources, resolveDatabase } from '../resources/database.js';
+import { createNameCompleter } from '../completions/names.js';
+import { registerInvestigationPrompts } from '../prompts/investigations.js';
+import { startHttpServer } from './http.js';
+import { loadAuthTokens } from '../config/auth-tokens.js';
+import type { AppConfig, ToolFilter } from '../types.js';
+import type { ConnectionRegistry } from '../utils/connection-registry.js';
+import { auditCredentials, auditReadOnlyCredentials } from '../utils/credential-audit.js';
 
-export async function setupServer(client: MongoClient, dbName: string, mode: string): Promise<void> {
-  const db = client.db(dbName);
+/** The server name with the connections' environment labels, e.g. "MongoDB MCP (read-only, production)" */
+export function getServerName(registry: ConnectionRegistry, mode: string): string {
+  const environments = new Set(registry.list().flatMap((entry) => (entry.environment ? [entry.environment] : [])));
+  return `MongoDB MCP (${[mode, ...environments].join(', ')})`;
+}
+
+/**
+ * Sends the audit warning of a read-only connection that comes up after the
+ * session started, when it is too late for the instructions, as a log message.
+ */
+function notifyCredentialWarnings(server: McpServer, registry: ConnectionRegistry, announced: Set<string>): void {
+  const unsubscribers = registry.list().map((entry) =>
+    entry.connection.onPrivilegesChanged(() => {
+      const warning = auditReadOnlyCredentials(entry);
+      if (!warning || announced.has(warning)) {
+        return;
+      }
+      announced.add(warning);
+      server.sendLoggingMessage({ level: 'warning', logger: 'credential-audit', data: `WARNING: ${warning}` }).catch(() => undefined);
+    })
+  );
+
+  const onclose = server.server.onclose;
+  server.server.onclose = () => {
+    onclose?.();
+    unsubscribers.forEach((unsubscribe) => unsubscribe());
+  };
+}
+
+export function createMcpServer(registry: ConnectionRegistry, mode: string, toolFilter?: ToolFilter): McpServer {
+  // Sessions opened after the first connection learn about write-capable read-only credentials
+  const warnings = auditCredentials(registry);
+  const server = new McpServer(
+    {
+      name: getServerName(registry, mode),
+      version: '1.0.0'
+    },
+    {
+      capabilities: { logging: {} },
+      ...(warnings.length > 0 && { instructions: warnings.map((warning) => `WARNING: ${warning}`).join('\n') }),
+    }
+  );
 
-  const server = new McpServer({
-    name: `MongoDB MCP (${mode})`,
-    version: '1.0.0'
+  const completer = createNameCompleter((database) => {
+    const { connection, db, policies } = resolveDatabase(registry, session, database);
+    return { key: `${connection}/${db.databaseName}`, db, policies };
+  });
+  const session = registerMultiConnectionTools(server, registry, toolFilter, () => {
+    completer.clear();
+    server.sendResourceListChanged();
   });
+  registerDatabaseResources(server, registry, session, completer);
+  notifyCredentialWarnings(server, registry, new Set(warnings));
+
+  const exposedTools = new Set(getToolCatalog(registry, toolFilter).map((definition) => definition.name));
+  registerInvestigationPrompts(server, exposedTools, completer);
+
+  return server;
+}
+
+export async function setupServer(registry: ConnectionRegistry, config: AppConfig): Promise<void> {
+  const { mode } = config;
+
+  if (config.transport === 'http') {
+    const authTokens = config.authTokensFile ? loadAuthTokens(config.authTokensFile) : undefined;
+    if (!authTokens) {
+      console.error('Warning: HTTP transport is running without authentication. Use --auth-tokens <file> to require bearer tokens.');
+    }
+
+    await startHttpServer(() => createMcpServer(registry, mode, config.toolFilter), {
+      port: config.port,
+      host: config.host,
+      authTokens,
+    });
+    console.error(`${getServerName(registry, mode)} listening on http://${config.host}:${config.port}/mcp`);
+    return;
+  }
 
-  registerAllTools(server, client, db, dbName, mode);
+  if (config.authTokensFile) {
+    console.error('Warning: --auth-tokens only applies to the HTTP transport and is ignored for stdio.');
+  }
 
+  const server = createMcpServer(registry, mode, config.toolFilter);
   const transport = new StdioServerTransport();
   await server.connect(transport);
 }
@@ -1,31 +1,53 @@
 import type { Db } from 'mongodb';
-import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
-import { logToolUsage, logError } from '../utils/logger.js';
-import { preprocessQuery } from '../utils/query-preprocessor.js';
+import { logError } from '../utils/logger.js';
+import { combineFilters, preprocessQuery } from '../utils/query-preprocessor.js';
 import { convertObjectIdsToExtendedJson } from '../utils/sanitize.js';
 import { validatePipeline } from '../utils/pipeline-validator.js';
-import { validateBulkOperations } from '../utils/bulk-write-validator.js';
+import { MULTI_DOC_OPERATIONS, validateBulkOperations } from '../utils/bulk-write-validator.js';
 import { MAX_QUERY_LIMIT } from '../utils/query-limits.js';
+import { resolveEffectiveMode } from '../utils/tool-authorization.js';
+import { tagOperation } from '../utils/cancellation.js';
+import { checkApprovalToken, issueApprovalToken } from '../utils/write-approval.js';
+import { scopeBulkOperations, scopePipeline } from '../utils/tenant-scope.js';
+import { maskDocuments } from '../utils/pii-masking.js';
+import type { ToolRegistry } from './registry.js';
 
-export function registerAdvancedOperations(server: McpServer, db: Db, mode: string): void {
-  const registerTool = (toolName: string, description: string, schema: any, handler: (args?: any) => any, writeOperation = false) => {
-    if (writeOperation && mode === 'read-only') {
-      return;
+/**
+ * The documents the updateMany and deleteMany operations of a bulk write
+ * match. Approval tokens compare it between preview and execution; inserts and
+ * single-document operations do not depend on how many documents match.
+ */
+async function countBulkMatches(db: Db, collection: string, operations: Record<string, any>[]): Promise<number> {
+  let matched = 0;
+  for (const operation of operations) {
+    const [type] = Object.keys(operation);
+    if (MULTI_DOC_OPERATIONS.includes(type)) {
+      matched += await db.collection(collection).countDocuments(preprocessQuery(operation[type].filter), tagOperation());
     }
-    server.tool(toolName, description, schema, handler);
-  };
+  }
+  return matched;
+}
 
+export function registerAdvancedOperations(
+  registry: ToolRegistry,
+  db: Db,
+  mode: string,
+  connectionName = db.databaseName
+): void {
   // Preview bulk write operations
-  registerTool(
-    'previewBulkWrite',
-    'Preview what a bulkWrite operation would do without executing it',
-    {
+  registry.register({
+    name: 'previewBulkWrite',
+    title: 'Preview Bulk Write',
+    category: 'preview',
+    access: 'read',
+    cost: 'medium',
+    description: 'Preview what a bulkWrite operation would do without executing it. Returns the approvalToken bulkWrite needs when write approval is required.',
+    inputSchema: {
       collection: z.string(),
       operations: z.array(z.record(z.any())),
     },
-    async (args) => {
-      logToolUsage('previewBulkWrite', args);
+    handler: async (args) => {
       const { collection, operations } = args;
       try {
         const validation = validateBulkOperations(operations);
@@ -65,6 +87,7 @@ export function registerAdvancedOperations(server: McpServer, db: Db, mode: stri
         }
 
         const totalOps = operations.length;
+        const matchedDocuments = await countBulkMatches(db, collection, operations);
         let warning: string | undefined;
         if (totalOps >= 1000) {
           warning = '⚠⚠ LARGE BULK OPERATION: 1000+ operations';
@@ -82,7 +105,12 @@ export function registerAdvancedOperations(server: McpServer, db: Db, mode: stri
                 totalOperations: totalOps,
                 breakdown: operationsSummary,
                 sampleOperations: samples,
-                message: warning
+                matchedDocuments,
+                message: warning,
+                ...issueApprovalToken(
+                  { operation: 'bulkWrite', connection: connectionName, database: db.databaseName, collection, operations },
+                  matchedDocuments
+                ),
               }), null, 2),
             },
           ],
@@ -97,25 +125,30 @@ export function registerAdvancedOperations(server: McpServer, db: Db, mode: stri
               text: `Error previewing bulk write: ${errorMessage}`,
             },
           ],
+          isError: true,
         };
       }
-    }
-  );
+    },
+  });
 
-  registerTool(
-    'bulkWrite',
-    'Execute multiple write operations in a single call. Supports dryRun mode for preview.',
-    {
+  registry.register({
+    name: 'bulkWrite',
+    title: 'Bulk Write',
+    category: 'write',
+    access: 'destructive',
+    cost: 'high',
+    description: 'Execute multiple write operations in a single call. Supports dryRun mode for preview. When write approval is required, pass the approvalToken from previewBulkWrite.',
+    inputSchema: {
       collection: z.string(),
       operations: z.array(z.record(z.any())),
       options: z.object({
         ordered: z.boolean().optional(),
         dryRun: z.boolean().optional(),
       }).optional(),
+      approvalToken: z.string().optional(),
     },
-    async (args) => {
-      logToolUsage('bulkWrite', args);
-      const { collection, operations, options = {} } = args;
+    handler: async (args) => {
+      const { collection, operations, options = {}, approvalToken } = args;
       try {
         const validation = validateBulkOperations(operations);
         if (!validation.valid) {
@@ -161,8 +194,20 @@ export function registerAdvancedOperations(server: McpServer, db: Db, mode: stri
           };
         }
 
+        const refusal = checkApprovalToken(
+          approvalToken,
+          { operation: 'bulkWrite', connection: connectionName, database: db.databaseName, collection, operations },
+          await countBulkMatches(db, collection, operations)
+        );
+        if (refusal) {
+          return {
+            content: [{ type: 'text', text: `⚠ Operation blocked: ${refusal}` }],
+            isError: true,
+          };
+        }
+
         // Actual execution
-        const result = await db.collection(collection).bulkWrite(operations, {
+        const result = await db.collection(collection).bulkWrite(scopeBulkOperations(operations), {
           ordered: options.ordered
         });
 
@@ -194,16 +239,20 @@ export function registerAdvancedOperations(server: McpServer, db: Db, mode: stri
               text: `Error executing bulk write: ${errorMessage}`,
             },
           ],
+          isError: true,
         };
       }
     },
-    true
-  );
+  });
 
-  registerTool(
-    'explainQuery',
-    'Get query execution plan for optimization',
-    {
+  registry.register({
+    name: 'explainQuery',
+    title: 'Explain Query Plan',
+    category: 'query',
+    access: 'read',
+    cost: 'medium',
+    description: 'Get query execution plan for optimization',
+    inputSchema: {
       collection: z.string(),
       operation: z.enum(['find', 'aggregate', 'update', 'delete']),
       query: z.record(z.any()),
@@ -211,11 +260,10 @@ export function registerAdvancedOperations(server: McpServer, db: Db, mode: stri
       pipeline: z.array(z.record(z.any())).optional(),
       verbosity: z.enum(['queryPlanner', 'executionStats', 'allPlansExecution']).optional(),
     },
-    async (args) => {
-      logToolUsage('explainQuery', args);
+    handler: async (args, extra) => {
       const { collection, operation, query, update, pipeline, verbosity = 'queryPlanner' } = args;
 
-      if (mode === 'read-only' && (operation === 'update' || operation === 'delete')) {
+      if (resolveEffectiveMode(mode, extra?.authInfo) === 'read-only' && (operation === 'update' || operation === 'delete')) {
         return {
           content: [{ type: 'text', text: `Explain for ${operation} operations is not allowed in read-only mode.` }],
         };
@@ -227,7 +275,7 @@ export function registerAdvancedOperations(server: McpServer, db: Db, mode: stri
 
         switch (operation) {
           case 'find':
-            explainResult = await db.collection(collection).find(processedQuery).explain(verbosity);
+            explainResult = await db.collection(collection).find(processedQuery, tagOperation()).explain(verbosity);
             break;
           case 'aggregate':
             if (!pipeline) {
@@ -241,7 +289,7 @@ export function registerAdvancedOperations(server: McpServer, db: Db, mode: stri
                 };
               }
             }
-            explainResult = await db.collection(collection).aggregate(pipeline).explain(verbosity);
+            explainResult = await db.collection(collection).aggregate(scopePipeline(pipeline), tagOperation()).explain(verbosity);
             break;
           case 'update':
             if (!update) {
@@ -288,33 +336,34 @@ export function registerAdvancedOperations(server: McpServer, db: Db, mode: stri
               text: `Error explaining query: ${errorMessage}`,
             },
           ],
+          isError: true,
         };
       }
-    }
-  );
+    },
+  });
 
-  registerTool(
-    'textSearch',
-    'Perform full-text search on indexed fields',
-    {
+  registry.register({
+    name: 'textSearch',
+    title: 'Full-Text Search',
+    category: 'query',
+    access: 'read',
+    cost: 'medium',
+    description: 'Perform full-text search on indexed fields',
+    inputSchema: {
       collection: z.string(),
       searchText: z.string(),
       filter: z.record(z.any()).optional(),
       limit: z.number().positive().max(MAX_QUERY_LIMIT).optional(),
       projection: z.record(z.any()).optional(),
     },
-    async (args) => {
-      logToolUsage('textSearch', args);
+    handler: async (args) => {
       const { collection, searchText, filter = {}, limit = 10, projection = {} } = args;
       try {
         const processedFilter = preprocessQuery(filter);
-        const searchQuery = {
-          $text: { $search: searchText },
-          ...processedFilter
-        };
+        const searchQuery = combineFilters({ $text: { $search: searchText } }, processedFilter);
 
         const results = await db.collection(collection)
-          .find(searchQuery)
+          .find(searchQuery, tagOperation())
           .project({ ...projection, score: { $meta: 'textScore' } })
           .sort({ score: { $meta: 'textScore' } })
           .limit(limit)
@@ -324,7 +373,7 @@ export function registerAdvancedOperations(server: McpServer, db: Db, mode: stri
           content: [
             {
               type: 'text',
-              text: JSON.stringify(convertObjectIdsToExtendedJson(results), null, 2),
+              text: JSON.stringify(convertObjectIdsToExtendedJson(maskDocuments(results)), null, 2),
             },
           ],
         };
@@ -338,8 +387,9 @@ export function registerAdvancedOperations(server: McpServer, db: Db, mode: stri
               text: `Error performing text search: ${errorMessage}`,
             },
           ],
+          isError: true,
         };
       }
-    }
-  );
+    },
+  });
 }
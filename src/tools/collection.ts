@@ -1,45 +1,54 @@
 import type { Db } from 'mongodb';
-import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
-import { logToolUsage, logError } from '../utils/logger.js';
+import { logError } from '../utils/logger.js';
 import { filterCollectionStats, excludeZeroMetrics } from '../utils/response-filter.js';
+import { tagOperation } from '../utils/cancellation.js';
+import { CONFIRMATION_SAMPLE_SIZE } from '../utils/elicitation.js';
+import { maskDocuments } from '../utils/pii-masking.js';
 import type { VerbosityLevel } from '../types.js';
+import { structuredResult } from './registry.js';
+import type { ToolRegistry } from './registry.js';
 
-export function registerCollectionTools(server: McpServer, db: Db, mode: string): void {
-  const registerTool = (toolName: string, description: string, schema: any, handler: (args?: any) => any, writeOperation = false) => {
-    if (writeOperation && mode === 'read-only') {
-      return;
-    }
-    server.tool(toolName, description, schema, handler);
-  };
-
-  registerTool('listCollections', 'List all collections in the database', {}, async () => {
-    logToolUsage('listCollections', {});
-    try {
-      const collections = await db.collections();
-      return {
-        content: [
-          {
-            type: 'text',
-            text: collections.map((c) => c.collectionName).join('\n'),
-          },
-        ],
-      };
-    } catch (error) {
-      logError('listCollections', error);
-      throw error;
-    }
+export function registerCollectionTools(registry: ToolRegistry, db: Db): void {
+  registry.register({
+    name: 'listCollections',
+    title: 'List Collections',
+    category: 'explore',
+    access: 'read',
+    cost: 'low',
+    description: 'List all collections in the database',
+    inputSchema: {},
+    handler: async () => {
+      try {
+        const collections = await db.collections();
+        return {
+          content: [
+            {
+              type: 'text',
+              text: collections.map((c) => c.collectionName).join('\n'),
+            },
+          ],
+        };
+      } catch (error) {
+        logError('listCollections', error);
+        throw error;
+      }
+    },
   });
 
-  registerTool(
-    'createCollection',
-    'Create a new collection in the database',
-    {
+  registry.register({
+    name: 'createCollection',
+    title: 'Create Collection',
+    category: 'write',
+    access: 'write',
+    cost: 'low',
+    annotations: { idempotentHint: true },
+    description: 'Create a new collection in the database',
+    inputSchema: {
       name: z.string(),
       options: z.record(z.any()).optional(),
     },
-    async (args) => {
-      logToolUsage('createCollection', args);
+    handler: async (args) => {
       const { name, options = {} } = args;
       try {
         await db.createCollection(name, options);
@@ -61,22 +70,40 @@ export function registerCollectionTools(server: McpServer, db: Db, mode: string)
               text: `Error creating collection: ${errorMessage}`,
             },
           ],
+          isError: true,
         };
       }
     },
-    true
-  );
+  });
 
-  registerTool(
-    'dropCollection',
-    'Drop a collection from the database. DESTRUCTIVE: Requires confirm: true to execute.',
-    {
+  registry.register({
+    name: 'dropCollection',
+    title: 'Drop Collection',
+    category: 'write',
+    access: 'destructive',
+    cost: 'low',
+    annotations: { idempotentHint: true },
+    description: 'Drop a collection from the database. DESTRUCTIVE: Requires confirm: true to execute, or the user\'s confirmation when the client supports elicitation.',
+    inputSchema: {
       name: z.string(),
       confirm: z.boolean().optional(),
       dryRun: z.boolean().optional(),
     },
-    async (args) => {
-      logToolUsage('dropCollection', args);
+    confirmation: {
+      preview: async ({ name, dryRun }) => {
+        if (dryRun) return undefined;
+        const collection = db.collection(name);
+        return {
+          action: `Drop collection '${name}'`,
+          database: db.databaseName,
+          collection: name,
+          matchedCount: await collection.countDocuments({}, tagOperation()),
+          sample: maskDocuments(await collection.find({}, tagOperation()).limit(CONFIRMATION_SAMPLE_SIZE).toArray()),
+        };
+      },
+      confirmArgs: (args) => ({ ...args, confirm: true }),
+    },
+    handler: async (args) => {
       const { name, confirm = false, dryRun = false } = args;
       try {
         // Get collection stats for preview
@@ -138,22 +165,35 @@ export function registerCollectionTools(server: McpServer, db: Db, mode: string)
               text: `Error dropping collection: ${errorMessage}`,
             },
           ],
+          isError: true,
         };
       }
     },
-    true
-  );
+  });
 
-  registerTool(
-    'getCollectionStats',
-    'Get statistics for a collection. Use verbosity to control detail level (summary=most efficient, full=includes WiredTiger internals).',
-    {
+  registry.register({
+    name: 'getCollectionStats',
+    title: 'Collection Statistics',
+    category: 'explore',
+    access: 'read',
+    cost: 'low',
+    description: 'Get statistics for a collection. Use verbosity to control detail level (summary=most efficient, full=includes WiredTiger internals).',
+    inputSchema: {
       collection: z.string(),
       verbosity: z.enum(['summary', 'standard', 'full']).optional(),
       excludeZeroMetrics: z.boolean().optional(),
     },
-    async (args) => {
-      logToolUsage('getCollectionStats', args);
+    outputSchema: {
+      ns: z.string().optional(),
+      count: z.number().optional(),
+      size: z.number().optional(),
+      avgObjSize: z.number().optional(),
+      storageSize: z.number().optional(),
+      nindexes: z.number().optional(),
+      totalIndexSize: z.number().optional(),
+      indexSizes: z.record(z.number()).optional(),
+    },
+    handler: async (args) => {
       const { collection, verbosity = 'summary', excludeZeroMetrics: excludeZero = true } = args;
       try {
         const stats = await db.command({ collStats: collection });
@@ -166,14 +206,7 @@ export function registerCollectionTools(server: McpServer, db: Db, mode: string)
           filtered = excludeZeroMetrics(filtered as Record<string, unknown>);
         }
 
-        return {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify(filtered, null, 2),
-            },
-          ],
-        };
+        return structuredResult(filtered);
       } catch (error) {
         logError('getCollectionStats', error, args);
         const errorMessage = error instanceof Error ? error.message : String(error);
@@ -184,8 +217,9 @@ export function registerCollectionTools(server: McpServer, db: Db, mode: string)
               text: `Error getting collection stats: ${errorMessage}`,
             },
           ],
+          isError: true,
         };
       }
-    }
-  );
+    },
+  });
 }
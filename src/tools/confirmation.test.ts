@@ -0,0 +1,121 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { Db, MongoClient } from 'mongodb';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { ElicitRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import type { ElicitResult } from '@modelcontextprotocol/sdk/types.js';
+import { registerAllTools } from './index.js';
+
+vi.mock('../utils/logger.js', () => ({ logToolUsage: vi.fn(), logError: vi.fn() }));
+
+const documents = [{ name: 'Ada' }, { name: 'Grace' }];
+
+function createMockDb() {
+  const cursor = {
+    limit: vi.fn().mockReturnThis(),
+    toArray: vi.fn().mockResolvedValue(documents),
+  };
+  const collection = {
+    find: vi.fn().mockReturnValue(cursor),
+    countDocuments: vi.fn().mockResolvedValue(documents.length),
+    drop: vi.fn().mockResolvedValue(true),
+    deleteMany: vi.fn().mockResolvedValue({ deletedCount: documents.length }),
+  };
+  const db = {
+    databaseName: 'app',
+    collection: vi.fn().mockReturnValue(collection),
+    command: vi.fn().mockResolvedValue({ count: documents.length, size: 100 }),
+  } as unknown as Db;
+  return { db, collection };
+}
+
+/** answer is undefined for a client without the elicitation capability */
+async function setup(answer?: ElicitResult) {
+  const { db, collection } = createMockDb();
+  const server = new McpServer({ name: 'test', version: '1.0.0' });
+  registerAllTools(server, {} as MongoClient, db, 'app', 'read-write');
+
+  const client = new Client(
+    { name: 'test-client', version: '1.0.0' },
+    { capabilities: answer ? { elicitation: {} } : {} }
+  );
+  const elicit = vi.fn(async () => answer!);
+  if (answer) {
+    client.setRequestHandler(ElicitRequestSchema, elicit);
+  }
+
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+
+  const call = async (name: string, args: Record<string, unknown>) => {
+    const result = await client.callTool({ name, arguments: args });
+    return (result.content as Array<{ text: string }>)[0].text;
+  };
+  const message = () => (elicit.mock.calls[0] as unknown as [{ params: { message: string } }])[0].params.message;
+  return { collection, call, elicit, message };
+}
+
+describe('elicitation confirmation of destructive tools', () => {
+  it('drops a collection once the user confirms, without the confirm flag', async () => {
+    const { collection, call, elicit, message } = await setup({ action: 'accept', content: { confirm: true } });
+
+    const text = await call('dropCollection', { name: 'users' });
+
+    expect(elicit).toHaveBeenCalledTimes(1);
+    expect(message()).toContain("Drop collection 'users'?");
+    expect(message()).toContain('Collection: app.users');
+    expect(message()).toContain('Matched documents: 2');
+    expect(message()).toContain('{"name":"Ada"}');
+    expect(collection.drop).toHaveBeenCalled();
+    expect(text).toContain("Collection 'users' dropped successfully");
+  });
+
+  it('asks the user even when the model set the confirm flag', async () => {
+    const { collection, call, elicit } = await setup({ action: 'decline' });
+
+    const text = await call('dropCollection', { name: 'users', confirm: true });
+
+    expect(elicit).toHaveBeenCalledTimes(1);
+    expect(collection.drop).not.toHaveBeenCalled();
+    expect(text).toBe("Operation cancelled: the user did not confirm dropCollection on 'users'. Nothing was changed.");
+  });
+
+  it('does not proceed when the user submits the form without ticking the confirmation', async () => {
+    const { collection, call } = await setup({ action: 'accept', content: { confirm: false } });
+
+    await call('deleteMany', { collection: 'users', filter: { name: 'Ada' } });
+
+    expect(collection.deleteMany).not.toHaveBeenCalled();
+  });
+
+  it('deletes with an empty filter once the user confirms, showing the filter', async () => {
+    const { collection, call, message } = await setup({ action: 'accept', content: { confirm: true } });
+
+    const text = await call('deleteMany', { collection: 'users', filter: {} });
+
+    expect(message()).toContain("Delete 2 document(s) from 'users'?");
+    expect(message()).toContain('Filter: {}');
+    expect(collection.deleteMany).toHaveBeenCalledWith({});
+    expect(text).toContain('2 document(s) deleted.');
+  });
+
+  it('skips the prompt for dry runs', async () => {
+    const { call, elicit } = await setup({ action: 'accept', content: { confirm: true } });
+
+    await call('dropCollection', { name: 'users', dryRun: true });
+    await call('deleteMany', { collection: 'users', filter: { name: 'Ada' }, options: { dryRun: true } });
+
+    expect(elicit).not.toHaveBeenCalled();
+  });
+
+  it('falls back to the confirmation flags when the client cannot elicit', async () => {
+    const { collection, call } = await setup();
+
+    expect(await call('dropCollection', { name: 'users' })).toContain('requires explicit confirmation');
+    expect(collection.drop).not.toHaveBeenCalled();
+
+    await call('dropCollection', { name: 'users', confirm: true });
+    expect(collection.drop).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,102 @@
+import { z } from 'zod';
+import type { ConnectionManager } from '../utils/connection-manager.js';
+import type { ConnectionRegistry } from '../utils/connection-registry.js';
+import type { ToolRegistry } from './registry.js';
+
+/** Per-session connection selection; each MCP session switches independently */
+export interface ConnectionSession {
+  activeConnection: string;
+}
+
+export function registerConnectionTools(registry: ToolRegistry, connection: ConnectionManager): void {
+  registry.register({
+    name: 'getConnectionHealth',
+    title: 'Connection Health',
+    category: 'connection',
+    access: 'read',
+    cost: 'low',
+    description: 'Report the MongoDB connection state, the last connection error and how many reconnect attempts were made',
+    inputSchema: {},
+    handler: async () => {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(connection.getHealth(), null, 2),
+          },
+        ],
+      };
+    },
+  });
+}
+
+export function registerConnectionSwitchingTools(
+  registry: ToolRegistry,
+  connections: ConnectionRegistry,
+  session: ConnectionSession
+): void {
+  registry.register({
+    name: 'listConnections',
+    title: 'List Connections',
+    category: 'connection',
+    access: 'read',
+    cost: 'low',
+    description: 'List the named MongoDB connections this server can use, with their database, mode and state',
+    inputSchema: {},
+    handler: async () => {
+      const list = connections.list().map((entry) => ({
+        name: entry.name,
+        database: entry.dbName,
+        mode: entry.mode,
+        state: entry.connection.getHealth().state,
+        active: entry.name === session.activeConnection,
+      }));
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(list, null, 2),
+          },
+        ],
+      };
+    },
+  });
+
+  registry.register({
+    name: 'useConnection',
+    title: 'Switch Connection',
+    category: 'connection',
+    access: 'read',
+    cost: 'low',
+    description: 'Switch the active connection for this session. Tools can also target a connection per call with their connection argument.',
+    inputSchema: {
+      name: z.string().describe('Connection name from listConnections'),
+    },
+    handler: async (args) => {
+      const entry = connections.get(args.name);
+      if (!entry) {
+        const available = connections.list().map((candidate) => candidate.name).join(', ');
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error: Unknown connection '${args.name}'. Available connections: ${available}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+
+      session.activeConnection = entry.name;
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Active connection is now '${entry.name}' (database '${entry.dbName}', ${entry.mode} mode).`,
+          },
+        ],
+      };
+    },
+  });
+}
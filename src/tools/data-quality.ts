@@ -1,17 +1,23 @@
+import { ObjectId } from 'mongodb';
 import type { AggregateOptions, Collection, Db, Document } from 'mongodb';
-import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
-import { logToolUsage, logError } from '../utils/logger.js';
-import { preprocessQuery } from '../utils/query-preprocessor.js';
+import { logError } from '../utils/logger.js';
+import { combineFilters, preprocessQuery, scopeToTenant } from '../utils/query-preprocessor.js';
 import { convertObjectIdsToExtendedJson } from '../utils/sanitize.js';
 import { assertNoDangerousOperators } from '../utils/operator-validator.js';
 import { validateCollectionName, validateFieldName } from '../utils/name-validator.js';
 import { MAX_QUERY_LIMIT, MAX_EXPORT_LIMIT, MAX_SAMPLE_SIZE, capResultSize } from '../utils/query-limits.js';
 import { sanitizeAggregateOptions } from '../utils/aggregate-options-sanitizer.js';
+import { createProgressReporter, readWithProgress } from '../utils/progress.js';
+import { tagOperation } from '../utils/cancellation.js';
+import { scopePipeline } from '../utils/tenant-scope.js';
+import { maskDocument, maskDocuments, maskFieldValue } from '../utils/pii-masking.js';
+import { structuredResult } from './registry.js';
+import type { ToolRegistry } from './registry.js';
 
 async function safeAggregate(collection: Collection, pipeline: Document[], options?: AggregateOptions): Promise<Document[]> {
   const sanitized = options ? sanitizeAggregateOptions(options as Record<string, unknown>) as AggregateOptions : undefined;
-  const cursor = collection.aggregate(pipeline, sanitized);
+  const cursor = collection.aggregate(scopePipeline(pipeline), tagOperation(sanitized));
   try {
     return await cursor.toArray();
   } finally {
@@ -23,18 +29,15 @@ async function safeAggregate(collection: Collection, pipeline: Document[], optio
   }
 }
 
-export function registerDataQualityTools(server: McpServer, db: Db, mode: string): void {
-  const registerTool = (toolName: string, description: string, schema: any, handler: (args?: any) => any, writeOperation = false) => {
-    if (writeOperation && mode === 'read-only') {
-      return;
-    }
-    server.tool(toolName, description, schema, handler);
-  };
-
-  registerTool(
-    'findDuplicates',
-    'Find duplicate documents based on one or more fields. Useful for data cleanup before adding unique constraints.',
-    {
+export function registerDataQualityTools(registry: ToolRegistry, db: Db): void {
+  registry.register({
+    name: 'findDuplicates',
+    title: 'Find Duplicate Documents',
+    category: 'quality',
+    access: 'read',
+    cost: 'high',
+    description: 'Find duplicate documents based on one or more fields. Useful for data cleanup before adding unique constraints.',
+    inputSchema: {
       collection: z.string(),
       fields: z.array(z.string()),
       options: z.object({
@@ -44,8 +47,22 @@ export function registerDataQualityTools(server: McpServer, db: Db, mode: string
         includeDocuments: z.boolean().optional(),
       }).optional(),
     },
-    async (args) => {
-      logToolUsage('findDuplicates', args);
+    outputSchema: {
+      collection: z.string(),
+      fieldsCombination: z.array(z.string()),
+      totalDuplicateGroups: z.number(),
+      affectedDocuments: z.number(),
+      statistics: z.object({
+        totalDocuments: z.number(),
+        uniqueDocuments: z.number(),
+        duplicateDocuments: z.number(),
+        duplicatePercentage: z.number(),
+      }),
+      duplicateGroups: z.array(z.record(z.any())),
+      warning: z.string().optional(),
+      recommendations: z.array(z.string()),
+    },
+    handler: async (args) => {
       const { collection, fields, options = {} } = args;
       const {
         limit = 100,
@@ -119,7 +136,7 @@ export function registerDataQualityTools(server: McpServer, db: Db, mode: string
         const duplicateGroups = await safeAggregate(collectionObj, pipeline, { allowDiskUse: true });
 
         // Calculate statistics
-        const totalDocuments = await collectionObj.countDocuments({});
+        const totalDocuments = await collectionObj.countDocuments(scopeToTenant(), tagOperation());
         const affectedDocuments = duplicateGroups.reduce((sum, group) => sum + group.count, 0);
         const uniqueDocuments = totalDocuments - affectedDocuments + duplicateGroups.length;
         const duplicatePercentage = totalDocuments > 0 ? (affectedDocuments / totalDocuments) * 100 : 0;
@@ -151,35 +168,30 @@ export function registerDataQualityTools(server: McpServer, db: Db, mode: string
           }
         }
 
+        // The group key is the duplicated value itself, so it is masked like the documents
+        const maskedGroups = duplicateGroups.map((group) => ({
+          ...group,
+          value: fields.length === 1 ? maskFieldValue(fields[0], group.value) : maskDocument(group.value),
+          ...(group.documents ? { documents: maskDocuments(group.documents) } : {}),
+        }));
         const { result: cappedGroups, truncated: groupsTruncated, warning: groupsWarning } =
-          capResultSize(duplicateGroups as Record<string, unknown>[]);
+          capResultSize(maskedGroups as Record<string, unknown>[]);
 
-        return {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify(
-                {
-                  collection,
-                  fieldsCombination: fields,
-                  totalDuplicateGroups: duplicateGroups.length,
-                  affectedDocuments,
-                  statistics: {
-                    totalDocuments,
-                    uniqueDocuments,
-                    duplicateDocuments: affectedDocuments,
-                    duplicatePercentage: parseFloat(duplicatePercentage.toFixed(2)),
-                  },
-                  duplicateGroups: cappedGroups,
-                  ...(groupsTruncated ? { warning: groupsWarning } : {}),
-                  recommendations,
-                },
-                null,
-                2
-              ),
-            },
-          ],
-        };
+        return structuredResult({
+          collection,
+          fieldsCombination: fields,
+          totalDuplicateGroups: duplicateGroups.length,
+          affectedDocuments,
+          statistics: {
+            totalDocuments,
+            uniqueDocuments,
+            duplicateDocuments: affectedDocuments,
+            duplicatePercentage: parseFloat(duplicatePercentage.toFixed(2)),
+          },
+          duplicateGroups: cappedGroups,
+          ...(groupsTruncated ? { warning: groupsWarning } : {}),
+          recommendations,
+        });
       } catch (error) {
         logError('findDuplicates', error, args);
         const errorMessage = error instanceof Error ? error.message : String(error);
@@ -190,15 +202,20 @@ export function registerDataQualityTools(server: McpServer, db: Db, mode: string
               text: `Error finding duplicates: ${errorMessage}`,
             },
           ],
+          isError: true,
         };
       }
-    }
-  );
-
-  registerTool(
-    'cloneCollection',
-    'Clone a collection with optional filtering and index copying. Supports dryRun mode for preview.',
-    {
+    },
+  });
+
+  registry.register({
+    name: 'cloneCollection',
+    title: 'Clone Collection',
+    category: 'export',
+    access: 'destructive',
+    cost: 'high',
+    description: 'Clone a collection with optional filtering and index copying. Supports dryRun mode for preview.',
+    inputSchema: {
       source: z.string(),
       destination: z.string(),
       options: z.object({
@@ -209,8 +226,7 @@ export function registerDataQualityTools(server: McpServer, db: Db, mode: string
         projection: z.record(z.any()).optional(),
       }).optional(),
     },
-    async (args) => {
-      logToolUsage('cloneCollection', args);
+    handler: async (args, extra) => {
       const { source, destination, options = {} } = args;
       const {
         filter = {},
@@ -232,6 +248,7 @@ export function registerDataQualityTools(server: McpServer, db: Db, mode: string
                 text: 'Error: Source and destination cannot be the same collection',
               },
             ],
+            isError: true,
           };
         }
 
@@ -245,6 +262,7 @@ export function registerDataQualityTools(server: McpServer, db: Db, mode: string
                 text: `Error: Source collection '${source}' does not exist\n\nSuggestion: Use listCollections() to see available collections`,
               },
             ],
+            isError: true,
           };
         }
 
@@ -260,6 +278,7 @@ export function registerDataQualityTools(server: McpServer, db: Db, mode: string
                 text: `Error: Destination collection '${destination}' already exists\n\nSuggestion: Use dropIfExists: true or choose different name`,
               },
             ],
+            isError: true,
           };
         }
 
@@ -270,7 +289,7 @@ export function registerDataQualityTools(server: McpServer, db: Db, mode: string
         // Get source stats
         const sourceStats = await db.command({ collStats: source });
         const processedFilter = preprocessQuery(filter);
-        const matchCount = await db.collection(source).countDocuments(processedFilter);
+        const matchCount = await db.collection(source).countDocuments(processedFilter, tagOperation());
         const indexes = await db.collection(source).indexes();
 
         // Dry run mode
@@ -311,6 +330,10 @@ export function registerDataQualityTools(server: McpServer, db: Db, mode: string
         }
 
         const startTime = Date.now();
+        const progress = createProgressReporter(extra);
+        const indexesToCopy = includeIndexes ? indexes.filter((index) => index.name !== '_id_') : [];
+        const totalSteps = matchCount + indexesToCopy.length;
+        await progress.report(0, totalSteps, `Copying ${matchCount} documents to '${destination}'`);
 
         // Drop destination if it exists
         if (destExists && dropIfExists) {
@@ -328,33 +351,35 @@ export function registerDataQualityTools(server: McpServer, db: Db, mode: string
         pipeline.push({ $out: destination });
 
         await safeAggregate(db.collection(source), pipeline);
+        await progress.report(matchCount, totalSteps, `Copied ${matchCount} documents`);
 
         let indexesCopied = 0;
 
-        // Copy indexes
-        if (includeIndexes) {
-          for (const index of indexes) {
-            if (index.name === '_id_') continue; // Skip default _id index
-
-            const indexSpec = index.key;
-            const indexOptions: any = {
-              name: index.name,
-            };
+        // Copy indexes, except the default _id index
+        for (const [position, index] of indexesToCopy.entries()) {
+          const indexSpec = index.key;
+          const indexOptions: any = {
+            name: index.name,
+          };
 
-            if (index.unique) indexOptions.unique = true;
-            if (index.sparse) indexOptions.sparse = true;
-            if (index.expireAfterSeconds !== undefined) {
-              indexOptions.expireAfterSeconds = index.expireAfterSeconds;
-            }
+          if (index.unique) indexOptions.unique = true;
+          if (index.sparse) indexOptions.sparse = true;
+          if (index.expireAfterSeconds !== undefined) {
+            indexOptions.expireAfterSeconds = index.expireAfterSeconds;
+          }
 
-            try {
-              await db.collection(destination).createIndex(indexSpec, indexOptions);
-              indexesCopied++;
-            } catch (err) {
-              // Index creation might fail if projection removed indexed fields
-              warnings.push(`Failed to copy index '${index.name}': ${err instanceof Error ? err.message : String(err)}`);
-            }
+          try {
+            await db.collection(destination).createIndex(indexSpec, indexOptions);
+            indexesCopied++;
+          } catch (err) {
+            // Index creation might fail if projection removed indexed fields
+            warnings.push(`Failed to copy index '${index.name}': ${err instanceof Error ? err.message : String(err)}`);
           }
+          await progress.report(
+            matchCount + position + 1,
+            totalSteps,
+            `Copied index ${position + 1} of ${indexesToCopy.length}`
+          );
         }
 
         const executionTimeMs = Date.now() - startTime;
@@ -392,16 +417,20 @@ export function registerDataQualityTools(server: McpServer, db: Db, mode: string
               text: `Error cloning collection: ${errorMessage}`,
             },
           ],
+          isError: true,
         };
       }
     },
-    true
-  );
-
-  registerTool(
-    'exportCollection',
-    'Export collection data to JSON, JSONL, or CSV format. Returns data directly or saves to file if output path provided.',
-    {
+  });
+
+  registry.register({
+    name: 'exportCollection',
+    title: 'Export Collection',
+    category: 'export',
+    access: 'read',
+    cost: 'high',
+    description: 'Export collection data to JSON, JSONL, or CSV format. Returns data directly or saves to file if output path provided.',
+    inputSchema: {
       collection: z.string(),
       options: z.object({
         format: z.enum(['json', 'jsonl', 'csv']).optional(),
@@ -413,8 +442,7 @@ export function registerDataQualityTools(server: McpServer, db: Db, mode: string
         pretty: z.boolean().optional(),
       }).optional(),
     },
-    async (args) => {
-      logToolUsage('exportCollection', args);
+    handler: async (args, extra) => {
       const { collection, options = {} } = args;
       const {
         format = 'json',
@@ -431,16 +459,22 @@ export function registerDataQualityTools(server: McpServer, db: Db, mode: string
         const processedFilter = preprocessQuery(filter);
 
         // Get documents
-        let cursor = db.collection(collection).find(processedFilter);
+        let cursor = db.collection(collection).find(processedFilter, tagOperation());
 
         if (projection) {
           assertNoDangerousOperators(projection, 'projection');
           cursor = cursor.project(projection);
         }
         if (sort) cursor = cursor.sort(sort);
-        cursor = cursor.limit(limit ?? MAX_EXPORT_LIMIT);
+        const maxDocuments = limit ?? MAX_EXPORT_LIMIT;
+        cursor = cursor.limit(maxDocuments);
 
-        const documents = await cursor.toArray();
+        // Counting is only worth it when someone is watching the progress
+        const progress = createProgressReporter(extra);
+        const total = progress.enabled
+          ? await db.collection(collection).countDocuments(processedFilter, tagOperation({ limit: maxDocuments }))
+          : undefined;
+        const documents = maskDocuments(await readWithProgress(cursor, progress, total));
 
         if (documents.length === 0) {
           return {
@@ -579,15 +613,20 @@ export function registerDataQualityTools(server: McpServer, db: Db, mode: string
               text: `Error exporting collection: ${errorMessage}`,
             },
           ],
+          isError: true,
         };
       }
-    }
-  );
-
-  registerTool(
-    'findMissingFields',
-    'Check which documents are missing specified required fields. Useful for schema validation before migrations.',
-    {
+    },
+  });
+
+  registry.register({
+    name: 'findMissingFields',
+    title: 'Find Missing Fields',
+    category: 'quality',
+    access: 'read',
+    cost: 'medium',
+    description: 'Check which documents are missing specified required fields. Useful for schema validation before migrations.',
+    inputSchema: {
       collection: z.string(),
       requiredFields: z.array(z.string()),
       options: z.object({
@@ -596,8 +635,22 @@ export function registerDataQualityTools(server: McpServer, db: Db, mode: string
         includeDocuments: z.boolean().optional(),
       }).optional(),
     },
-    async (args) => {
-      logToolUsage('findMissingFields', args);
+    outputSchema: {
+      collection: z.string(),
+      message: z.string().optional(),
+      totalDocuments: z.number().optional(),
+      requiredFields: z.array(z.string()).optional(),
+      missingFieldCounts: z.record(z.object({
+        missing: z.number(),
+        percentage: z.number(),
+        sampleDocuments: z.array(z.record(z.any())).optional(),
+      })).optional(),
+      documentsMissingAnyField: z.number().optional(),
+      documentsComplete: z.number().optional(),
+      completionRate: z.number().optional(),
+      recommendations: z.array(z.string()).optional(),
+    },
+    handler: async (args) => {
       const { collection, requiredFields, options = {} } = args;
       const { filter = {}, sampleSize, includeDocuments = true } = options;
 
@@ -607,33 +660,23 @@ export function registerDataQualityTools(server: McpServer, db: Db, mode: string
 
         // Get total documents to check
         const totalDocuments = sampleSize
-          ? Math.min(sampleSize, await collectionObj.countDocuments(processedFilter))
-          : await collectionObj.countDocuments(processedFilter);
+          ? Math.min(sampleSize, await collectionObj.countDocuments(processedFilter, tagOperation()))
+          : await collectionObj.countDocuments(processedFilter, tagOperation());
 
         if (totalDocuments === 0) {
-          return {
-            content: [
-              {
-                type: 'text',
-                text: JSON.stringify(convertObjectIdsToExtendedJson({
-                  collection,
-                  message: 'No documents found matching filter',
-                }), null, 2),
-              },
-            ],
-          };
+          return structuredResult({
+            collection,
+            message: 'No documents found matching filter',
+          });
         }
 
         const missingFieldCounts: Record<string, any> = {};
 
         // Check each field
         for (const field of requiredFields) {
-          const missingFilter = {
-            ...processedFilter,
-            [field]: { $exists: false },
-          };
+          const missingFilter = combineFilters(processedFilter, { [field]: { $exists: false } });
 
-          const missingCount = await collectionObj.countDocuments(missingFilter);
+          const missingCount = await collectionObj.countDocuments(missingFilter, tagOperation());
 
           missingFieldCounts[field] = {
             missing: missingCount,
@@ -643,19 +686,19 @@ export function registerDataQualityTools(server: McpServer, db: Db, mode: string
           // Get sample documents if requested
           if (includeDocuments && missingCount > 0) {
             const samples = await collectionObj
-              .find(missingFilter)
+              .find(missingFilter, tagOperation())
               .limit(3)
               .toArray();
 
-            missingFieldCounts[field].sampleDocuments = samples;
+            missingFieldCounts[field].sampleDocuments = maskDocuments(samples);
           }
         }
 
         // Calculate statistics
-        const documentsMissingAnyField = await collectionObj.countDocuments({
-          ...processedFilter,
-          $or: requiredFields.map((field: string) => ({ [field]: { $exists: false } })),
-        });
+        const documentsMissingAnyField = await collectionObj.countDocuments(
+          combineFilters(processedFilter, { $or: requiredFields.map((field: string) => ({ [field]: { $exists: false } })) }),
+          tagOperation()
+        );
 
         const documentsComplete = totalDocuments - documentsMissingAnyField;
         const completionRate = parseFloat((documentsComplete / totalDocuments).toFixed(4));
@@ -683,23 +726,16 @@ export function registerDataQualityTools(server: McpServer, db: Db, mode: string
           recommendations.push('✓ All documents have all required fields');
         }
 
-        return {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify(convertObjectIdsToExtendedJson({
-                  collection,
-                  totalDocuments,
-                  requiredFields,
-                  missingFieldCounts,
-                  documentsMissingAnyField,
-                  documentsComplete,
-                  completionRate,
-                  recommendations,
-                }), null, 2),
-            },
-          ],
-        };
+        return structuredResult({
+          collection,
+          totalDocuments,
+          requiredFields,
+          missingFieldCounts,
+          documentsMissingAnyField,
+          documentsComplete,
+          completionRate,
+          recommendations,
+        });
       } catch (error) {
         logError('findMissingFields', error, args);
         const errorMessage = error instanceof Error ? error.message : String(error);
@@ -710,15 +746,20 @@ export function registerDataQualityTools(server: McpServer, db: Db, mode: string
               text: `Error finding missing fields: ${errorMessage}`,
             },
           ],
+          isError: true,
         };
       }
-    }
-  );
-
-  registerTool(
-    'findInconsistentTypes',
-    'Detect type inconsistencies in a field across documents. Helps identify data quality issues.',
-    {
+    },
+  });
+
+  registry.register({
+    name: 'findInconsistentTypes',
+    title: 'Find Inconsistent Types',
+    category: 'quality',
+    access: 'read',
+    cost: 'medium',
+    description: 'Detect type inconsistencies in a field across documents. Helps identify data quality issues.',
+    inputSchema: {
       collection: z.string(),
       field: z.string(),
       options: z.object({
@@ -728,8 +769,25 @@ export function registerDataQualityTools(server: McpServer, db: Db, mode: string
         samplesPerType: z.number().positive().max(10).optional(),
       }).optional(),
     },
-    async (args) => {
-      logToolUsage('findInconsistentTypes', args);
+    outputSchema: {
+      collection: z.string(),
+      field: z.string(),
+      message: z.string().optional(),
+      totalDocuments: z.number().optional(),
+      isConsistent: z.boolean().optional(),
+      types: z.record(z.object({
+        count: z.number(),
+        percentage: z.number(),
+        samples: z.array(z.any()).optional(),
+      })).optional(),
+      dominantType: z.object({
+        type: z.string(),
+        count: z.number(),
+        percentage: z.number(),
+      }).nullable().optional(),
+      recommendations: z.array(z.string()).optional(),
+    },
+    handler: async (args) => {
       const { collection, field, options = {} } = args;
       const {
         filter = {},
@@ -790,18 +848,11 @@ export function registerDataQualityTools(server: McpServer, db: Db, mode: string
         const results = await safeAggregate(collectionObj, pipeline);
 
         if (results.length === 0) {
-          return {
-            content: [
-              {
-                type: 'text',
-                text: JSON.stringify(convertObjectIdsToExtendedJson({
-                  collection,
-                  field,
-                  message: 'No documents found matching filter',
-                }), null, 2),
-              },
-            ],
-          };
+          return structuredResult({
+            collection,
+            field,
+            message: 'No documents found matching filter',
+          });
         }
 
         // Calculate totals
@@ -817,7 +868,7 @@ export function registerDataQualityTools(server: McpServer, db: Db, mode: string
           };
 
           if (includeSamples) {
-            types[typeName].samples = result.samples.slice(0, samplesPerType);
+            types[typeName].samples = maskFieldValue(field, result.samples.slice(0, samplesPerType));
           }
         });
 
@@ -835,22 +886,15 @@ export function registerDataQualityTools(server: McpServer, db: Db, mode: string
         // Generate recommendations
         const recommendations = generateTypeRecommendations(types, dominantType, field);
 
-        return {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify(convertObjectIdsToExtendedJson({
-                  collection,
-                  field,
-                  totalDocuments,
-                  isConsistent,
-                  types,
-                  dominantType,
-                  recommendations,
-                }), null, 2),
-            },
-          ],
-        };
+        return structuredResult({
+          collection,
+          field,
+          totalDocuments,
+          isConsistent,
+          types,
+          dominantType,
+          recommendations,
+        });
       } catch (error) {
         logError('findInconsistentTypes', error, args);
         const errorMessage = error instanceof Error ? error.message : String(error);
@@ -861,15 +905,21 @@ export function registerDataQualityTools(server: McpServer, db: Db, mode: string
               text: `Error finding type inconsistencies: ${errorMessage}`,
             },
           ],
+          isError: true,
         };
       }
-    }
-  );
-
-  registerTool(
-    'renameField',
-    'Rename a field across documents in a collection. Supports filtering, dry-run mode, and index migration.',
-    {
+    },
+  });
+
+  registry.register({
+    name: 'renameField',
+    title: 'Rename Field',
+    category: 'write',
+    access: 'destructive',
+    cost: 'high',
+    annotations: { idempotentHint: true },
+    description: 'Rename a field across documents in a collection. Supports filtering, dry-run mode, and index migration.',
+    inputSchema: {
       collection: z.string(),
       oldFieldName: z.string(),
       newFieldName: z.string(),
@@ -880,8 +930,7 @@ export function registerDataQualityTools(server: McpServer, db: Db, mode: string
         dropOldIndex: z.boolean().optional(),
       }).optional(),
     },
-    async (args) => {
-      logToolUsage('renameField', args);
+    handler: async (args, extra) => {
       const { collection, oldFieldName, newFieldName, options = {} } = args;
       const {
         filter = {},
@@ -895,13 +944,10 @@ export function registerDataQualityTools(server: McpServer, db: Db, mode: string
         const collectionObj = db.collection(collection);
 
         // Build filter that only matches documents with the old field
-        const renameFilter = {
-          ...preprocessQuery(filter),
-          [oldFieldName]: { $exists: true },
-        };
+        const renameFilter = combineFilters(preprocessQuery(filter), { [oldFieldName]: { $exists: true } });
 
         // Count affected documents
-        const affectedCount = await collectionObj.countDocuments(renameFilter);
+        const affectedCount = await collectionObj.countDocuments(renameFilter, tagOperation());
 
         if (affectedCount === 0) {
           return {
@@ -920,7 +966,7 @@ export function registerDataQualityTools(server: McpServer, db: Db, mode: string
 
         // Dry run mode
         if (dryRun) {
-          const samples = await collectionObj.find(renameFilter).limit(3).toArray();
+          const samples = maskDocuments(await collectionObj.find(renameFilter, tagOperation()).limit(3).toArray());
 
           const beforeAfter = samples.map(doc => {
             const before = { ...doc };
@@ -950,10 +996,10 @@ export function registerDataQualityTools(server: McpServer, db: Db, mode: string
         }
 
         // Check if new field already exists
-        const conflictCount = await collectionObj.countDocuments({
-          ...renameFilter,
-          [newFieldName]: { $exists: true },
-        });
+        const conflictCount = await collectionObj.countDocuments(
+          combineFilters(renameFilter, { [newFieldName]: { $exists: true } }),
+          tagOperation()
+        );
 
         if (conflictCount > 0) {
           return {
@@ -963,9 +1009,17 @@ export function registerDataQualityTools(server: McpServer, db: Db, mode: string
                 text: `Error: Field '${newFieldName}' already exists in ${conflictCount} documents\n\nSuggestion: Choose different name or manually resolve conflicts`,
               },
             ],
+            isError: true,
           };
         }
 
+        const oldFieldIndexes = createIndex
+          ? (await collectionObj.indexes()).filter(idx => Object.keys(idx.key).includes(oldFieldName))
+          : [];
+        const progress = createProgressReporter(extra);
+        const totalSteps = affectedCount + oldFieldIndexes.length;
+        await progress.report(0, totalSteps, `Renaming '${oldFieldName}' in ${affectedCount} documents`);
+
         // Execute rename
         const startTime = Date.now();
 
@@ -974,16 +1028,12 @@ export function registerDataQualityTools(server: McpServer, db: Db, mode: string
         });
 
         const executionTimeMs = Date.now() - startTime;
+        await progress.report(affectedCount, totalSteps, `Renamed the field in ${result.modifiedCount} documents`);
 
         // Handle indexes
         let indexesUpdated = 0;
         if (createIndex) {
-          const indexes = await collectionObj.indexes();
-          const oldFieldIndexes = indexes.filter(idx =>
-            Object.keys(idx.key).includes(oldFieldName)
-          );
-
-          for (const oldIndex of oldFieldIndexes) {
+          for (const [position, oldIndex] of oldFieldIndexes.entries()) {
             // Skip if index doesn't have a name
             if (!oldIndex.name) continue;
 
@@ -1012,6 +1062,11 @@ export function registerDataQualityTools(server: McpServer, db: Db, mode: string
                 `Failed to migrate index '${oldIndex.name}': ${err instanceof Error ? err.message : String(err)}`
               );
             }
+            await progress.report(
+              affectedCount + position + 1,
+              totalSteps,
+              `Migrated index ${position + 1} of ${oldFieldIndexes.length}`
+            );
           }
 
           if (indexesUpdated > 0 && !dropOldIndex) {
@@ -1051,16 +1106,20 @@ export function registerDataQualityTools(server: McpServer, db: Db, mode: string
               text: `Error renaming field: ${errorMessage}`,
             },
           ],
+          isError: true,
         };
       }
     },
-    true
-  );
-
-  registerTool(
-    'analyzeQueryPerformance',
-    'Analyze query performance using MongoDB explain plan. Identifies index usage, slow queries, and optimization opportunities.',
-    {
+  });
+
+  registry.register({
+    name: 'analyzeQueryPerformance',
+    title: 'Analyze Query Performance',
+    category: 'diagnose',
+    access: 'read',
+    cost: 'medium',
+    description: 'Analyze query performance using MongoDB explain plan. Identifies index usage, slow queries, and optimization opportunities.',
+    inputSchema: {
       collection: z.string(),
       query: z.object({
         filter: z.record(z.any()).optional(),
@@ -1073,8 +1132,7 @@ export function registerDataQualityTools(server: McpServer, db: Db, mode: string
         includeRecommendations: z.boolean().optional(),
       }).optional(),
     },
-    async (args) => {
-      logToolUsage('analyzeQueryPerformance', args);
+    handler: async (args) => {
       const { collection, query = {}, options = {} } = args;
       const {
         filter = {},
@@ -1092,7 +1150,7 @@ export function registerDataQualityTools(server: McpServer, db: Db, mode: string
         const processedFilter = preprocessQuery(filter);
 
         // Build query
-        let cursor = collectionObj.find(processedFilter);
+        let cursor = collectionObj.find(processedFilter, tagOperation());
         if (projection) {
           assertNoDangerousOperators(projection, 'projection');
           cursor = cursor.project(projection);
@@ -1188,15 +1246,20 @@ export function registerDataQualityTools(server: McpServer, db: Db, mode: string
               text: `Error analyzing query performance: ${errorMessage}`,
             },
           ],
+          isError: true,
         };
       }
-    }
-  );
-
-  registerTool(
-    'findOrphans',
-    'Find orphaned documents where referenced IDs no longer exist in the target collection. Essential for maintaining referential integrity.',
-    {
+    },
+  });
+
+  registry.register({
+    name: 'findOrphans',
+    title: 'Find Orphaned References',
+    category: 'quality',
+    access: 'read',
+    cost: 'high',
+    description: 'Find orphaned documents where referenced IDs no longer exist in the target collection. Essential for maintaining referential integrity.',
+    inputSchema: {
       collection: z.string(),
       foreignKey: z.string(),
       referenceCollection: z.string(),
@@ -1207,8 +1270,23 @@ export function registerDataQualityTools(server: McpServer, db: Db, mode: string
         includeDocuments: z.boolean().optional(),
       }).optional(),
     },
-    async (args) => {
-      logToolUsage('findOrphans', args);
+    outputSchema: {
+      collection: z.string(),
+      foreignKey: z.string(),
+      referenceCollection: z.string(),
+      referenceField: z.string(),
+      totalOrphans: z.number(),
+      orphansReturned: z.number(),
+      statistics: z.object({
+        totalDocuments: z.number(),
+        orphanedDocuments: z.number(),
+        orphanPercentage: z.number(),
+      }),
+      orphans: z.array(z.record(z.any())),
+      executionTimeMs: z.number(),
+      recommendations: z.array(z.string()),
+    },
+    handler: async (args) => {
       const { collection, foreignKey, referenceCollection, options = {} } = args;
       const {
         referenceField = '_id',
@@ -1233,6 +1311,7 @@ export function registerDataQualityTools(server: McpServer, db: Db, mode: string
                 }, null, 2),
               },
             ],
+            isError: true,
           };
         }
 
@@ -1242,10 +1321,7 @@ export function registerDataQualityTools(server: McpServer, db: Db, mode: string
         // Build aggregation pipeline to find orphans
         const pipeline: any[] = [
           {
-            $match: {
-              ...processedFilter,
-              [foreignKey]: { $exists: true, $ne: null },
-            },
+            $match: combineFilters(processedFilter, { [foreignKey]: { $exists: true, $ne: null } }),
           },
           {
             $lookup: {
@@ -1280,7 +1356,7 @@ export function registerDataQualityTools(server: McpServer, db: Db, mode: string
           });
         }
 
-        const orphans = await safeAggregate(collectionObj, pipeline);
+        const orphans = maskDocuments(await safeAggregate(collectionObj, pipeline));
 
         // Count total orphans (without limit)
         const countPipeline = pipeline.slice(0, -2); // Remove limit and project
@@ -1291,7 +1367,7 @@ export function registerDataQualityTools(server: McpServer, db: Db, mode: string
         const executionTimeMs = Date.now() - startTime;
 
         // Get collection stats
-        const totalDocuments = await collectionObj.countDocuments(processedFilter);
+        const totalDocuments = await collectionObj.countDocuments(processedFilter, tagOperation());
         const orphanPercentage = totalDocuments > 0
           ? parseFloat(((totalOrphans / totalDocuments) * 100).toFixed(2))
           : 0;
@@ -1323,35 +1399,24 @@ export function registerDataQualityTools(server: McpServer, db: Db, mode: string
           );
         }
 
-        return {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify(
-                {
-                  collection,
-                  foreignKey,
-                  referenceCollection,
-                  referenceField,
-                  totalOrphans,
-                  orphansReturned: orphans.length,
-                  statistics: {
-                    totalDocuments,
-                    orphanedDocuments: totalOrphans,
-                    orphanPercentage,
-                  },
-                  orphans: capResultSize(
-                    (includeDocuments ? orphans : orphans.map(o => ({ _id: o._id, [foreignKey]: o[foreignKey] }))) as Record<string, unknown>[]
-                  ).result,
-                  executionTimeMs,
-                  recommendations,
-                },
-                null,
-                2
-              ),
-            },
-          ],
-        };
+        return structuredResult({
+          collection,
+          foreignKey,
+          referenceCollection,
+          referenceField,
+          totalOrphans,
+          orphansReturned: orphans.length,
+          statistics: {
+            totalDocuments,
+            orphanedDocuments: totalOrphans,
+            orphanPercentage,
+          },
+          orphans: capResultSize(
+            (includeDocuments ? orphans : orphans.map(o => ({ _id: o._id, [foreignKey]: o[foreignKey] }))) as Record<string, unknown>[]
+          ).result,
+          executionTimeMs,
+          recommendations,
+        });
       } catch (error) {
         logError('findOrphans', error, args);
         const errorMessage = error instanceof Error ? error.message : String(error);
@@ -1362,15 +1427,20 @@ export function registerDataQualityTools(server: McpServer, db: Db, mode: string
               text: `Error finding orphans: ${errorMessage}`,
             },
           ],
+          isError: true,
         };
       }
-    }
-  );
-
-  registerTool(
-    'exploreRelationships',
-    'Explore document relationships by following foreign key references in both directions. Useful for understanding data dependencies and debugging related entities.',
-    {
+    },
+  });
+
+  registry.register({
+    name: 'exploreRelationships',
+    title: 'Explore Relationships',
+    category: 'relationships',
+    access: 'read',
+    cost: 'medium',
+    description: 'Explore document relationships by following foreign key references in both directions. Useful for understanding data dependencies and debugging related entities.',
+    inputSchema: {
       collection: z.string(),
       documentId: z.string().optional(),
       filter: z.record(z.any()).optional(),
@@ -1386,8 +1456,7 @@ export function registerDataQualityTools(server: McpServer, db: Db, mode: string
         limit: z.number().positive().max(100).optional(),
       }).optional(),
     },
-    async (args) => {
-      logToolUsage('exploreRelationships', args);
+    handler: async (args) => {
       const { collection, documentId, filter, relationships, options = {} } = args;
       const {
         depth = 1,
@@ -1441,24 +1510,22 @@ export function registerDataQualityTools(server: McpServer, db: Db, mode: string
 
         let rootFilter: any;
         if (documentId) {
-          const processedId = preprocessQuery({ _id: documentId })._id;
-
-          if (processedId === documentId) {
+          if (ObjectId.isValid(documentId)) {
+            rootFilter = scopeToTenant({ _id: new ObjectId(documentId) });
+          } else {
             const numericId = Number(documentId);
             if (!isNaN(numericId) && Number.isFinite(numericId)) {
-              rootFilter = { $or: [{ _id: numericId }, { _id: documentId }] };
+              rootFilter = scopeToTenant({ $or: [{ _id: numericId }, { _id: documentId }] });
             } else {
-              rootFilter = { _id: documentId };
+              rootFilter = scopeToTenant({ _id: documentId });
             }
-          } else {
-            rootFilter = { _id: processedId };
           }
         } else {
           rootFilter = preprocessQuery(filter!);
         }
 
         // Get root document(s)
-        const rootDocuments = await collectionObj.find(rootFilter).limit(limit).toArray();
+        const rootDocuments = await collectionObj.find(rootFilter, tagOperation()).limit(limit).toArray();
 
         if (rootDocuments.length === 0) {
           return {
@@ -1537,15 +1604,20 @@ export function registerDataQualityTools(server: McpServer, db: Db, mode: string
               text: `Error exploring relationships: ${errorMessage}`,
             },
           ],
+          isError: true,
         };
       }
-    }
-  );
-
-  registerTool(
-    'validateDocuments',
-    'Validate documents against custom rules using MongoDB $expr conditions. Generic validation framework for any business logic or data consistency checks.',
-    {
+    },
+  });
+
+  registry.register({
+    name: 'validateDocuments',
+    title: 'Validate Documents',
+    category: 'quality',
+    access: 'read',
+    cost: 'high',
+    description: 'Validate documents against custom rules using MongoDB $expr conditions. Generic validation framework for any business logic or data consistency checks.',
+    inputSchema: {
       collection: z.string(),
       rules: z.array(z.object({
         name: z.string(),
@@ -1560,8 +1632,29 @@ export function registerDataQualityTools(server: McpServer, db: Db, mode: string
         stopOnFirst: z.boolean().optional(),
       }).optional(),
     },
-    async (args) => {
-      logToolUsage('validateDocuments', args);
+    outputSchema: {
+      collection: z.string().optional(),
+      message: z.string().optional(),
+      summary: z.object({
+        collection: z.string(),
+        totalDocuments: z.number(),
+        documentsChecked: z.number(),
+        rulesChecked: z.number(),
+        totalViolations: z.number(),
+        violationsByRule: z.record(z.number()),
+      }).optional(),
+      violations: z.array(z.object({
+        rule: z.string(),
+        message: z.string(),
+        severity: z.enum(['error', 'warning', 'info']),
+        violationCount: z.number(),
+        samples: z.array(z.record(z.any())),
+      })).optional(),
+      validSamples: z.array(z.record(z.any())).optional(),
+      recommendations: z.array(z.string()).optional(),
+      executionTimeMs: z.number().optional(),
+    },
+    handler: async (args) => {
       const { collection, rules, options = {} } = args;
       const {
         filter = {},
@@ -1575,20 +1668,13 @@ export function registerDataQualityTools(server: McpServer, db: Db, mode: string
         const processedFilter = preprocessQuery(filter);
         const startTime = Date.now();
 
-        const totalDocuments = await collectionObj.countDocuments(processedFilter);
+        const totalDocuments = await collectionObj.countDocuments(processedFilter, tagOperation());
 
         if (totalDocuments === 0) {
-          return {
-            content: [
-              {
-                type: 'text',
-                text: JSON.stringify(convertObjectIdsToExtendedJson({
-                  collection,
-                  message: 'No documents found matching filter',
-                }), null, 2),
-              },
-            ],
-          };
+          return structuredResult({
+            collection,
+            message: 'No documents found matching filter',
+          });
         }
 
         const violations: any[] = [];
@@ -1604,6 +1690,7 @@ export function registerDataQualityTools(server: McpServer, db: Db, mode: string
                   text: `Error: Validation rule '${rule.name}' must use $expr condition format. Non-$expr conditions are not supported.`,
                 },
               ],
+              isError: true,
             };
           }
 
@@ -1627,7 +1714,7 @@ export function registerDataQualityTools(server: McpServer, db: Db, mode: string
               message: rule.message,
               severity: rule.severity || 'error',
               violationCount: violatingDocs.length,
-              samples: violatingDocs.slice(0, 5), // Show first 5 violations
+              samples: maskDocuments(violatingDocs.slice(0, 5)), // Show first 5 violations
             });
 
             if (stopOnFirst) {
@@ -1640,8 +1727,8 @@ export function registerDataQualityTools(server: McpServer, db: Db, mode: string
 
         // Optionally check for valid documents
         if (includeValid && violations.length === 0) {
-          const sampleValid = await collectionObj.find(processedFilter).limit(3).toArray();
-          validDocuments.push(...sampleValid);
+          const sampleValid = await collectionObj.find(processedFilter, tagOperation()).limit(3).toArray();
+          validDocuments.push(...maskDocuments(sampleValid));
         }
 
         const executionTimeMs = Date.now() - startTime;
@@ -1689,20 +1776,13 @@ export function registerDataQualityTools(server: McpServer, db: Db, mode: string
           );
         }
 
-        return {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify(convertObjectIdsToExtendedJson({
-                  summary,
-                  violations,
-                  validSamples: includeValid ? validDocuments : undefined,
-                  recommendations,
-                  executionTimeMs,
-                }), null, 2),
-            },
-          ],
-        };
+        return structuredResult({
+          summary,
+          violations,
+          validSamples: includeValid ? validDocuments : undefined,
+          recommendations,
+          executionTimeMs,
+        });
       } catch (error) {
         logError('validateDocuments', error, args);
         const errorMessage = error instanceof Error ? error.message : String(error);
@@ -1713,10 +1793,11 @@ export function registerDataQualityTools(server: McpServer, db: Db, mode: string
               text: `Error validating documents: ${errorMessage}`,
             },
           ],
+          isError: true,
         };
       }
-    }
-  );
+    },
+  });
 }
 
 // Helper function to explore document relationships recursively
@@ -1738,12 +1819,13 @@ async function exploreDocumentRelationships(
 
   // Prevent circular references
   if (visited.has(docKey)) {
-    return { document: rootDoc, circular: true };
+    return { document: maskDocument(rootDoc), circular: true };
   }
   visited.add(docKey);
 
+  // Relationships are followed through the raw values; only the result is masked
   const result: any = {
-    document: rootDoc,
+    document: maskDocument(rootDoc),
     related: {},
   };
 
@@ -1759,7 +1841,7 @@ async function exploreDocumentRelationships(
     const foreignIds = Array.isArray(fieldValue) ? fieldValue : [fieldValue];
 
     const relatedDocs = await foreignColl
-      .find({ [rel.foreignField]: { $in: foreignIds } })
+      .find(scopeToTenant({ [rel.foreignField]: { $in: foreignIds } }), tagOperation())
       .limit(100)
       .toArray();
 
@@ -1781,7 +1863,8 @@ async function exploreDocumentRelationships(
         }
         result.related[alias] = Array.isArray(fieldValue) ? explored : explored[0];
       } else {
-        result.related[alias] = Array.isArray(fieldValue) ? relatedDocs : relatedDocs[0];
+        const maskedDocs = maskDocuments(relatedDocs);
+        result.related[alias] = Array.isArray(fieldValue) ? maskedDocs : maskedDocs[0];
       }
     }
   }
@@ -1799,13 +1882,13 @@ async function exploreDocumentRelationships(
       };
 
       const referencingDocs = await foreignColl
-        .find(reverseFilter)
+        .find(scopeToTenant(reverseFilter), tagOperation())
         .limit(50)
         .toArray();
 
       if (referencingDocs.length > 0) {
         const alias = `${rel.foreignCollection}_referencing`;
-        result.reverseReferences[alias] = referencingDocs;
+        result.reverseReferences[alias] = maskDocuments(referencingDocs);
       }
     }
   }
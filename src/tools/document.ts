@@ -1,7 +1,6 @@
 import type { Db } from 'mongodb';
-import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
-import { logToolUsage, logError } from '../utils/logger.js';
+import { logError } from '../utils/logger.js';
 import { preprocessQuery } from '../utils/query-preprocessor.js';
 import { shouldBlockFilter, validateFilter, getOperationWarning } from '../utils/filter-validator.js';
 import { convertObjectIdsToExtendedJson } from '../utils/sanitize.js';
@@ -9,20 +8,24 @@ import { validatePipeline } from '../utils/pipeline-validator.js';
 import { MAX_QUERY_LIMIT } from '../utils/query-limits.js';
 import { capResultSize } from '../utils/query-limits.js';
 import { sanitizeAggregateOptions } from '../utils/aggregate-options-sanitizer.js';
-
-export function registerDocumentTools(server: McpServer, db: Db, mode: string): void {
-  const registerTool = (toolName: string, description: string, schema: any, handler: (args?: any) => any, writeOperation = false) => {
-    if (writeOperation && mode === 'read-only') {
-      return;
-    }
-    server.tool(toolName, description, schema, handler);
-  };
-
+import { tagOperation } from '../utils/cancellation.js';
+import { CONFIRMATION_SAMPLE_SIZE } from '../utils/elicitation.js';
+import { checkApprovalToken, issueApprovalToken } from '../utils/write-approval.js';
+import { scopePipeline, stampTenant } from '../utils/tenant-scope.js';
+import { findRenamedMaskedField, maskDocument, maskDocuments, maskFieldValue } from '../utils/pii-masking.js';
+import { structuredResult } from './registry.js';
+import type { ToolRegistry } from './registry.js';
+
+export function registerDocumentTools(registry: ToolRegistry, db: Db, connectionName = db.databaseName): void {
   // Read operations
-  registerTool(
-    'find',
-    'Find documents in a collection that match the specified query',
-    {
+  registry.register({
+    name: 'find',
+    title: 'Find Documents',
+    category: 'query',
+    access: 'read',
+    cost: 'medium',
+    description: 'Find documents in a collection that match the specified query',
+    inputSchema: {
       collection: z.string(),
       query: z.record(z.any()).optional(),
       projection: z.record(z.any()).optional(),
@@ -31,15 +34,23 @@ export function registerDocumentTools(server: McpServer, db: Db, mode: string):
       sort: z.record(z.number()).optional(),
       hint: z.record(z.number()).optional(),
     },
-    async (args) => {
-      logToolUsage('find', args);
+    outputSchema: {
+      documents: z.array(z.record(z.any())),
+      metadata: z.object({
+        total: z.number(),
+        limit: z.number(),
+        skip: z.number(),
+        hasMore: z.boolean(),
+      }),
+    },
+    handler: async (args) => {
       const { collection, query = {}, projection = {}, limit = 10, skip = 0, sort = {} as any, hint } = args;
       try {
         const processedQuery = preprocessQuery(query);
 
         let cursor = db
           .collection(collection)
-          .find(processedQuery)
+          .find(processedQuery, tagOperation())
           .project(projection)
           .limit(limit)
           .skip(skip)
@@ -51,10 +62,10 @@ export function registerDocumentTools(server: McpServer, db: Db, mode: string):
 
         const docs = await cursor.toArray();
 
-        const total = await db.collection(collection).countDocuments(processedQuery);
+        const total = await db.collection(collection).countDocuments(processedQuery, tagOperation());
 
         const response = {
-          documents: docs,
+          documents: maskDocuments(docs),
           metadata: {
             total,
             limit,
@@ -63,14 +74,7 @@ export function registerDocumentTools(server: McpServer, db: Db, mode: string):
           },
         };
 
-        return {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify(convertObjectIdsToExtendedJson(response), null, 2),
-            },
-          ],
-        };
+        return structuredResult(response);
       } catch (error) {
         logError('find', error, args);
         const errorMessage = error instanceof Error ? error.message : String(error);
@@ -81,21 +85,30 @@ export function registerDocumentTools(server: McpServer, db: Db, mode: string):
               text: `Error executing find: ${errorMessage}`,
             },
           ],
+          isError: true,
         };
       }
-    }
-  );
-
-  registerTool(
-    'aggregate',
-    'Run an aggregation pipeline on a collection',
-    {
+    },
+  });
+
+  registry.register({
+    name: 'aggregate',
+    title: 'Run Aggregation Pipeline',
+    category: 'query',
+    access: 'read',
+    cost: 'high',
+    description: 'Run an aggregation pipeline on a collection',
+    inputSchema: {
       collection: z.string(),
       pipeline: z.array(z.record(z.any())),
       options: z.record(z.any()).optional(),
     },
-    async (args) => {
-      logToolUsage('aggregate', args);
+    outputSchema: {
+      results: z.array(z.record(z.any())),
+      truncated: z.boolean(),
+      warning: z.string().optional(),
+    },
+    handler: async (args) => {
       const { collection, pipeline, options = {} } = args;
 
       const pipelineValidation = validatePipeline(pipeline);
@@ -107,23 +120,30 @@ export function registerDocumentTools(server: McpServer, db: Db, mode: string):
               text: `Aggregation pipeline rejected: ${pipelineValidation.error}`,
             },
           ],
+          isError: true,
         };
       }
 
-      try {
-        const safeOptions = sanitizeAggregateOptions({ maxTimeMS: 30000, ...options });
-        const rawResult = await db.collection(collection).aggregate(pipeline, safeOptions).toArray();
-        const { result, truncated, warning } = capResultSize(rawResult as Record<string, unknown>[]);
-        const serialized = JSON.stringify(convertObjectIdsToExtendedJson(result), null, 2);
-        const text = truncated ? `${warning}\n\n${serialized}` : serialized;
+      const maskedReference = findRenamedMaskedField(pipeline);
+      if (maskedReference) {
         return {
           content: [
             {
               type: 'text',
-              text,
+              text: `Aggregation pipeline rejected: '${maskedReference}' refers to a masked field and would return it unmasked under another name. Keep masked fields under their own names or leave them out.`,
             },
           ],
+          isError: true,
         };
+      }
+
+      try {
+        const safeOptions = sanitizeAggregateOptions({ maxTimeMS: 30000, ...options });
+        const rawResult = await db.collection(collection).aggregate(scopePipeline(pipeline), tagOperation(safeOptions)).toArray();
+        const { result, truncated, warning } = capResultSize(maskDocuments(rawResult) as Record<string, unknown>[]);
+        const serialized = JSON.stringify(convertObjectIdsToExtendedJson(result), null, 2);
+        const text = truncated ? `${warning}\n\n${serialized}` : serialized;
+        return structuredResult({ results: result, truncated, ...(truncated ? { warning } : {}) }, text);
       } catch (error) {
         logError('aggregate', error, args);
         const errorMessage = error instanceof Error ? error.message : String(error);
@@ -134,24 +154,28 @@ export function registerDocumentTools(server: McpServer, db: Db, mode: string):
               text: `Error executing aggregation: ${errorMessage}`,
             },
           ],
+          isError: true,
         };
       }
-    }
-  );
-
-  registerTool(
-    'count',
-    'Count documents in a collection that match the specified query',
-    {
+    },
+  });
+
+  registry.register({
+    name: 'count',
+    title: 'Count Documents',
+    category: 'query',
+    access: 'read',
+    cost: 'low',
+    description: 'Count documents in a collection that match the specified query',
+    inputSchema: {
       collection: z.string(),
       query: z.record(z.any()).optional(),
     },
-    async (args) => {
-      logToolUsage('count', args);
+    handler: async (args) => {
       const { collection, query = {} } = args;
       try {
         const processedQuery = preprocessQuery(query);
-        const count = await db.collection(collection).countDocuments(processedQuery);
+        const count = await db.collection(collection).countDocuments(processedQuery, tagOperation());
         return {
           content: [
             {
@@ -170,30 +194,34 @@ export function registerDocumentTools(server: McpServer, db: Db, mode: string):
               text: `Error counting documents: ${errorMessage}`,
             },
           ],
+          isError: true,
         };
       }
-    }
-  );
-
-  registerTool(
-    'distinct',
-    'Get distinct values for a field across a collection',
-    {
+    },
+  });
+
+  registry.register({
+    name: 'distinct',
+    title: 'Distinct Values',
+    category: 'query',
+    access: 'read',
+    cost: 'medium',
+    description: 'Get distinct values for a field across a collection',
+    inputSchema: {
       collection: z.string(),
       field: z.string(),
       query: z.record(z.any()).optional(),
     },
-    async (args) => {
-      logToolUsage('distinct', args);
+    handler: async (args) => {
       const { collection, field, query = {} } = args;
       try {
         const processedQuery = preprocessQuery(query);
-        const values = await db.collection(collection).distinct(field, processedQuery);
+        const values = await db.collection(collection).distinct(field, processedQuery, tagOperation());
         return {
           content: [
             {
               type: 'text',
-              text: JSON.stringify(convertObjectIdsToExtendedJson(values), null, 2),
+              text: JSON.stringify(convertObjectIdsToExtendedJson(maskFieldValue(field, values)), null, 2),
             },
           ],
         };
@@ -207,38 +235,47 @@ export function registerDocumentTools(server: McpServer, db: Db, mode: string):
               text: `Error getting distinct values: ${errorMessage}`,
             },
           ],
+          isError: true,
         };
       }
-    }
-  );
+    },
+  });
 
   // Preview operations (safety tools)
-  registerTool(
-    'previewUpdate',
-    'Preview which documents would be affected by an update operation without modifying data',
-    {
+  registry.register({
+    name: 'previewUpdate',
+    title: 'Preview Update',
+    category: 'preview',
+    access: 'read',
+    cost: 'medium',
+    description: 'Preview which documents would be affected by an update operation without modifying data. When write approval is required, pass the update to get the approvalToken updateMany needs.',
+    inputSchema: {
       collection: z.string(),
       filter: z.record(z.any()),
+      update: z.record(z.any()).optional(),
       limit: z.number().positive().max(100).optional(),
     },
-    async (args) => {
-      logToolUsage('previewUpdate', args);
-      const { collection, filter, limit = 3 } = args;
+    handler: async (args) => {
+      const { collection, filter, update, limit = 3 } = args;
       try {
         const processedFilter = preprocessQuery(filter);
         const validation = validateFilter(processedFilter);
 
-        const matchCount = await db.collection(collection).countDocuments(processedFilter);
-        const sampleDocs = await db.collection(collection).find(processedFilter).limit(limit).toArray();
+        const matchCount = await db.collection(collection).countDocuments(processedFilter, tagOperation());
+        const sampleDocs = await db.collection(collection).find(processedFilter, tagOperation()).limit(limit).toArray();
 
         const smartWarning = getOperationWarning(matchCount, 'update');
 
         const response = {
           willAffect: matchCount,
-          sampleDocuments: sampleDocs,
+          sampleDocuments: maskDocuments(sampleDocs),
           samplesShown: sampleDocs.length,
           message: smartWarning || (matchCount <= 10 ? `✓ Will update ${matchCount} document${matchCount !== 1 ? 's' : ''}` : undefined),
           filterWarning: validation.warning,
+          ...issueApprovalToken(
+            { operation: 'updateMany', connection: connectionName, database: db.databaseName, collection, filter, update },
+            matchCount
+          ),
         };
 
         return {
@@ -259,37 +296,42 @@ export function registerDocumentTools(server: McpServer, db: Db, mode: string):
               text: `Error previewing update: ${errorMessage}`,
             },
           ],
+          isError: true,
         };
       }
-    }
-  );
-
-  registerTool(
-    'previewDelete',
-    'Preview which documents would be deleted without actually deleting them',
-    {
+    },
+  });
+
+  registry.register({
+    name: 'previewDelete',
+    title: 'Preview Delete',
+    category: 'preview',
+    access: 'read',
+    cost: 'medium',
+    description: 'Preview which documents would be deleted without actually deleting them. Returns the approvalToken deleteMany needs when write approval is required.',
+    inputSchema: {
       collection: z.string(),
       filter: z.record(z.any()),
       limit: z.number().positive().max(100).optional(),
     },
-    async (args) => {
-      logToolUsage('previewDelete', args);
+    handler: async (args) => {
       const { collection, filter, limit = 3 } = args;
       try {
         const processedFilter = preprocessQuery(filter);
         const validation = validateFilter(processedFilter);
 
-        const deleteCount = await db.collection(collection).countDocuments(processedFilter);
-        const sampleDocs = await db.collection(collection).find(processedFilter).limit(limit).toArray();
+        const deleteCount = await db.collection(collection).countDocuments(processedFilter, tagOperation());
+        const sampleDocs = await db.collection(collection).find(processedFilter, tagOperation()).limit(limit).toArray();
 
         const smartWarning = getOperationWarning(deleteCount, 'delete');
 
         const response = {
           willDelete: deleteCount,
-          sampleDocuments: sampleDocs,
+          sampleDocuments: maskDocuments(sampleDocs),
           samplesShown: sampleDocs.length,
           message: smartWarning || (deleteCount <= 10 ? `✓ Will delete ${deleteCount} document${deleteCount !== 1 ? 's' : ''}` : undefined),
           filterWarning: validation.warning,
+          ...issueApprovalToken({ operation: 'deleteMany', connection: connectionName, database: db.databaseName, collection, filter }, deleteCount),
         };
 
         return {
@@ -310,24 +352,28 @@ export function registerDocumentTools(server: McpServer, db: Db, mode: string):
               text: `Error previewing delete: ${errorMessage}`,
             },
           ],
+          isError: true,
         };
       }
-    }
-  );
+    },
+  });
 
   // Insert operations
-  registerTool(
-    'insertOne',
-    'Insert a single document into a collection',
-    {
+  registry.register({
+    name: 'insertOne',
+    title: 'Insert Document',
+    category: 'write',
+    access: 'write',
+    cost: 'low',
+    description: 'Insert a single document into a collection',
+    inputSchema: {
       collection: z.string(),
       document: z.record(z.any()),
     },
-    async (args) => {
-      logToolUsage('insertOne', args);
+    handler: async (args) => {
       const { collection, document } = args;
       try {
-        const result = await db.collection(collection).insertOne(document);
+        const result = await db.collection(collection).insertOne(stampTenant(document));
         return {
           content: [
             {
@@ -346,25 +392,28 @@ export function registerDocumentTools(server: McpServer, db: Db, mode: string):
               text: `Error inserting document: ${errorMessage}`,
             },
           ],
+          isError: true,
         };
       }
     },
-    true
-  );
-
-  registerTool(
-    'insertMany',
-    'Insert multiple documents into a collection',
-    {
+  });
+
+  registry.register({
+    name: 'insertMany',
+    title: 'Insert Documents',
+    category: 'write',
+    access: 'write',
+    cost: 'medium',
+    description: 'Insert multiple documents into a collection',
+    inputSchema: {
       collection: z.string(),
       documents: z.array(z.record(z.any())),
       options: z.record(z.any()).optional(),
     },
-    async (args) => {
-      logToolUsage('insertMany', args);
+    handler: async (args) => {
       const { collection, documents, options = {} } = args;
       try {
-        const result = await db.collection(collection).insertMany(documents, options);
+        const result = await db.collection(collection).insertMany(documents.map(stampTenant), options);
         return {
           content: [
             {
@@ -383,17 +432,21 @@ export function registerDocumentTools(server: McpServer, db: Db, mode: string):
               text: `Error inserting documents: ${errorMessage}`,
             },
           ],
+          isError: true,
         };
       }
     },
-    true
-  );
+  });
 
   // Update operations
-  registerTool(
-    'updateOne',
-    'Update a single document that matches the filter',
-    {
+  registry.register({
+    name: 'updateOne',
+    title: 'Update Document',
+    category: 'write',
+    access: 'destructive',
+    cost: 'low',
+    description: 'Update a single document that matches the filter',
+    inputSchema: {
       collection: z.string(),
       filter: z.record(z.any()),
       update: z.record(z.any()),
@@ -401,8 +454,7 @@ export function registerDocumentTools(server: McpServer, db: Db, mode: string):
         upsert: z.boolean().optional(),
       }).optional(),
     },
-    async (args) => {
-      logToolUsage('updateOne', args);
+    handler: async (args) => {
       const { collection, filter, update, options = {} } = args;
       try {
         const processedFilter = preprocessQuery(filter);
@@ -426,16 +478,20 @@ export function registerDocumentTools(server: McpServer, db: Db, mode: string):
               text: `Error updating document: ${errorMessage}`,
             },
           ],
+          isError: true,
         };
       }
     },
-    true
-  );
-
-  registerTool(
-    'updateMany',
-    'Update multiple documents that match the filter. Supports dryRun mode, empty filter protection, and maxDocuments limit.',
-    {
+  });
+
+  registry.register({
+    name: 'updateMany',
+    title: 'Update Documents',
+    category: 'write',
+    access: 'destructive',
+    cost: 'high',
+    description: 'Update multiple documents that match the filter. Supports dryRun mode, empty filter protection, and maxDocuments limit. When write approval is required, pass the approvalToken from previewUpdate.',
+    inputSchema: {
       collection: z.string(),
       filter: z.record(z.any()),
       update: z.record(z.any()),
@@ -445,10 +501,10 @@ export function registerDocumentTools(server: McpServer, db: Db, mode: string):
         allowEmptyFilter: z.boolean().optional(),
         maxDocuments: z.number().positive().optional(),
       }).optional(),
+      approvalToken: z.string().optional(),
     },
-    async (args) => {
-      logToolUsage('updateMany', args);
-      const { collection, filter, update, options = {} } = args;
+    handler: async (args) => {
+      const { collection, filter, update, options = {}, approvalToken } = args;
       try {
         const processedFilter = preprocessQuery(filter);
 
@@ -466,7 +522,7 @@ export function registerDocumentTools(server: McpServer, db: Db, mode: string):
         }
 
         // Count documents that would be affected
-        const matchCount = await db.collection(collection).countDocuments(processedFilter);
+        const matchCount = await db.collection(collection).countDocuments(processedFilter, tagOperation());
 
         // Check maxDocuments limit
         if (options.maxDocuments && matchCount > options.maxDocuments) {
@@ -485,7 +541,7 @@ Or increase maxDocuments limit if this is intentional`,
 
         // Dry run mode - show what would be updated
         if (options.dryRun) {
-          const sampleDocs = await db.collection(collection).find(processedFilter).limit(3).toArray();
+          const sampleDocs = await db.collection(collection).find(processedFilter, tagOperation()).limit(3).toArray();
           const smartWarning = getOperationWarning(matchCount, 'update');
 
           const response = {
@@ -493,7 +549,7 @@ Or increase maxDocuments limit if this is intentional`,
             operation: 'updateMany',
             collection,
             wouldMatch: matchCount,
-            sampleDocuments: sampleDocs,
+            sampleDocuments: maskDocuments(sampleDocs),
             updateOperation: update,
             message: smartWarning
           };
@@ -508,6 +564,23 @@ Or increase maxDocuments limit if this is intentional`,
           };
         }
 
+        const refusal = checkApprovalToken(
+          approvalToken,
+          { operation: 'updateMany', connection: connectionName, database: db.databaseName, collection, filter, update },
+          matchCount
+        );
+        if (refusal) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `⚠ Operation blocked: ${refusal}`,
+              },
+            ],
+            isError: true,
+          };
+        }
+
         // Actual execution
         const result = await db.collection(collection).updateMany(processedFilter, update, {
           upsert: options.upsert
@@ -533,16 +606,21 @@ Or increase maxDocuments limit if this is intentional`,
               text: `Error updating documents: ${errorMessage}`,
             },
           ],
+          isError: true,
         };
       }
     },
-    true
-  );
-
-  registerTool(
-    'replaceOne',
-    'Replace a single document that matches the filter',
-    {
+  });
+
+  registry.register({
+    name: 'replaceOne',
+    title: 'Replace Document',
+    category: 'write',
+    access: 'destructive',
+    cost: 'low',
+    annotations: { idempotentHint: true },
+    description: 'Replace a single document that matches the filter',
+    inputSchema: {
       collection: z.string(),
       filter: z.record(z.any()),
       replacement: z.record(z.any()),
@@ -550,12 +628,11 @@ Or increase maxDocuments limit if this is intentional`,
         upsert: z.boolean().optional(),
       }).optional(),
     },
-    async (args) => {
-      logToolUsage('replaceOne', args);
+    handler: async (args) => {
       const { collection, filter, replacement, options = {} } = args;
       try {
         const processedFilter = preprocessQuery(filter);
-        const result = await db.collection(collection).replaceOne(processedFilter, replacement, options);
+        const result = await db.collection(collection).replaceOne(processedFilter, stampTenant(replacement), options);
 
         return {
           content: [
@@ -575,16 +652,20 @@ Or increase maxDocuments limit if this is intentional`,
               text: `Error replacing document: ${errorMessage}`,
             },
           ],
+          isError: true,
         };
       }
     },
-    true
-  );
-
-  registerTool(
-    'findOneAndUpdate',
-    'Find a single document and update it, returning either the original or the updated document',
-    {
+  });
+
+  registry.register({
+    name: 'findOneAndUpdate',
+    title: 'Find and Update Document',
+    category: 'write',
+    access: 'destructive',
+    cost: 'low',
+    description: 'Find a single document and update it, returning either the original or the updated document',
+    inputSchema: {
       collection: z.string(),
       filter: z.record(z.any()),
       update: z.record(z.any()),
@@ -595,8 +676,7 @@ Or increase maxDocuments limit if this is intentional`,
         })
         .optional(),
     },
-    async (args) => {
-      logToolUsage('findOneAndUpdate', args);
+    handler: async (args) => {
       const { collection, filter, update, options = {} } = args;
       try {
         const processedFilter = preprocessQuery(filter);
@@ -620,7 +700,7 @@ Or increase maxDocuments limit if this is intentional`,
             content: [
               {
                 type: 'text',
-                text: JSON.stringify(convertObjectIdsToExtendedJson(result), null, 2),
+                text: JSON.stringify(convertObjectIdsToExtendedJson(maskDocument(result)), null, 2),
               },
             ],
           };
@@ -645,22 +725,25 @@ Or increase maxDocuments limit if this is intentional`,
               text: `Error updating document: ${errorMessage}`,
             },
           ],
+          isError: true,
         };
       }
     },
-    true
-  );
+  });
 
   // Delete operations
-  registerTool(
-    'deleteOne',
-    'Delete a single document that matches the filter',
-    {
+  registry.register({
+    name: 'deleteOne',
+    title: 'Delete Document',
+    category: 'write',
+    access: 'destructive',
+    cost: 'low',
+    description: 'Delete a single document that matches the filter',
+    inputSchema: {
       collection: z.string(),
       filter: z.record(z.any()),
     },
-    async (args) => {
-      logToolUsage('deleteOne', args);
+    handler: async (args) => {
       const { collection, filter } = args;
       try {
         const processedFilter = preprocessQuery(filter);
@@ -683,16 +766,21 @@ Or increase maxDocuments limit if this is intentional`,
               text: `Error deleting document: ${errorMessage}`,
             },
           ],
+          isError: true,
         };
       }
     },
-    true
-  );
-
-  registerTool(
-    'deleteMany',
-    'Delete multiple documents that match the filter. Supports dryRun mode, empty filter protection, and maxDocuments limit.',
-    {
+  });
+
+  registry.register({
+    name: 'deleteMany',
+    title: 'Delete Documents',
+    category: 'write',
+    access: 'destructive',
+    cost: 'high',
+    annotations: { idempotentHint: true },
+    description: 'Delete multiple documents that match the filter. Supports dryRun mode, empty filter protection, and maxDocuments limit. When the client supports elicitation, the user is asked to confirm the deletion. When write approval is required, pass the approvalToken from previewDelete.',
+    inputSchema: {
       collection: z.string(),
       filter: z.record(z.any()),
       options: z.object({
@@ -700,10 +788,30 @@ Or increase maxDocuments limit if this is intentional`,
         allowEmptyFilter: z.boolean().optional(),
         maxDocuments: z.number().positive().optional(),
       }).optional(),
+      approvalToken: z.string().optional(),
+    },
+    confirmation: {
+      preview: async ({ collection, filter, options = {} }) => {
+        if (options.dryRun) return undefined;
+        const processedFilter = preprocessQuery(filter);
+        const matchedCount = await db.collection(collection).countDocuments(processedFilter, tagOperation());
+        // Nothing to delete, or the handler blocks the call for exceeding maxDocuments
+        if (matchedCount === 0 || (options.maxDocuments && matchedCount > options.maxDocuments)) return undefined;
+        return {
+          action: `Delete ${matchedCount.toLocaleString()} document(s) from '${collection}'`,
+          database: db.databaseName,
+          collection,
+          filter,
+          matchedCount,
+          sample: maskDocuments(
+            await db.collection(collection).find(processedFilter, tagOperation()).limit(CONFIRMATION_SAMPLE_SIZE).toArray()
+          ),
+        };
+      },
+      confirmArgs: (args) => ({ ...args, options: { ...args.options, allowEmptyFilter: true } }),
     },
-    async (args) => {
-      logToolUsage('deleteMany', args);
-      const { collection, filter, options = {} } = args;
+    handler: async (args) => {
+      const { collection, filter, options = {}, approvalToken } = args;
       try {
         const processedFilter = preprocessQuery(filter);
 
@@ -721,7 +829,7 @@ Or increase maxDocuments limit if this is intentional`,
         }
 
         // Count documents that would be affected
-        const deleteCount = await db.collection(collection).countDocuments(processedFilter);
+        const deleteCount = await db.collection(collection).countDocuments(processedFilter, tagOperation());
 
         // Check maxDocuments limit
         if (options.maxDocuments && deleteCount > options.maxDocuments) {
@@ -740,7 +848,7 @@ Or increase maxDocuments limit if this is intentional`,
 
         // Dry run mode - show what would be deleted
         if (options.dryRun) {
-          const sampleDocs = await db.collection(collection).find(processedFilter).limit(3).toArray();
+          const sampleDocs = await db.collection(collection).find(processedFilter, tagOperation()).limit(3).toArray();
           const smartWarning = getOperationWarning(deleteCount, 'delete');
 
           const response = {
@@ -748,7 +856,7 @@ Or increase maxDocuments limit if this is intentional`,
             operation: 'deleteMany',
             collection,
             wouldDelete: deleteCount,
-            sampleDocuments: sampleDocs,
+            sampleDocuments: maskDocuments(sampleDocs),
             message: smartWarning
           };
 
@@ -762,6 +870,23 @@ Or increase maxDocuments limit if this is intentional`,
           };
         }
 
+        const refusal = checkApprovalToken(
+          approvalToken,
+          { operation: 'deleteMany', connection: connectionName, database: db.databaseName, collection, filter },
+          deleteCount
+        );
+        if (refusal) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `⚠ Operation blocked: ${refusal}`,
+              },
+            ],
+            isError: true,
+          };
+        }
+
         // Actual execution
         const result = await db.collection(collection).deleteMany(processedFilter);
 
@@ -785,9 +910,9 @@ Or increase maxDocuments limit if this is intentional`,
               text: `Error deleting documents: ${errorMessage}`,
             },
           ],
+          isError: true,
         };
       }
     },
-    true
-  );
+  });
 }
@@ -1,24 +1,20 @@
 import type { Db } from 'mongodb';
-import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
-import { logToolUsage, logError } from '../utils/logger.js';
+import { logError } from '../utils/logger.js';
+import type { ToolRegistry } from './registry.js';
 
-export function registerIndexManagementTools(server: McpServer, db: Db, mode: string): void {
-  const registerTool = (toolName: string, description: string, schema: any, handler: (args?: any) => any, writeOperation = false) => {
-    if (writeOperation && mode === 'read-only') {
-      return;
-    }
-    server.tool(toolName, description, schema, handler);
-  };
-
-  registerTool(
-    'listIndexes',
-    'List all indexes for a collection',
-    {
+export function registerIndexManagementTools(registry: ToolRegistry, db: Db): void {
+  registry.register({
+    name: 'listIndexes',
+    title: 'List Indexes',
+    category: 'indexes',
+    access: 'read',
+    cost: 'low',
+    description: 'List all indexes for a collection',
+    inputSchema: {
       collection: z.string(),
     },
-    async (args) => {
-      logToolUsage('listIndexes', args);
+    handler: async (args) => {
       const { collection } = args;
       try {
         const indexes = await db.collection(collection).listIndexes().toArray();
@@ -40,15 +36,21 @@ export function registerIndexManagementTools(server: McpServer, db: Db, mode: st
               text: `Error listing indexes: ${errorMessage}`,
             },
           ],
+          isError: true,
         };
       }
-    }
-  );
+    },
+  });
 
-  registerTool(
-    'createIndex',
-    'Create an index on a collection',
-    {
+  registry.register({
+    name: 'createIndex',
+    title: 'Create Index',
+    category: 'indexes',
+    access: 'write',
+    cost: 'high',
+    annotations: { idempotentHint: true },
+    description: 'Create an index on a collection',
+    inputSchema: {
       collection: z.string(),
       keys: z.record(z.union([
         z.number(),
@@ -62,8 +64,7 @@ export function registerIndexManagementTools(server: McpServer, db: Db, mode: st
         background: z.boolean().optional(),
       }).optional(),
     },
-    async (args) => {
-      logToolUsage('createIndex', args);
+    handler: async (args) => {
       const { collection, keys, options = {} } = args;
       try {
         const indexName = await db.collection(collection).createIndex(keys, options);
@@ -85,21 +86,25 @@ export function registerIndexManagementTools(server: McpServer, db: Db, mode: st
               text: `Error creating index: ${errorMessage}`,
             },
           ],
+          isError: true,
         };
       }
     },
-    true
-  );
+  });
 
-  registerTool(
-    'dropIndex',
-    'Drop an index from a collection',
-    {
+  registry.register({
+    name: 'dropIndex',
+    title: 'Drop Index',
+    category: 'indexes',
+    access: 'destructive',
+    cost: 'low',
+    annotations: { idempotentHint: true },
+    description: 'Drop an index from a collection',
+    inputSchema: {
       collection: z.string(),
       indexName: z.string(),
     },
-    async (args) => {
-      logToolUsage('dropIndex', args);
+    handler: async (args) => {
       const { collection, indexName } = args;
       try {
         await db.collection(collection).dropIndex(indexName);
@@ -121,9 +126,9 @@ export function registerIndexManagementTools(server: McpServer, db: Db, mode: st
               text: `Error dropping index: ${errorMessage}`,
             },
           ],
+          isError: true,
         };
       }
     },
-    true
-  );
+  });
 }
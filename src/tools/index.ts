@@ -10,77 +10,116 @@ import { registerIndexManagementTools } from './index-management.js';
 import { registerAdvancedOperations } from './advanced-operations.js';
 import { registerDataQualityTools } from './data-quality.js';
 import { registerTemporalTools } from './temporal.js';
-import { withConnectionGuard } from '../utils/connection-guard.js';
-import { validateCollectionName, validateDatabaseName } from '../utils/name-validator.js';
-
-export const COLLECTION_PARAMS = new Set([
-  'collection', 'name', 'source', 'destination', 'referenceCollection', 'foreignCollection',
-]);
-
-export const DATABASE_PARAMS = new Set(['database']);
-
-export function wrapServerWithNameValidation(server: McpServer, dbName: string): McpServer {
-  const originalTool = server.tool.bind(server);
-
-  server.tool = ((...args: unknown[]) => {
-    const lastIndex = args.length - 1;
-
-    if (typeof args[lastIndex] === 'function') {
-      const originalHandler = args[lastIndex] as (handlerArgs: Record<string, unknown>) => Promise<unknown>;
-
-      args[lastIndex] = async (handlerArgs: Record<string, unknown>) => {
-        if (handlerArgs && typeof handlerArgs === 'object') {
-          for (const [key, value] of Object.entries(handlerArgs)) {
-            if (typeof value !== 'string') continue;
-
-            if (COLLECTION_PARAMS.has(key)) {
-              const result = validateCollectionName(value);
-              if (!result.valid) {
-                return {
-                  content: [{ type: 'text' as const, text: `Error: ${result.error}` }],
-                  isError: true,
-                };
-              }
-            }
-
-            if (DATABASE_PARAMS.has(key)) {
-              const result = validateDatabaseName(value, dbName);
-              if (!result.valid) {
-                return {
-                  content: [{ type: 'text' as const, text: `Error: ${result.error}` }],
-                  isError: true,
-                };
-              }
-            }
-          }
-        }
-
-        return originalHandler(handlerArgs);
-      };
-    }
-
-    return (originalTool as (...a: unknown[]) => unknown)(...args);
-  }) as typeof server.tool;
-
-  return server;
+import { registerConnectionTools } from './connection.js';
+import { createToolRegistry, isToolAvailable, matchesToolFilter, registerToolDefinitions } from './registry.js';
+import type { ToolDefinition, ToolMiddleware, ToolRegistry } from './registry.js';
+import {
+  authorizationMiddleware,
+  createCancellationMiddleware,
+  createConfirmationMiddleware,
+  createPolicyMiddleware,
+  createPrivilegeMiddleware,
+  createCollectionChangeMiddleware,
+  createConnectionGuardMiddleware,
+  createEnvironmentMiddleware,
+  createNameValidationMiddleware,
+  errorFormattingMiddleware,
+  tenantScopeMiddleware,
+  usageLoggingMiddleware,
+} from './middleware.js';
+import { clientSupportsElicitation } from '../utils/elicitation.js';
+import { createDocumentCounter } from '../utils/policy-engine.js';
+import type { ConnectionManager } from '../utils/connection-manager.js';
+import type { DatabaseAccessRule, PolicyRule, ToolFilter } from '../types.js';
+
+export { COLLECTION_LIST_TOOLS, COLLECTION_PARAMS, DATABASE_PARAMS } from './middleware.js';
+
+export interface RegisterToolsOptions {
+  /** Enables reconnection and the getConnectionHealth tool */
+  connection?: ConnectionManager;
+  /** Databases besides dbName reachable through `database` arguments */
+  databases?: DatabaseAccessRule[];
+  /** Team-defined rules checked before every call */
+  policies?: PolicyRule[];
+  /** Environment label such as 'production'; production connections get stricter guardrails */
+  environment?: string;
+  /** Connection name shown next to the environment label in responses */
+  connectionName?: string;
+  /** Limits the exposed tools by name and category */
+  toolFilter?: ToolFilter;
+  /** Called after a tool creates or drops a collection */
+  onCollectionsChanged?: () => void;
+  /** Whether the client can answer elicitation requests; enables user confirmation of destructive calls */
+  supportsElicitation?: () => boolean;
 }
 
-function wrapServerWithConnectionGuard(server: McpServer): McpServer {
-  const originalTool = server.tool.bind(server);
-
-  server.tool = ((...args: unknown[]) => {
-    const toolName = args[0] as string;
-    const lastIndex = args.length - 1;
-
-    if (typeof args[lastIndex] === 'function') {
-      const originalHandler = args[lastIndex] as (...handlerArgs: unknown[]) => Promise<unknown>;
-      args[lastIndex] = withConnectionGuard(toolName, originalHandler);
-    }
+/**
+ * Collects every tool definition for one database, regardless of mode.
+ * Mode gating happens when the definitions are exposed.
+ */
+export function buildToolRegistry(
+  client: MongoClient,
+  db: Db,
+  dbName: string,
+  mode: string,
+  options: RegisterToolsOptions = {}
+): ToolRegistry {
+  const { connection, databases = [], connectionName = dbName } = options;
+  const registry = createToolRegistry();
+
+  registerDatabaseTools(registry, client);
+  registerCollectionTools(registry, db);
+  registerDocumentTools(registry, db, connectionName);
+  registerSchemaTools(registry, db, options.policies);
+  registerIndexManagementTools(registry, db);
+  registerAdvancedOperations(registry, db, mode, connectionName);
+  registerDataQualityTools(registry, db);
+  registerTemporalTools(registry, db);
+  registerMonitoringTools(registry, client, db, dbName, mode, databases);
+  registerLiveMonitoringTools(registry, db, mode);
+  if (connection) {
+    registerConnectionTools(registry, connection);
+  }
+
+  return registry;
+}
 
-    return (originalTool as (...a: unknown[]) => unknown)(...args);
-  }) as typeof server.tool;
+/** The definitions a server in this mode exposes after applying the tool filter */
+export function selectTools(registry: ToolRegistry, mode: string, toolFilter?: ToolFilter): ToolDefinition[] {
+  return registry
+    .list()
+    .filter((definition) => isToolAvailable(definition, mode) && matchesToolFilter(definition, toolFilter));
+}
 
-  return server;
+/** The steps every tool call passes through, outermost first */
+export function createToolPipeline(dbName: string, options: RegisterToolsOptions = {}): ToolMiddleware[] {
+  const { connection, databases = [], policies = [], environment, onCollectionsChanged, supportsElicitation } = options;
+  const pipeline: ToolMiddleware[] = [];
+  if (environment) {
+    pipeline.push(createEnvironmentMiddleware(options.connectionName ?? dbName, environment));
+  }
+  pipeline.push(
+    errorFormattingMiddleware,
+    authorizationMiddleware,
+    createNameValidationMiddleware(dbName, databases),
+    usageLoggingMiddleware,
+    createCancellationMiddleware(connection?.client),
+    createConnectionGuardMiddleware(connection)
+  );
+  if (connection) {
+    pipeline.push(createPrivilegeMiddleware(connection, dbName));
+  }
+  pipeline.push(tenantScopeMiddleware);
+  if (policies.length > 0) {
+    pipeline.push(createPolicyMiddleware(policies, connection && createDocumentCounter(connection.client.db(dbName))));
+  }
+  if (supportsElicitation) {
+    pipeline.push(createConfirmationMiddleware(supportsElicitation));
+  }
+  if (onCollectionsChanged) {
+    pipeline.push(createCollectionChangeMiddleware(onCollectionsChanged));
+  }
+  return pipeline;
 }
 
 export function registerAllTools(
@@ -88,19 +127,13 @@ export function registerAllTools(
   client: MongoClient,
   db: Db,
   dbName: string,
-  mode: string
+  mode: string,
+  options: RegisterToolsOptions = {}
 ): void {
-  const validatedServer = wrapServerWithNameValidation(server, dbName);
-  const guardedServer = wrapServerWithConnectionGuard(validatedServer);
-
-  registerDatabaseTools(guardedServer, client, mode);
-  registerCollectionTools(guardedServer, db, mode);
-  registerDocumentTools(guardedServer, db, mode);
-  registerSchemaTools(guardedServer, db);
-  registerIndexManagementTools(guardedServer, db, mode);
-  registerAdvancedOperations(guardedServer, db, mode);
-  registerDataQualityTools(guardedServer, db, mode);
-  registerTemporalTools(guardedServer, db, mode);
-  registerMonitoringTools(guardedServer, client, db, dbName, mode);
-  registerLiveMonitoringTools(guardedServer, db, mode);
+  const registry = buildToolRegistry(client, db, dbName, mode, options);
+  const pipeline = createToolPipeline(dbName, {
+    supportsElicitation: () => clientSupportsElicitation(server),
+    ...options,
+  });
+  registerToolDefinitions(server, selectTools(registry, mode, options.toolFilter), pipeline);
 }
@@ -1,7 +1,6 @@
 import type { Db } from 'mongodb';
-import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
-import { logToolUsage, logError } from '../utils/logger.js';
+import { logError } from '../utils/logger.js';
 import { checkAdminRateLimit, ADMIN_RATE_LIMIT } from '../utils/rate-limiter.js';
 import { sanitizeResponse } from '../utils/sanitize.js';
 import { MAX_MONITORING_DURATION, MIN_MONITORING_INTERVAL, MAX_MONITORING_LIMIT } from '../utils/query-limits.js';
@@ -18,25 +17,26 @@ import type {
   CurrentOpResult
 } from '../types.js';
 import { filterSlowOperation } from '../utils/response-filter.js';
-
-export function registerLiveMonitoringTools(server: McpServer, db: Db, mode: string): void {
-  const registerTool = (toolName: string, description: string, schema: any, handler: (args?: any) => any, writeOperation = false) => {
-    if (writeOperation && mode === 'read-only') {
-      return;
-    }
-    server.tool(toolName, description, schema, handler);
-  };
-
-  registerTool(
-    'getLiveMetrics',
-    'Get real-time performance metrics with continuous updates. Use includeRawSamples=false to get just the summary for token efficiency.',
-    {
+import { resolveEffectiveMode } from '../utils/tool-authorization.js';
+import { createProgressReporter } from '../utils/progress.js';
+import { tagOperation } from '../utils/cancellation.js';
+import { maskOperation } from '../utils/pii-masking.js';
+import type { ToolRegistry } from './registry.js';
+
+export function registerLiveMonitoringTools(registry: ToolRegistry, db: Db, mode: string): void {
+  registry.register({
+    name: 'getLiveMetrics',
+    title: 'Live Metrics',
+    category: 'monitoring',
+    access: 'read',
+    cost: 'high',
+    description: 'Get real-time performance metrics with continuous updates. Use includeRawSamples=false to get just the summary for token efficiency.',
+    inputSchema: {
       duration: z.number().positive().max(MAX_MONITORING_DURATION).optional(),
       interval: z.number().min(MIN_MONITORING_INTERVAL).max(MAX_MONITORING_DURATION).optional(),
       includeRawSamples: z.boolean().optional(),
     },
-    async (args) => {
-      logToolUsage('getLiveMetrics', args);
+    handler: async (args, extra) => {
       const { duration = 60000, interval = 1000, includeRawSamples = false } = args;
 
       if (!checkAdminRateLimit('getLiveMetrics')) {
@@ -53,10 +53,12 @@ export function registerLiveMonitoringTools(server: McpServer, db: Db, mode: str
       try {
         const startTime = Date.now();
         const metrics: LiveMetric[] = [];
+        const progress = createProgressReporter(extra);
+        const expectedSamples = Math.ceil(duration / interval);
 
         let previousStatus = await db.admin().command({ serverStatus: 1 }) as ServerStatus;
 
-        while (Date.now() - startTime < duration) {
+        while (Date.now() - startTime < duration && !extra?.signal?.aborted) {
           const remaining = duration - (Date.now() - startTime);
           if (remaining <= 0) break;
           await new Promise(resolve => setTimeout(resolve, Math.min(interval, remaining)));
@@ -98,6 +100,11 @@ export function registerLiveMonitoringTools(server: McpServer, db: Db, mode: str
           });
 
           previousStatus = currentStatus;
+          await progress.report(
+            metrics.length,
+            expectedSamples,
+            `Took ${metrics.length} of ${expectedSamples} samples (${Date.now() - startTime}ms of ${duration}ms)`
+          );
         }
 
         const summary = {
@@ -141,20 +148,24 @@ export function registerLiveMonitoringTools(server: McpServer, db: Db, mode: str
               text: `Error getting live metrics: ${errorMessage}`,
             },
           ],
+          isError: true,
         };
       }
-    }
-  );
-
-  registerTool(
-    'getHottestCollections',
-    'Get collections with highest activity based on operation counts',
-    {
+    },
+  });
+
+  registry.register({
+    name: 'getHottestCollections',
+    title: 'Hottest Collections',
+    category: 'monitoring',
+    access: 'read',
+    cost: 'high',
+    description: 'Get collections with highest activity based on operation counts',
+    inputSchema: {
       limit: z.number().positive().max(MAX_MONITORING_LIMIT).optional(),
       sampleDuration: z.number().positive().max(MAX_MONITORING_DURATION).optional(),
     },
-    async (args) => {
-      logToolUsage('getHottestCollections', args);
+    handler: async (args, extra) => {
       const { limit = 10, sampleDuration = 5000 } = args;
 
       try {
@@ -182,9 +193,10 @@ export function registerLiveMonitoringTools(server: McpServer, db: Db, mode: str
         }
 
         const operationCounts = new Map<string, number>();
+        const progress = createProgressReporter(extra);
         const startTime = Date.now();
 
-        while (Date.now() - startTime < sampleDuration) {
+        while (Date.now() - startTime < sampleDuration && !extra?.signal?.aborted) {
           const currentOps = await db.admin().command({
             currentOp: true,
             "$all": true
@@ -200,6 +212,8 @@ export function registerLiveMonitoringTools(server: McpServer, db: Db, mode: str
           });
 
           await new Promise(resolve => setTimeout(resolve, 100));
+          const elapsed = Math.min(Date.now() - startTime, sampleDuration);
+          await progress.report(elapsed, sampleDuration, `Sampled operations for ${elapsed}ms of ${sampleDuration}ms`);
         }
 
         const finalStatus = await db.admin().command({ serverStatus: 1 }) as ServerStatus;
@@ -262,20 +276,24 @@ export function registerLiveMonitoringTools(server: McpServer, db: Db, mode: str
               text: `Error getting hottest collections: ${errorMessage}`,
             },
           ],
+          isError: true,
         };
       }
-    }
-  );
-
-  registerTool(
-    'getCollectionMetrics',
-    'Get detailed performance metrics for a specific collection. Use includeWiredTiger=false for token efficiency.',
-    {
+    },
+  });
+
+  registry.register({
+    name: 'getCollectionMetrics',
+    title: 'Collection Metrics',
+    category: 'monitoring',
+    access: 'read',
+    cost: 'medium',
+    description: 'Get detailed performance metrics for a specific collection. Use includeWiredTiger=false for token efficiency.',
+    inputSchema: {
       collection: z.string(),
       includeWiredTiger: z.boolean().optional(),
     },
-    async (args) => {
-      logToolUsage('getCollectionMetrics', args);
+    handler: async (args) => {
       const { collection, includeWiredTiger = false } = args;
 
       try {
@@ -297,7 +315,7 @@ export function registerLiveMonitoringTools(server: McpServer, db: Db, mode: str
         try {
           indexUsage = await db.collection(collection).aggregate([
             { $indexStats: {} }
-          ]).toArray() as IndexUsageStat[];
+          ], tagOperation()).toArray() as IndexUsageStat[];
         } catch (e) {
           // $indexStats might not be available
         }
@@ -314,7 +332,7 @@ export function registerLiveMonitoringTools(server: McpServer, db: Db, mode: str
           const profileStatus = await db.command({ profile: -1 }) as ProfilerStatus;
           if (profileStatus.was > 0) {
             recentOps = await db.collection('system.profile')
-              .find({ ns: `${db.databaseName}.${collection}` })
+              .find({ ns: `${db.databaseName}.${collection}` }, tagOperation())
               .sort({ ts: -1 })
               .limit(100)
               .toArray() as unknown as ProfilerEntry[];
@@ -416,22 +434,26 @@ export function registerLiveMonitoringTools(server: McpServer, db: Db, mode: str
               text: `Error getting collection metrics: ${errorMessage}`,
             },
           ],
+          isError: true,
         };
       }
-    }
-  );
-
-  registerTool(
-    'getSlowestOperations',
-    'Get slow operations from both profiler and currently running operations. Use includeQueryDetails=false for token efficiency. Note: Enabling profiling requires read-write mode.',
-    {
+    },
+  });
+
+  registry.register({
+    name: 'getSlowestOperations',
+    title: 'Slowest Operations',
+    category: 'monitoring',
+    access: 'read',
+    cost: 'medium',
+    description: 'Get slow operations from both profiler and currently running operations. Use includeQueryDetails=false for token efficiency. Note: Enabling profiling requires read-write mode.',
+    inputSchema: {
       minDuration: z.number().min(0).optional(),
       limit: z.number().positive().optional(),
       includeRunning: z.boolean().optional(),
       includeQueryDetails: z.boolean().optional(),
     },
-    async (args) => {
-      logToolUsage('getSlowestOperations', args);
+    handler: async (args, extra) => {
       const { minDuration = 100, limit = 10, includeRunning = true, includeQueryDetails = false } = args;
 
       try {
@@ -453,7 +475,7 @@ export function registerLiveMonitoringTools(server: McpServer, db: Db, mode: str
           result.profilingStatus = profileStatus;
 
           if (profileStatus.was === 0) {
-            if (mode === 'read-write') {
+            if (resolveEffectiveMode(mode, extra?.authInfo) === 'read-write') {
               try {
                 originalProfilingLevel = profileStatus.was;
                 originalSlowMs = profileStatus.slowms ?? 100;
@@ -475,12 +497,12 @@ export function registerLiveMonitoringTools(server: McpServer, db: Db, mode: str
             .find({
               millis: { $gte: minDuration },
               ns: { $ne: `${db.databaseName}.system.profile` }
-            })
+            }, tagOperation())
             .sort({ ts: -1 })
             .limit(limit)
             .toArray();
 
-          result.profiledOperations = profiledOps.map(op => ({
+          result.profiledOperations = profiledOps.map(maskOperation).map(op => ({
             operation: op.op,
             namespace: op.ns,
             duration: op.millis,
@@ -519,6 +541,7 @@ export function registerLiveMonitoringTools(server: McpServer, db: Db, mode: str
             .filter((op) => op.active && op.microsecs_running >= minDuration * 1000)
             .sort((a, b) => b.microsecs_running - a.microsecs_running)
             .slice(0, limit)
+            .map(maskOperation)
             .map((op): SlowOperation => ({
               operation: op.op,
               namespace: op.ns,
@@ -583,8 +606,9 @@ export function registerLiveMonitoringTools(server: McpServer, db: Db, mode: str
               text: `Error getting slow operations: ${errorMessage}`,
             },
           ],
+          isError: true,
         };
       }
-    }
-  );
+    },
+  });
 }
@@ -0,0 +1,359 @@
+import type { MongoClient } from 'mongodb';
+import { withConnectionGuard } from '../utils/connection-guard.js';
+import {
+  createOperationComment,
+  killTaggedOperations,
+  OperationCancelledError,
+  runWithOperationComment,
+} from '../utils/cancellation.js';
+import type { ConnectionManager } from '../utils/connection-manager.js';
+import { requestConfirmation } from '../utils/elicitation.js';
+import { checkPolicies } from '../utils/policy-engine.js';
+import {
+  capProductionArgs,
+  getProductionLimits,
+  isAnalyticsTool,
+  isProduction,
+  runWithGuardrails,
+} from '../utils/production-guardrails.js';
+import { checkToolPrivileges } from '../utils/privileges.js';
+import { checkTenantScope } from '../utils/tenant-scope.js';
+import type { DocumentCounter } from '../utils/policy-engine.js';
+import { validateCollectionName, validateDatabaseName } from '../utils/name-validator.js';
+import { authorizeToolCall, getTokenGrant } from '../utils/tool-authorization.js';
+import { logError, logToolUsage } from '../utils/logger.js';
+import { redactString } from '../utils/uri-redactor.js';
+import { checkCallApproval, issueCallApproval, PREVIEWED_WRITES } from '../utils/write-approval.js';
+import { isWriteAccess } from './registry.js';
+import type { ToolCallContext, ToolMiddleware, ToolResult } from './registry.js';
+import type { DatabaseAccessRule, PolicyRule } from '../types.js';
+
+export const COLLECTION_PARAMS = new Set([
+  'collection', 'name', 'source', 'destination', 'referenceCollection', 'foreignCollection',
+]);
+
+export const DATABASE_PARAMS = new Set(['database']);
+
+/** Tools whose successful calls change the database's collection list */
+export const COLLECTION_LIST_TOOLS = new Set(['createCollection', 'dropCollection']);
+
+function errorResult(text: string): ToolResult {
+  return {
+    content: [{ type: 'text', text: `Error: ${text}` }],
+    isError: true,
+  };
+}
+
+/** Turns anything a handler throws into a logged, uniformly formatted tool error */
+export const errorFormattingMiddleware: ToolMiddleware = async (context, next) => {
+  try {
+    return await next();
+  } catch (error) {
+    const toolName = context.definition.name;
+    logError(toolName, error, context.args);
+    const message = redactString(error instanceof Error ? error.message : String(error));
+    return {
+      content: [{ type: 'text', text: `Error in ${toolName}: ${message}` }],
+      isError: true,
+    };
+  }
+};
+
+export const authorizationMiddleware: ToolMiddleware = async (context, next) => {
+  const { definition, args, extra } = context;
+  const result = authorizeToolCall(definition.name, isWriteAccess(definition.access), getTokenGrant(extra?.authInfo));
+  if (!result.allowed) {
+    logError(definition.name, new Error(`Authorization denied: ${result.error}`), args);
+    return errorResult(result.error ?? 'not authorized');
+  }
+  return next();
+};
+
+export function createNameValidationMiddleware(dbName: string, databases: DatabaseAccessRule[] = []): ToolMiddleware {
+  return async (context, next) => {
+    const { definition, args } = context;
+    if (!args || typeof args !== 'object') {
+      return next();
+    }
+
+    for (const [key, value] of Object.entries(args)) {
+      if (typeof value !== 'string') continue;
+
+      if (COLLECTION_PARAMS.has(key)) {
+        const result = validateCollectionName(value);
+        if (!result.valid) {
+          return errorResult(result.error ?? 'invalid collection name');
+        }
+      }
+
+      if (DATABASE_PARAMS.has(key)) {
+        const result = validateDatabaseName(value, dbName, databases, isWriteAccess(definition.access));
+        if (!result.valid) {
+          return errorResult(result.error ?? 'invalid database name');
+        }
+      }
+    }
+
+    return next();
+  };
+}
+
+/**
+ * Reconnects after connection errors and re-runs read tools once. Connection
+ * tools skip the guard so they keep answering while the database is down.
+ */
+export function createConnectionGuardMiddleware(connection?: ConnectionManager): ToolMiddleware {
+  return async (context, next) => {
+    const { definition, args } = context;
+    if (definition.category === 'connection') {
+      return next();
+    }
+
+    const guarded = withConnectionGuard(definition.name, () => next(), {
+      connection,
+      retryable: !isWriteAccess(definition.access),
+    });
+    return guarded(args);
+  };
+}
+
+export const usageLoggingMiddleware: ToolMiddleware = async (context, next) => {
+  logToolUsage(context.definition.name, context.args);
+  return next();
+};
+
+/**
+ * Reports collections created or dropped through the tools, so the server can
+ * tell clients to re-list its collection resources. Dry runs and drops blocked
+ * for lack of confirmation change nothing and are not reported.
+ */
+export function createCollectionChangeMiddleware(onCollectionsChanged: () => void): ToolMiddleware {
+  return async (context, next) => {
+    const result = await next();
+
+    const { definition, args } = context;
+    const applied = args?.dryRun !== true && (definition.access !== 'destructive' || args?.confirm === true);
+    if (COLLECTION_LIST_TOOLS.has(definition.name) && applied && !result.isError) {
+      onCollectionsChanged();
+    }
+    return result;
+  };
+}
+
+function cancelledResult(toolName: string, killed: number): ToolResult {
+  const stopped = killed > 0 ? ` Killed ${killed} running database operation${killed === 1 ? '' : 's'}.` : '';
+  return {
+    content: [{ type: 'text', text: `Cancelled: ${toolName} was cancelled by the client.${stopped}` }],
+    isError: true,
+  };
+}
+
+/**
+ * Tags the database operations of each call with a unique comment and, when
+ * the client cancels a read, kills them on the server instead of letting them
+ * run to completion. Writes run to completion: killing a multi-document write
+ * would leave it partly applied.
+ */
+export function createCancellationMiddleware(client?: MongoClient): ToolMiddleware {
+  return async (context, next) => {
+    const { definition, extra } = context;
+    const signal: AbortSignal | undefined = extra?.signal;
+    if (signal?.aborted) {
+      return cancelledResult(definition.name, 0);
+    }
+
+    const comment = createOperationComment(definition.name);
+    const work = runWithOperationComment(comment, signal, next);
+    if (!signal || isWriteAccess(definition.access)) {
+      return work;
+    }
+
+    let onAbort!: () => void;
+    const aborted = new Promise<void>((resolve) => {
+      onAbort = resolve;
+      signal.addEventListener('abort', onAbort, { once: true });
+    });
+
+    try {
+      const outcome = await Promise.race([work.then((result) => ({ result })), aborted.then(() => undefined)]);
+      if (outcome) {
+        return outcome.result;
+      }
+    } catch (error) {
+      if (!(error instanceof OperationCancelledError)) {
+        throw error;
+      }
+    } finally {
+      signal.removeEventListener('abort', onAbort);
+    }
+
+    // The handler keeps running until its killed operation fails; nobody awaits it now
+    work.catch(() => undefined);
+
+    let killed = 0;
+    if (client) {
+      try {
+        killed = await killTaggedOperations(client, comment);
+      } catch (error) {
+        logError(definition.name, new Error(`Could not kill cancelled operations: ${error instanceof Error ? error.message : String(error)}`));
+      }
+    }
+    return cancelledResult(definition.name, killed);
+  };
+}
+
+/**
+ * Asks the user to confirm destructive calls through MCP elicitation when the
+ * client supports it, whatever confirmation flags the model set. The call only
+ * runs on explicit acceptance, with its confirmation flags set. Other clients
+ * keep relying on the flags.
+ */
+export function createConfirmationMiddleware(supportsElicitation: () => boolean): ToolMiddleware {
+  return async (context, next) => {
+    const { definition, args, extra } = context;
+    if (!definition.confirmation || !extra?.sendRequest || !supportsElicitation()) {
+      return next();
+    }
+
+    const preview = await definition.confirmation.preview(args);
+    if (!preview) {
+      return next();
+    }
+
+    if (!(await requestConfirmation(extra, preview))) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Operation cancelled: the user did not confirm ${definition.name} on '${preview.collection}'. Nothing was changed.`,
+          },
+        ],
+      };
+    }
+
+    context.args = definition.confirmation.confirmArgs(args);
+    return next();
+  };
+}
+
+/**
+ * Refuses calls that break a configured policy rule, naming the rule. Runs
+ * before confirmation prompts, so users are never asked to approve a call the
+ * policies refuse anyway.
+ */
+export function createPolicyMiddleware(policies: PolicyRule[], countDocuments?: DocumentCounter): ToolMiddleware {
+  return async (context, next) => {
+    const { definition, args } = context;
+    const refusal = await checkPolicies(policies, definition.name, args, countDocuments);
+    if (refusal) {
+      logError(definition.name, new Error(`Policy refusal: ${refusal}`), args);
+      return errorResult(refusal);
+    }
+    return next();
+  };
+}
+
+/** Refuses calls the connected user lacks the privileges for, rather than letting MongoDB reject them */
+export function createPrivilegeMiddleware(connection: ConnectionManager, dbName: string): ToolMiddleware {
+  return async (context, next) => {
+    const { definition, args } = context;
+    const database = typeof args.database === 'string' ? args.database : dbName;
+    const refusal = checkToolPrivileges(connection.getPrivileges(), definition.name, definition.access, database, args);
+    if (refusal) {
+      logError(definition.name, new Error(`Privilege refusal: ${refusal}`), args);
+      return errorResult(refusal);
+    }
+    return next();
+  };
+}
+
+/** Refuses calls that would reach beyond the tenant scope; passes everything through when none is set */
+export const tenantScopeMiddleware: ToolMiddleware = async (context, next) => {
+  const { definition, args } = context;
+  const refusal = checkTenantScope(definition.name, args);
+  if (refusal) {
+    logError(definition.name, new Error(`Tenant scope refusal: ${refusal}`), args);
+    return errorResult(refusal);
+  }
+  return next();
+};
+
+/** The first line of every response on a labelled connection, e.g. "[PRODUCTION] connection 'prod'" */
+export function formatEnvironmentLabel(connectionName: string, environment: string): string {
+  return `[${isProduction(environment) ? environment.toUpperCase() : environment}] connection '${connectionName}'`;
+}
+
+export function prependLabel(result: ToolResult, label: string): ToolResult {
+  return { ...result, content: [{ type: 'text', text: label }, ...result.content] };
+}
+
+function isDryRun(args: Record<string, unknown>): boolean {
+  const options = args.options as Record<string, unknown> | undefined;
+  return args.dryRun === true || options?.dryRun === true;
+}
+
+/**
+ * Write calls on production connections other than the previewed bulk writes
+ * run only when repeated with the approvalToken the first call returned.
+ * Resolves to the arguments to run with, or the refusal to return.
+ */
+function checkProductionWrite(
+  connectionName: string,
+  context: ToolCallContext
+): { args: Record<string, unknown> } | { refusal: ToolResult } {
+  const { definition } = context;
+  const { approvalToken, ...args } = context.args;
+  if (!isWriteAccess(definition.access) || PREVIEWED_WRITES.has(definition.name) || isDryRun(args)) {
+    return { args: context.args };
+  }
+
+  const subject = { connection: connectionName, tool: definition.name, args };
+  if (typeof approvalToken !== 'string') {
+    const grant = issueCallApproval(subject);
+    return {
+      refusal: errorResult(
+        `${definition.name} changes data on a production connection and needs approval. Check the arguments with the user, then call ${definition.name} again with the same arguments and approvalToken '${grant.approvalToken}' (valid until ${grant.approvalExpiresAt}).`
+      ),
+    };
+  }
+  const refusal = checkCallApproval(approvalToken, subject);
+  return refusal ? { refusal: errorResult(refusal) } : { args };
+}
+
+/**
+ * Labels every response of a connection with its environment, refusals and
+ * errors included, so it runs outermost. On production connections it also
+ * lowers limits and monitoring durations to the production caps and runs the
+ * call under the production guardrails: maxTimeMS on every read, secondary
+ * reads for analytics tools, approval tokens for bulk writes and a repeated
+ * call with an approvalToken for every other write.
+ */
+export function createEnvironmentMiddleware(connectionName: string, environment: string): ToolMiddleware {
+  const production = isProduction(environment);
+  const label = formatEnvironmentLabel(connectionName, environment);
+
+  return async (context, next) => {
+    const { definition } = context;
+    let capped: string[] = [];
+    let run = next;
+    if (production) {
+      const limited = capProductionArgs(definition.name, context.args);
+      capped = limited.capped;
+      const approval = checkProductionWrite(connectionName, { ...context, args: limited.args });
+      if ('refusal' in approval) {
+        return prependLabel(approval.refusal, label);
+      }
+      context.args = approval.args;
+      const analytics = definition.access === 'read' && isAnalyticsTool(definition.name, definition.category);
+      const guardrails = {
+        maxTimeMS: getProductionLimits().maxTimeMS,
+        readPreference: analytics ? ('secondaryPreferred' as const) : undefined,
+        requireApproval: true,
+      };
+      run = () => runWithGuardrails(guardrails, next);
+    }
+
+    const result = await run();
+    return prependLabel(result, capped.length > 0 ? `${label} (${capped.join(', ')})` : label);
+  };
+}
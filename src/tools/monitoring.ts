@@ -1,27 +1,35 @@
 import type { Db, MongoClient } from 'mongodb';
-import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
-import { logToolUsage, logError } from '../utils/logger.js';
+import { logError } from '../utils/logger.js';
 import { checkAdminRateLimit, ADMIN_RATE_LIMIT } from '../utils/rate-limiter.js';
 import { sanitizeResponse } from '../utils/sanitize.js';
 import { validateAdminCommandParams, isWriteAdminCommand } from '../utils/admin-command-validator.js';
 import { preprocessQuery } from '../utils/query-preprocessor.js';
 import { redactAdminResponse } from '../utils/admin-response-redactor.js';
-import type { CurrentOpCommand, CurrentOpResult, ServerStatus, VerbosityLevel } from '../types.js';
+import type { CurrentOpCommand, CurrentOpResult, DatabaseAccessRule, ServerStatus, VerbosityLevel } from '../types.js';
+import { validateDatabaseName } from '../utils/name-validator.js';
+import { resolveEffectiveMode } from '../utils/tool-authorization.js';
 import { filterServerStatus, filterDatabaseStats, filterProfilerEntry, excludeZeroMetrics } from '../utils/response-filter.js';
-
-export function registerMonitoringTools(server: McpServer, client: MongoClient, db: Db, dbName: string, mode: string): void {
-  const registerTool = (toolName: string, description: string, schema: any, handler: (args?: any) => any, writeOperation = false) => {
-    if (writeOperation && mode === 'read-only') {
-      return;
-    }
-    server.tool(toolName, description, schema, handler);
-  };
-
-  registerTool(
-    'getServerStatus',
-    'Get server status and performance metrics. Use includeWiredTiger/includeReplication/includeStorageEngine flags to control detail level for token efficiency.',
-    {
+import { tagOperation } from '../utils/cancellation.js';
+import { maskOperation } from '../utils/pii-masking.js';
+import type { ToolRegistry } from './registry.js';
+
+export function registerMonitoringTools(
+  registry: ToolRegistry,
+  client: MongoClient,
+  db: Db,
+  dbName: string,
+  mode: string,
+  databases: DatabaseAccessRule[] = []
+): void {
+  registry.register({
+    name: 'getServerStatus',
+    title: 'Server Status',
+    category: 'monitoring',
+    access: 'read',
+    cost: 'low',
+    description: 'Get server status and performance metrics. Use includeWiredTiger/includeReplication/includeStorageEngine flags to control detail level for token efficiency.',
+    inputSchema: {
       includeHost: z.boolean().optional(),
       includeMetrics: z.array(z.enum(['connections', 'opcounters', 'mem', 'network', 'globalLock', 'asserts'])).optional(),
       includeWiredTiger: z.boolean().optional(),
@@ -29,8 +37,7 @@ export function registerMonitoringTools(server: McpServer, client: MongoClient,
       includeStorageEngine: z.boolean().optional(),
       excludeZeroMetrics: z.boolean().optional(),
     },
-    async (args) => {
-      logToolUsage('getServerStatus', args);
+    handler: async (args) => {
       const {
         includeHost = false,
         includeMetrics,
@@ -120,23 +127,27 @@ export function registerMonitoringTools(server: McpServer, client: MongoClient,
               text: `Error getting server status: ${errorMessage}`,
             },
           ],
+          isError: true,
         };
       }
-    }
-  );
-
-  registerTool(
-    'getDatabaseStats',
-    'Get database statistics and storage metrics. Use verbosity to control detail level (summary=most efficient).',
-    {
+    },
+  });
+
+  registry.register({
+    name: 'getDatabaseStats',
+    title: 'Database Statistics',
+    category: 'explore',
+    access: 'read',
+    cost: 'low',
+    description: 'Get database statistics and storage metrics. Use verbosity to control detail level (summary=most efficient).',
+    inputSchema: {
       database: z.string().optional(),
       scale: z.number().positive().optional(),
       indexDetails: z.boolean().optional(),
       verbosity: z.enum(['summary', 'standard', 'full']).optional(),
       excludeZeroMetrics: z.boolean().optional(),
     },
-    async (args) => {
-      logToolUsage('getDatabaseStats', args);
+    handler: async (args) => {
       const {
         database = dbName,
         scale = 1,
@@ -182,21 +193,26 @@ export function registerMonitoringTools(server: McpServer, client: MongoClient,
               text: `Error getting database stats: ${errorMessage}`,
             },
           ],
+          isError: true,
         };
       }
-    }
-  );
-
-  registerTool(
-    'runAdminCommand',
-    'Execute arbitrary admin commands on the database',
-    {
+    },
+  });
+
+  registry.register({
+    name: 'runAdminCommand',
+    title: 'Run Admin Command',
+    category: 'monitoring',
+    access: 'read',
+    cost: 'medium',
+    annotations: { readOnlyHint: false, idempotentHint: false },
+    description: 'Execute arbitrary admin commands on the database',
+    inputSchema: {
       command: z.record(z.any()),
       database: z.string().optional(),
       timeout: z.number().positive().optional(),
     },
-    async (args) => {
-      logToolUsage('runAdminCommand', args);
+    handler: async (args, extra) => {
       const { command, database = dbName, timeout = 30000 } = args;
 
       if (!checkAdminRateLimit('runAdminCommand')) {
@@ -230,7 +246,7 @@ export function registerMonitoringTools(server: McpServer, client: MongoClient,
         };
       }
 
-      if (mode === 'read-only' && isWriteAdminCommand(commandName, command)) {
+      if (resolveEffectiveMode(mode, extra?.authInfo) === 'read-only' && isWriteAdminCommand(commandName, command)) {
         return {
           content: [
             {
@@ -241,6 +257,20 @@ export function registerMonitoringTools(server: McpServer, client: MongoClient,
         };
       }
 
+      if (isWriteAdminCommand(commandName, command)) {
+        const access = validateDatabaseName(database, dbName, databases, true);
+        if (!access.valid) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `Command '${commandName}' can modify server state: ${access.error}`,
+              },
+            ],
+          };
+        }
+      }
+
       const paramValidation = validateAdminCommandParams(command, commandName);
       if (!paramValidation.valid) {
         return {
@@ -285,17 +315,21 @@ export function registerMonitoringTools(server: McpServer, client: MongoClient,
               text: `Error executing admin command: ${errorMessage}`,
             },
           ],
+          isError: true,
         };
       }
-    }
-  );
-
-  registerTool(
-    'getConnectionPoolStats',
-    'Get connection pool statistics and monitoring metrics',
-    {},
-    async () => {
-      logToolUsage('getConnectionPoolStats', {});
+    },
+  });
+
+  registry.register({
+    name: 'getConnectionPoolStats',
+    title: 'Connection Pool Statistics',
+    category: 'monitoring',
+    access: 'read',
+    cost: 'low',
+    description: 'Get connection pool statistics and monitoring metrics',
+    inputSchema: {},
+    handler: async () => {
       try {
         const serverStatus = await db.admin().command({ serverStatus: 1 });
 
@@ -332,15 +366,20 @@ export function registerMonitoringTools(server: McpServer, client: MongoClient,
               text: `Error getting connection pool stats: ${errorMessage}`,
             },
           ],
+          isError: true,
         };
       }
-    }
-  );
-
-  registerTool(
-    'getCurrentOperations',
-    'Get currently running operations on the database',
-    {
+    },
+  });
+
+  registry.register({
+    name: 'getCurrentOperations',
+    title: 'Current Operations',
+    category: 'monitoring',
+    access: 'read',
+    cost: 'low',
+    description: 'Get currently running operations on the database',
+    inputSchema: {
       allUsers: z.boolean().optional(),
       idleConnections: z.boolean().optional(),
       idleCursors: z.boolean().optional(),
@@ -348,8 +387,7 @@ export function registerMonitoringTools(server: McpServer, client: MongoClient,
       truncateOps: z.boolean().optional(),
       excludeSensitiveData: z.boolean().optional(),
     },
-    async (args) => {
-      logToolUsage('getCurrentOperations', args);
+    handler: async (args) => {
       const {
         allUsers = true,
         idleConnections = false,
@@ -383,7 +421,7 @@ export function registerMonitoringTools(server: McpServer, client: MongoClient,
 
         const result = await db.admin().command(currentOpCommand) as CurrentOpResult;
 
-        let operations = result.inprog || [];
+        let operations = (result.inprog || []).map(maskOperation);
         if (!idleConnections) {
           operations = operations.filter((op) => op.active || op.op !== 'none');
         }
@@ -437,23 +475,27 @@ export function registerMonitoringTools(server: McpServer, client: MongoClient,
               text: `Error getting current operations: ${errorMessage}`,
             },
           ],
+          isError: true,
         };
       }
-    }
-  );
-
-  registerTool(
-    'getProfilerStats',
-    'Get database profiler statistics and slow operation data. Use verbosity to control detail level (summary=most efficient, excludes full query details).',
-    {
+    },
+  });
+
+  registry.register({
+    name: 'getProfilerStats',
+    title: 'Profiler Statistics',
+    category: 'monitoring',
+    access: 'read',
+    cost: 'medium',
+    description: 'Get database profiler statistics and slow operation data. Use verbosity to control detail level (summary=most efficient, excludes full query details).',
+    inputSchema: {
       database: z.string().optional(),
       limit: z.number().positive().optional(),
       sort: z.record(z.number()).optional(),
       filter: z.record(z.any()).optional(),
       verbosity: z.enum(['summary', 'standard', 'full']).optional(),
     },
-    async (args) => {
-      logToolUsage('getProfilerStats', args);
+    handler: async (args, extra) => {
       const {
         database = dbName,
         limit = 100,
@@ -467,7 +509,7 @@ export function registerMonitoringTools(server: McpServer, client: MongoClient,
         const profileStatus = await targetDb.command({ profile: -1 });
 
         if (profileStatus.was === 0) {
-          const message = mode === 'read-only'
+          const message = resolveEffectiveMode(mode, extra?.authInfo) === 'read-only'
             ? 'Database profiling is disabled. A database administrator with write access must enable profiling to collect performance data.'
             : 'Database profiling is disabled. Enable profiling to collect performance data.';
           return {
@@ -487,14 +529,14 @@ export function registerMonitoringTools(server: McpServer, client: MongoClient,
 
         const profileData = await targetDb
           .collection('system.profile')
-          .find(processedFilter)
+          .find(processedFilter, tagOperation())
           .sort(sort)
           .limit(limit)
           .toArray();
 
         // Filter entries based on verbosity
         const filteredEntries = profileData.map(entry =>
-          filterProfilerEntry(entry as Record<string, unknown>, verbosity as VerbosityLevel)
+          filterProfilerEntry(maskOperation(entry) as Record<string, unknown>, verbosity as VerbosityLevel)
         );
 
         return {
@@ -519,8 +561,9 @@ export function registerMonitoringTools(server: McpServer, client: MongoClient,
               text: `Error getting profiler stats: ${errorMessage}`,
             },
           ],
+          isError: true,
         };
       }
-    }
-  );
+    },
+  });
 }
@@ -0,0 +1,237 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { getHiddenTools, getToolCatalog, registerMultiConnectionTools } from './multi-connection.js';
+import { createConnectionRegistryFromConfig } from '../utils/connection-registry.js';
+import type { UserPrivileges } from '../utils/privileges.js';
+
+vi.mock('../utils/logger.js', () => ({ logToolUsage: vi.fn(), logError: vi.fn() }));
+
+type ToolResult = { content: Array<{ text: string }>; isError?: boolean };
+
+type MockTool = { schema: Record<string, unknown>; handler: Function; enabled: boolean; enable(): void; disable(): void };
+
+function createMockServer() {
+  const registeredTools: Record<string, MockTool> = {};
+  const server = {
+    server: {},
+    registerTool: vi.fn((name: string, config: { inputSchema: Record<string, unknown> }, handler: Function) => {
+      const tool: MockTool = {
+        schema: config.inputSchema,
+        handler,
+        enabled: true,
+        enable: () => { tool.enabled = true; },
+        disable: () => { tool.enabled = false; },
+      };
+      registeredTools[name] = tool;
+      return tool;
+    }),
+  } as unknown as McpServer & { server: { onclose?: () => void } };
+  return { server, registeredTools };
+}
+
+/** A user with the built-in read role on app */
+const readUser: UserPrivileges = {
+  users: ['analyst@admin'],
+  roles: ['read@app'],
+  privileges: [
+    {
+      resource: { db: 'app', collection: '' },
+      actions: ['find', 'listCollections', 'listIndexes', 'collStats', 'dbStats'],
+    },
+  ],
+};
+
+function setup() {
+  const registry = createConnectionRegistryFromConfig([
+    { name: 'staging', uri: 'mongodb://127.0.0.1:27017', dbName: 'app', mode: 'read-write' },
+    { name: 'prod', uri: 'not-a-valid-uri', dbName: 'app', mode: 'read-only' },
+  ]);
+  const { server, registeredTools } = createMockServer();
+  const session = registerMultiConnectionTools(server, registry);
+  const call = async (toolName: string, args: Record<string, unknown> = {}) =>
+    (await registeredTools[toolName].handler(args)) as ToolResult;
+  return { registry, registeredTools, session, call };
+}
+
+describe('registerMultiConnectionTools', () => {
+  it('registers each tool once with an optional connection argument', () => {
+    const { registeredTools } = setup();
+
+    expect(registeredTools.find.schema).toHaveProperty('connection');
+    expect(registeredTools.insertOne).toBeDefined();
+    expect(registeredTools.listConnections).toBeDefined();
+    expect(registeredTools.useConnection).toBeDefined();
+  });
+
+  it('starts on the first connection and routes calls by connection name', async () => {
+    const { session, call } = setup();
+    expect(session.activeConnection).toBe('staging');
+
+    const staging = JSON.parse((await call('getConnectionHealth')).content[0].text);
+    const prod = JSON.parse((await call('getConnectionHealth', { connection: 'prod' })).content[0].text);
+
+    expect(staging.state).toBe('disconnected');
+    expect(prod.state).toBe('failed');
+  });
+
+  it('enforces each connection mode', async () => {
+    const { call } = setup();
+
+    const result = await call('insertOne', { connection: 'prod', collection: 'users', document: {} });
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toMatch(/not available on connection 'prod' \(read-only mode\)/);
+  });
+
+  it('rejects unknown connections', async () => {
+    const { call } = setup();
+
+    const result = await call('find', { connection: 'qa', collection: 'users' });
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toMatch(/Unknown connection 'qa'. Available connections: staging, prod/);
+  });
+
+  it('labels its own refusals with the environment of the connection', async () => {
+    const registry = createConnectionRegistryFromConfig([
+      { name: 'prod', uri: 'mongodb://127.0.0.1:27017', dbName: 'app', mode: 'read-only', environment: 'production' },
+      { name: 'dev', uri: 'mongodb://127.0.0.1:27017', dbName: 'app', mode: 'read-write' },
+    ]);
+    const { server, registeredTools } = createMockServer();
+    registerMultiConnectionTools(server, registry);
+
+    const unavailable = (await registeredTools.insertOne.handler({ connection: 'prod', collection: 'users', document: {} })) as ToolResult;
+    const unknown = (await registeredTools.find.handler({ connection: 'nope' })) as ToolResult;
+
+    expect(unavailable.content.map((block) => block.text)).toEqual([
+      "[PRODUCTION] connection 'prod'",
+      "Error: 'insertOne' is not available on connection 'prod' (read-only mode)",
+    ]);
+    expect(unknown.content.map((block) => block.text)).toEqual([
+      "[PRODUCTION] connection 'prod'",
+      "Error: Unknown connection 'nope'. Available connections: prod, dev",
+    ]);
+  });
+
+  it('switches the active connection with useConnection', async () => {
+    const { session, call } = setup();
+
+    const switched = await call('useConnection', { name: 'prod' });
+    expect(switched.content[0].text).toMatch(/Active connection is now 'prod'/);
+    expect(session.activeConnection).toBe('prod');
+
+    const health = JSON.parse((await call('getConnectionHealth')).content[0].text);
+    expect(health.state).toBe('failed');
+
+    const connections = JSON.parse((await call('listConnections')).content[0].text);
+    expect(connections).toEqual([
+      { name: 'staging', database: 'app', mode: 'read-write', state: 'disconnected', active: false },
+      { name: 'prod', database: 'app', mode: 'read-only', state: 'failed', active: true },
+    ]);
+  });
+
+  it('keeps the active connection per registered server', async () => {
+    const registry = createConnectionRegistryFromConfig([
+      { name: 'a', uri: 'mongodb://127.0.0.1:27017', dbName: 'app', mode: 'read-only' },
+      { name: 'b', uri: 'mongodb://127.0.0.1:27018', dbName: 'app', mode: 'read-only' },
+    ]);
+    const first = createMockServer();
+    const second = createMockServer();
+    const firstSession = registerMultiConnectionTools(first.server, registry);
+    const secondSession = registerMultiConnectionTools(second.server, registry);
+
+    await first.registeredTools.useConnection.handler({ name: 'b' });
+
+    expect(firstSession.activeConnection).toBe('b');
+    expect(secondSession.activeConnection).toBe('a');
+  });
+
+  it('exposes only the tools picked by the tool filter', () => {
+    const registry = createConnectionRegistryFromConfig([
+      { name: 'a', uri: 'mongodb://127.0.0.1:27017', dbName: 'app', mode: 'read-write' },
+    ]);
+    const { server, registeredTools } = createMockServer();
+    registerMultiConnectionTools(server, registry, { categories: ['explore'], tools: ['useConnection'], disableTools: ['inferSchema'] });
+
+    expect(Object.keys(registeredTools).sort()).toEqual([
+      'getCollectionStats',
+      'getDatabaseStats',
+      'listCollections',
+      'listDatabases',
+      'scanForPII',
+      'useConnection',
+    ]);
+  });
+
+  it('hides the tools no user has the privileges for, once they are known', () => {
+    const registry = createConnectionRegistryFromConfig([
+      { name: 'a', uri: 'mongodb://127.0.0.1:27017', dbName: 'app', mode: 'read-write' },
+    ]);
+    const { connection } = registry.get('a')!;
+    let privileges: UserPrivileges | undefined;
+    let notify = () => {};
+    vi.spyOn(connection, 'getPrivileges').mockImplementation(() => privileges);
+    vi.spyOn(connection, 'onPrivilegesChanged').mockImplementation((listener) => {
+      notify = listener;
+      return () => {};
+    });
+    const { server, registeredTools } = createMockServer();
+    registerMultiConnectionTools(server, registry);
+    expect(registeredTools.insertOne.enabled).toBe(true);
+
+    privileges = readUser;
+    notify();
+
+    expect(registeredTools.insertOne.enabled).toBe(false);
+    expect(registeredTools.getCurrentOperations.enabled).toBe(false);
+    expect(registeredTools.find.enabled).toBe(true);
+    expect(registeredTools.listConnections.enabled).toBe(true);
+  });
+});
+
+describe('getToolCatalog', () => {
+  const registry = createConnectionRegistryFromConfig([
+    { name: 'staging', uri: 'mongodb://127.0.0.1:27017', dbName: 'app', mode: 'read-write' },
+    { name: 'prod', uri: 'mongodb://127.0.0.1:27018', dbName: 'app', mode: 'read-only' },
+  ]);
+
+  it('merges the tools exposed on every connection', () => {
+    const names = getToolCatalog(registry).map((definition) => definition.name);
+
+    expect(names).toContain('insertOne');
+    expect(names).toContain('listConnections');
+    expect(new Set(names).size).toBe(names.length);
+  });
+
+  it('hides write tools when every connection is read-only', () => {
+    const readOnly = createConnectionRegistryFromConfig([
+      { name: 'prod', uri: 'mongodb://127.0.0.1:27018', dbName: 'app', mode: 'read-only' },
+    ]);
+
+    const catalog = getToolCatalog(readOnly);
+    expect(catalog.every((definition) => definition.access === 'read')).toBe(true);
+  });
+
+  it('reports the tools hidden by missing privileges', () => {
+    const single = createConnectionRegistryFromConfig([
+      { name: 'prod', uri: 'mongodb://127.0.0.1:27018', dbName: 'app', mode: 'read-only' },
+    ]);
+    vi.spyOn(single.get('prod')!.connection, 'getPrivileges').mockReturnValue(readUser);
+
+    const names = getToolCatalog(single).map((definition) => definition.name);
+    const hidden = getHiddenTools(single);
+
+    expect(names).toContain('find');
+    expect(names).not.toContain('getServerStatus');
+    expect(hidden).toContainEqual({ name: 'getServerStatus', missing: ['serverStatus on the cluster'] });
+    expect(hidden).toContainEqual({
+      name: 'getProfilerStats',
+      missing: ["enableProfiler on database 'app'"],
+    });
+  });
+
+  it('accepts write tools in the filter even when they are hidden by mode', () => {
+    expect(() => getToolCatalog(registry, { disableTools: ['dropCollection'] })).not.toThrow();
+    expect(() => getToolCatalog(registry, { tools: ['dropCollections'] })).toThrow(/Unknown tool: dropCollections/);
+  });
+});
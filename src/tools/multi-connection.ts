@@ -0,0 +1,242 @@
+import type { McpServer, RegisteredTool } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import { buildToolRegistry, createToolPipeline, selectTools } from './index.js';
+import type { RegisterToolsOptions } from './index.js';
+import { registerConnectionSwitchingTools } from './connection.js';
+import type { ConnectionSession } from './connection.js';
+import {
+  applyMiddleware,
+  createToolRegistry,
+  getToolConfig,
+  matchesToolFilter,
+  registerToolDefinitions,
+  validateToolFilter,
+} from './registry.js';
+import type { HiddenTool, ToolDefinition, ToolRegistry, ToolResult } from './registry.js';
+import {
+  authorizationMiddleware,
+  errorFormattingMiddleware,
+  formatEnvironmentLabel,
+  prependLabel,
+  usageLoggingMiddleware,
+} from './middleware.js';
+import { clientSupportsElicitation } from '../utils/elicitation.js';
+import { findMissingPrivileges, getRequiredPrivileges } from '../utils/privileges.js';
+import type { ConnectionRegistry, RegisteredConnection } from '../utils/connection-registry.js';
+import type { ToolFilter } from '../types.js';
+
+interface CollectedTool {
+  definition: ToolDefinition;
+  handler: (args: Record<string, unknown>, extra?: unknown) => Promise<ToolResult>;
+}
+
+export const CONNECTION_PARAM = 'connection';
+
+function buildConnectionTools(entry: RegisteredConnection): ToolRegistry {
+  const { client } = entry.connection;
+  return buildToolRegistry(client, client.db(entry.dbName), entry.dbName, entry.mode, {
+    connection: entry.connection,
+    databases: entry.databases,
+    policies: entry.policies,
+    connectionName: entry.name,
+  });
+}
+
+/**
+ * Builds the tool definitions for one connection and runs each through that
+ * connection's pipeline, so every connection gets its own Db binding, mode
+ * gating and name validation.
+ */
+function collectTools(
+  entry: RegisteredConnection,
+  toolFilter: ToolFilter,
+  options: Pick<RegisterToolsOptions, 'onCollectionsChanged' | 'supportsElicitation'>
+): Map<string, CollectedTool> {
+  const middleware = createToolPipeline(entry.dbName, {
+    connection: entry.connection,
+    databases: entry.databases,
+    policies: entry.policies,
+    environment: entry.environment,
+    connectionName: entry.name,
+    ...options,
+  });
+
+  const tools = new Map<string, CollectedTool>();
+  for (const definition of selectTools(buildConnectionTools(entry), entry.mode, toolFilter)) {
+    tools.set(definition.name, { definition, handler: applyMiddleware(definition, middleware) });
+  }
+  return tools;
+}
+
+/** The privileges the connection's user lacks for a tool; empty while they are unknown */
+function missingPrivileges(entry: RegisteredConnection, definition: ToolDefinition): string[] {
+  const user = entry.connection.getPrivileges();
+  return user ? findMissingPrivileges(user, getRequiredPrivileges(definition.name, definition.access), entry.dbName) : [];
+}
+
+/** First definition of each tool name across connections, in registration order */
+function mergeDefinitions(definitionSets: Iterable<ToolDefinition[]>): Map<string, ToolDefinition> {
+  const definitions = new Map<string, ToolDefinition>();
+  for (const set of definitionSets) {
+    for (const definition of set) {
+      if (!definitions.has(definition.name)) {
+        definitions.set(definition.name, definition);
+      }
+    }
+  }
+  return definitions;
+}
+
+function createSwitchingTools(registry: ConnectionRegistry, session: ConnectionSession): ToolRegistry {
+  const switchingTools = createToolRegistry();
+  registerConnectionSwitchingTools(switchingTools, registry, session);
+  return switchingTools;
+}
+
+/** Refusals the dispatcher returns itself carry the environment label that the connection's pipeline adds to the rest */
+function labelled(result: ToolResult, entry?: RegisteredConnection): ToolResult {
+  return entry?.environment ? prependLabel(result, formatEnvironmentLabel(entry.name, entry.environment)) : result;
+}
+
+function errorResult(text: string) {
+  return {
+    content: [{ type: 'text' as const, text: `Error: ${text}` }],
+    isError: true,
+  };
+}
+
+function buildCatalog(registry: ConnectionRegistry, toolFilter: ToolFilter) {
+  const session: ConnectionSession = { activeConnection: registry.defaultName };
+  const switchingTools = createSwitchingTools(registry, session).list();
+  const connectionTools = registry.list().map((entry) => {
+    const tools = buildConnectionTools(entry);
+    return { entry, tools, selected: selectTools(tools, entry.mode, toolFilter) };
+  });
+
+  const known = mergeDefinitions([...connectionTools.map(({ tools }) => tools.list()), switchingTools]);
+  validateToolFilter(toolFilter, [...known.values()]);
+
+  const exposed = mergeDefinitions([
+    ...connectionTools.map(({ entry, selected }) =>
+      selected.filter((definition) => missingPrivileges(entry, definition).length === 0)
+    ),
+    switchingTools.filter((definition) => matchesToolFilter(definition, toolFilter)),
+  ]);
+
+  const hidden = new Map<string, string[]>();
+  for (const { entry, selected } of connectionTools) {
+    for (const definition of selected) {
+      if (exposed.has(definition.name)) continue;
+      const missing = missingPrivileges(entry, definition).join(', ');
+      const reasons = hidden.get(definition.name) ?? [];
+      hidden.set(definition.name, [...reasons, registry.list().length > 1 ? `'${entry.name}': ${missing}` : missing]);
+    }
+  }
+  return { exposed: [...exposed.values()], hidden: [...hidden].map(([name, missing]): HiddenTool => ({ name, missing })) };
+}
+
+/**
+ * The tools a server built from this registry exposes, merged across
+ * connections. Tools no connection's user has the privileges for are left out
+ * once the privileges are known. Throws when the filter names unknown tools or
+ * categories.
+ */
+export function getToolCatalog(registry: ConnectionRegistry, toolFilter: ToolFilter = {}): ToolDefinition[] {
+  return buildCatalog(registry, toolFilter).exposed;
+}
+
+/** Tools the mode and filter allow but that are hidden because of missing privileges, with what is missing */
+export function getHiddenTools(registry: ConnectionRegistry, toolFilter: ToolFilter = {}): HiddenTool[] {
+  return buildCatalog(registry, toolFilter).hidden;
+}
+
+/**
+ * Registers one dispatcher per tool name. Each call runs against the connection
+ * named in its `connection` argument, or the session's active connection.
+ * `onCollectionsChanged` runs after a tool creates or drops a collection.
+ */
+export function registerMultiConnectionTools(
+  server: McpServer,
+  registry: ConnectionRegistry,
+  toolFilter: ToolFilter = {},
+  onCollectionsChanged?: () => void
+): ConnectionSession {
+  const session: ConnectionSession = { activeConnection: registry.defaultName };
+  const toolSets = new Map(
+    registry.list().map((entry) => [
+      entry.name,
+      collectTools(entry, toolFilter, {
+        onCollectionsChanged,
+        supportsElicitation: () => clientSupportsElicitation(server),
+      }),
+    ])
+  );
+  const connectionNames = () => registry.list().map((entry) => entry.name).join(', ');
+
+  const definitions = mergeDefinitions(
+    [...toolSets.values()].map((tools) => [...tools.values()].map((tool) => tool.definition))
+  );
+  const registeredTools = new Map<string, RegisteredTool>();
+
+  for (const [toolName, definition] of definitions) {
+    const schema = {
+      ...definition.inputSchema,
+      [CONNECTION_PARAM]: z
+        .string()
+        .optional()
+        .describe('Named connection to run against (see listConnections). Defaults to the active connection.'),
+    };
+
+    const dispatch = async (args: Record<string, unknown>, extra?: unknown) => {
+      const { [CONNECTION_PARAM]: requested, ...toolArgs } = args ?? {};
+      const name = typeof requested === 'string' ? requested : session.activeConnection;
+
+      const entry = registry.get(name);
+      if (!entry) {
+        // Labelled like the active connection, which the call stays on
+        const active = registry.get(session.activeConnection);
+        return labelled(errorResult(`Unknown connection '${name}'. Available connections: ${connectionNames()}`), active);
+      }
+
+      const tool = toolSets.get(name)?.get(toolName);
+      if (!tool) {
+        return labelled(errorResult(`'${toolName}' is not available on connection '${name}' (${entry.mode} mode)`), entry);
+      }
+
+      return tool.handler(toolArgs, extra);
+    };
+
+    registeredTools.set(toolName, server.registerTool(toolName, getToolConfig(definition, schema), dispatch));
+  }
+
+  // Hide the tools no connection's user has the privileges for, and show them
+  // again when a reconnect finds the roles changed
+  const updateVisibility = () => {
+    for (const [toolName, registered] of registeredTools) {
+      const usable = registry.list().some((entry) => {
+        const tool = toolSets.get(entry.name)?.get(toolName);
+        return tool !== undefined && missingPrivileges(entry, tool.definition).length === 0;
+      });
+      if (usable !== registered.enabled) {
+        if (usable) registered.enable();
+        else registered.disable();
+      }
+    }
+  };
+  updateVisibility();
+  const unsubscribers = registry.list().map((entry) => entry.connection.onPrivilegesChanged(updateVisibility));
+  server.server.onclose = () => unsubscribers.forEach((unsubscribe) => unsubscribe());
+
+  // The dispatched handlers already ran through their connection's pipeline;
+  // the switching tools get their own so token allowlists apply to them too.
+  const switchingTools = createSwitchingTools(registry, session)
+    .list()
+    .filter((definition) => matchesToolFilter(definition, toolFilter));
+  registerToolDefinitions(server, switchingTools, [
+    errorFormattingMiddleware,
+    authorizationMiddleware,
+    usageLoggingMiddleware,
+  ]);
+
+  return session;
+}
@@ -0,0 +1,90 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { Db } from 'mongodb';
+import { registerDataQualityTools } from './data-quality.js';
+import { createToolRegistry } from './registry.js';
+import type { ToolResult } from './registry.js';
+
+vi.mock('../utils/logger.js', () => ({ logToolUsage: vi.fn(), logError: vi.fn() }));
+
+const documents = [{ name: 'Ada' }, { name: 'Grace' }, { name: 'Linus' }];
+
+function createMockDb() {
+  const cursor = {
+    project: vi.fn().mockReturnThis(),
+    limit: vi.fn().mockReturnThis(),
+    sort: vi.fn().mockReturnThis(),
+    toArray: vi.fn().mockResolvedValue(documents),
+    close: vi.fn().mockResolvedValue(undefined),
+    async *[Symbol.asyncIterator]() {
+      yield* documents;
+    },
+  };
+  const collection = {
+    find: vi.fn().mockReturnValue(cursor),
+    aggregate: vi.fn().mockReturnValue(cursor),
+    countDocuments: vi.fn().mockResolvedValue(documents.length),
+    indexes: vi.fn().mockResolvedValue([
+      { name: '_id_', key: { _id: 1 } },
+      { name: 'name_1', key: { name: 1 } },
+    ]),
+    createIndex: vi.fn().mockResolvedValue('name_1'),
+    drop: vi.fn().mockResolvedValue(true),
+  };
+  const db = {
+    collection: vi.fn().mockReturnValue(collection),
+    listCollections: vi.fn((filter: { name: string }) => ({
+      toArray: async () => (filter.name === 'users' ? [{ name: 'users' }] : []),
+    })),
+    command: vi.fn().mockResolvedValue({ count: documents.length, size: 300 }),
+  } as unknown as Db;
+  return { db, collection, cursor };
+}
+
+function setup() {
+  const mock = createMockDb();
+  const registry = createToolRegistry();
+  registerDataQualityTools(registry, mock.db);
+
+  const sendNotification = vi.fn().mockResolvedValue(undefined);
+  const call = async (name: string, args: Record<string, unknown>, progressToken?: string) =>
+    (await registry.get(name)!.handler(args, {
+      _meta: progressToken ? { progressToken } : undefined,
+      sendNotification,
+    })) as ToolResult;
+  const progress = () => sendNotification.mock.calls.map(([notification]) => notification.params);
+  return { ...mock, call, sendNotification, progress };
+}
+
+describe('progress notifications', () => {
+  it('reports the start and completion of cloneCollection, throttling the steps between', async () => {
+    const { call, progress } = setup();
+
+    const result = await call('cloneCollection', { source: 'users', destination: 'users_copy' }, 'clone-1');
+
+    expect(result.isError).toBeFalsy();
+    expect(progress()).toEqual([
+      { progressToken: 'clone-1', progress: 0, total: 4, message: "Copying 3 documents to 'users_copy'" },
+      { progressToken: 'clone-1', progress: 4, total: 4, message: 'Copied index 1 of 1' },
+    ]);
+  });
+
+  it('reports documents read by exportCollection against the capped count', async () => {
+    const { call, collection, cursor, progress } = setup();
+
+    const result = await call('exportCollection', { collection: 'users', options: { limit: 10 } }, 'export-1');
+
+    expect(JSON.parse(result.content[0].text).documentsExported).toBe(3);
+    expect(collection.countDocuments).toHaveBeenCalledWith({}, { limit: 10 });
+    expect(cursor.toArray).not.toHaveBeenCalled();
+    expect(progress().at(-1)).toEqual({ progressToken: 'export-1', progress: 3, total: 3, message: 'Documents read: 3' });
+  });
+
+  it('sends nothing and skips the extra count without a progress token', async () => {
+    const { call, collection, sendNotification } = setup();
+
+    await call('exportCollection', { collection: 'users' });
+
+    expect(collection.countDocuments).not.toHaveBeenCalled();
+    expect(sendNotification).not.toHaveBeenCalled();
+  });
+});
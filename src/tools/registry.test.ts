@@ -0,0 +1,208 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { Db, MongoClient } from 'mongodb';
+import {
+  applyMiddleware,
+  createToolRegistry,
+  formatToolCatalog,
+  getToolAnnotations,
+  isToolAvailable,
+  matchesToolFilter,
+  TOOL_CATEGORIES,
+  validateToolFilter,
+} from './registry.js';
+import type { ToolDefinition, ToolMiddleware } from './registry.js';
+import { buildToolRegistry, registerAllTools } from './index.js';
+
+function createDefinition(overrides: Partial<ToolDefinition> = {}): ToolDefinition {
+  return {
+    name: 'find',
+    title: 'Find Documents',
+    description: 'find docs',
+    category: 'query',
+    access: 'read',
+    cost: 'medium',
+    inputSchema: {},
+    handler: vi.fn().mockResolvedValue({ content: [{ type: 'text', text: 'ok' }] }),
+    ...overrides,
+  };
+}
+
+function createMockClient() {
+  const db = { collection: vi.fn(), databaseName: 'testdb' } as unknown as Db;
+  const client = { db: vi.fn().mockReturnValue(db) } as unknown as MongoClient;
+  return { db, client };
+}
+
+describe('createToolRegistry', () => {
+  it('lists definitions in registration order', () => {
+    const registry = createToolRegistry();
+    registry.register(createDefinition({ name: 'find' }));
+    registry.register(createDefinition({ name: 'count' }));
+
+    expect(registry.list().map((definition) => definition.name)).toEqual(['find', 'count']);
+    expect(registry.get('count')?.name).toBe('count');
+    expect(registry.get('missing')).toBeUndefined();
+  });
+
+  it('rejects duplicate tool names', () => {
+    const registry = createToolRegistry();
+    registry.register(createDefinition());
+
+    expect(() => registry.register(createDefinition())).toThrow(/already registered/);
+  });
+});
+
+describe('mode gating and annotations', () => {
+  it('hides write and destructive tools in read-only mode', () => {
+    expect(isToolAvailable(createDefinition({ access: 'read' }), 'read-only')).toBe(true);
+    expect(isToolAvailable(createDefinition({ access: 'write' }), 'read-only')).toBe(false);
+    expect(isToolAvailable(createDefinition({ access: 'destructive' }), 'read-only')).toBe(false);
+    expect(isToolAvailable(createDefinition({ access: 'destructive' }), 'read-write')).toBe(true);
+  });
+
+  it('derives annotations from the access classification', () => {
+    expect(getToolAnnotations(createDefinition({ access: 'read' }))).toEqual({
+      title: 'Find Documents',
+      readOnlyHint: true,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: false,
+    });
+    expect(getToolAnnotations(createDefinition({ access: 'write' }))).toMatchObject({
+      readOnlyHint: false,
+      destructiveHint: false,
+      idempotentHint: false,
+    });
+    expect(getToolAnnotations(createDefinition({ access: 'destructive' }))).toMatchObject({
+      readOnlyHint: false,
+      destructiveHint: true,
+    });
+  });
+
+  it('lets a definition override derived hints', () => {
+    const definition = createDefinition({ access: 'destructive', annotations: { idempotentHint: true } });
+    expect(getToolAnnotations(definition)).toMatchObject({ destructiveHint: true, idempotentHint: true });
+  });
+});
+
+describe('tool filters', () => {
+  const find = createDefinition({ name: 'find', category: 'query' });
+  const listDatabases = createDefinition({ name: 'listDatabases', category: 'explore' });
+  const getServerStatus = createDefinition({ name: 'getServerStatus', category: 'monitoring' });
+
+  it('matches every tool without a filter', () => {
+    expect(matchesToolFilter(find)).toBe(true);
+    expect(matchesToolFilter(find, {})).toBe(true);
+  });
+
+  it('keeps tools picked by name or category and drops disabled ones', () => {
+    const filter = { categories: ['explore'], tools: ['find'], disableTools: ['listDatabases'] };
+
+    expect(matchesToolFilter(find, filter)).toBe(true);
+    expect(matchesToolFilter(listDatabases, filter)).toBe(false);
+    expect(matchesToolFilter(getServerStatus, filter)).toBe(false);
+    expect(matchesToolFilter(getServerStatus, { disableTools: ['find'] })).toBe(true);
+  });
+
+  it('rejects unknown tools and categories', () => {
+    const definitions = [find, listDatabases];
+
+    expect(() => validateToolFilter({ tools: ['fnd'] }, definitions)).toThrow(/Unknown tool: fnd/);
+    expect(() => validateToolFilter({ disableTools: ['a', 'b'] }, definitions)).toThrow(/Unknown tools: a, b/);
+    expect(() => validateToolFilter({ categories: ['reports'] }, definitions)).toThrow(/Unknown tool category: reports/);
+    expect(() => validateToolFilter({ tools: ['find'], categories: ['explore'] }, definitions)).not.toThrow();
+  });
+
+  it('formats the catalog grouped by category with each tool classification', () => {
+    const output = formatToolCatalog([
+      find,
+      listDatabases,
+      createDefinition({ name: 'deleteMany', category: 'write', access: 'destructive', cost: 'high' }),
+    ]);
+
+    expect(output.split('\n')).toEqual([
+      '3 tools exposed',
+      '',
+      'explore',
+      '  listDatabases  read         medium cost',
+      '',
+      'query',
+      '  find           read         medium cost',
+      '',
+      'write',
+      '  deleteMany     destructive  high cost',
+    ]);
+  });
+
+  it('lists the tools hidden by missing privileges after the exposed ones', () => {
+    const output = formatToolCatalog([find], [{ name: 'getServerStatus', missing: ['serverStatus on the cluster'] }]);
+
+    expect(output.split('\n').slice(-2)).toEqual([
+      'hidden, missing privileges (1)',
+      '  getServerStatus  serverStatus on the cluster',
+    ]);
+  });
+});
+
+describe('applyMiddleware', () => {
+  it('runs middleware outermost first and lets a step retry', async () => {
+    const calls: string[] = [];
+    const outer: ToolMiddleware = async (_context, next) => {
+      calls.push('outer');
+      return next();
+    };
+    const retry: ToolMiddleware = async (_context, next) => {
+      await next();
+      return next();
+    };
+    const definition = createDefinition();
+    const call = applyMiddleware(definition, [outer, retry]);
+
+    await call({ collection: 'users' }, { requestId: 1 });
+    expect(calls).toEqual(['outer']);
+    expect(definition.handler).toHaveBeenCalledTimes(2);
+    expect(definition.handler).toHaveBeenCalledWith({ collection: 'users' }, { requestId: 1 });
+  });
+});
+
+describe('buildToolRegistry', () => {
+  it('classifies every tool with a known category', () => {
+    const { db, client } = createMockClient();
+    const registry = buildToolRegistry(client, db, 'testdb', 'read-write');
+
+    for (const definition of registry.list()) {
+      expect(TOOL_CATEGORIES).toContain(definition.category);
+      expect(definition.description.length).toBeGreaterThan(0);
+      expect(definition.title.length).toBeGreaterThan(0);
+    }
+    expect(registry.get('find')?.access).toBe('read');
+    expect(registry.get('insertOne')?.access).toBe('write');
+    for (const name of ['dropCollection', 'deleteMany', 'bulkWrite', 'updateMany']) {
+      expect(registry.get(name)?.access).toBe('destructive');
+    }
+  });
+
+  it('marks runAdminCommand as not read-only because it can change profiler settings', () => {
+    const { db, client } = createMockClient();
+    const definition = buildToolRegistry(client, db, 'testdb', 'read-write').get('runAdminCommand')!;
+
+    expect(getToolAnnotations(definition)).toMatchObject({ readOnlyHint: false, idempotentHint: false });
+  });
+
+  it('registers only read tools with the server in read-only mode', () => {
+    const { db, client } = createMockClient();
+    const registerTool = vi.fn();
+    registerAllTools({ registerTool } as unknown as McpServer, client, db, 'testdb', 'read-only');
+
+    const registered = registerTool.mock.calls.map(([name, config]) => ({ name, annotations: config.annotations }));
+    expect(registered.map((entry) => entry.name)).toContain('find');
+    expect(registered.map((entry) => entry.name)).not.toContain('insertOne');
+    expect(registered.every((entry) => entry.annotations.destructiveHint === false)).toBe(true);
+    expect(registered.find((entry) => entry.name === 'find')?.annotations).toMatchObject({
+      title: 'Find Documents',
+      readOnlyHint: true,
+      idempotentHint: true,
+    });
+  });
+});
@@ -0,0 +1,261 @@
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { ToolAnnotations } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+import type { ZodRawShape } from 'zod';
+import type { ToolFilter } from '../types.js';
+import { convertObjectIdsToExtendedJson } from '../utils/sanitize.js';
+import type { ConfirmationPreview } from '../utils/elicitation.js';
+
+export type ToolCategory =
+  | 'explore'
+  | 'query'
+  | 'diagnose'
+  | 'monitoring'
+  | 'quality'
+  | 'relationships'
+  | 'temporal'
+  | 'indexes'
+  | 'export'
+  | 'preview'
+  | 'write'
+  | 'connection';
+
+export const TOOL_CATEGORIES: readonly ToolCategory[] = [
+  'explore',
+  'query',
+  'diagnose',
+  'monitoring',
+  'quality',
+  'relationships',
+  'temporal',
+  'indexes',
+  'export',
+  'preview',
+  'write',
+  'connection',
+];
+
+/** read: never modifies data; write: only adds data; destructive: can modify, overwrite or delete existing data */
+export type ToolAccess = 'read' | 'write' | 'destructive';
+
+/** Rough load a single call puts on the database */
+export type ToolCost = 'low' | 'medium' | 'high';
+
+export interface ToolResult {
+  content: Array<{ type: 'text'; text: string }>;
+  /** Matches the tool's outputSchema; required on success when one is declared */
+  structuredContent?: Record<string, unknown>;
+  isError?: boolean;
+  [key: string]: unknown;
+}
+
+export type ToolHandler = (args: any, extra?: any) => any;
+
+/** How a destructive tool asks the user, rather than the model, to confirm a call */
+export interface ToolConfirmation {
+  /** What the call would do; undefined when it needs no confirmation, e.g. a dry run */
+  preview(args: any): Promise<ConfirmationPreview | undefined>;
+  /** The arguments with the flags that confirm the call set */
+  confirmArgs(args: any): Record<string, unknown>;
+}
+
+export interface ToolDefinition {
+  name: string;
+  /** Human-readable name shown by clients */
+  title: string;
+  description: string;
+  category: ToolCategory;
+  access: ToolAccess;
+  cost: ToolCost;
+  /** Overrides hints the access classification gets wrong, e.g. writes that are safe to repeat */
+  annotations?: ToolAnnotations;
+  inputSchema: ZodRawShape;
+  /** Shape of structuredContent in successful results */
+  outputSchema?: ZodRawShape;
+  /** Ask the user to confirm through elicitation when the client supports it */
+  confirmation?: ToolConfirmation;
+  handler: ToolHandler;
+}
+
+/**
+ * Successful result for a tool with an outputSchema. ObjectIds are converted to
+ * extended JSON. Unless a text summary is passed, the text block repeats the
+ * data as JSON for clients that ignore structuredContent.
+ */
+export function structuredResult(data: object, text?: string): ToolResult {
+  const structuredContent = convertObjectIdsToExtendedJson(data) as Record<string, unknown>;
+  return {
+    content: [{ type: 'text', text: text ?? JSON.stringify(structuredContent, null, 2) }],
+    structuredContent,
+  };
+}
+
+export interface ToolCallContext {
+  definition: ToolDefinition;
+  args: Record<string, unknown>;
+  extra?: any;
+}
+
+/**
+ * One step of the call pipeline. Calling next() runs the rest of the pipeline
+ * and the handler; it may be called again to retry.
+ */
+export type ToolMiddleware = (context: ToolCallContext, next: () => Promise<ToolResult>) => Promise<ToolResult>;
+
+export interface ToolRegistry {
+  register(definition: ToolDefinition): void;
+  get(name: string): ToolDefinition | undefined;
+  list(): ToolDefinition[];
+}
+
+export function createToolRegistry(): ToolRegistry {
+  const definitions = new Map<string, ToolDefinition>();
+
+  return {
+    register(definition) {
+      if (definitions.has(definition.name)) {
+        throw new Error(`Tool '${definition.name}' is already registered`);
+      }
+      definitions.set(definition.name, definition);
+    },
+
+    get(name) {
+      return definitions.get(name);
+    },
+
+    list() {
+      return [...definitions.values()];
+    },
+  };
+}
+
+export function isWriteAccess(access: ToolAccess): boolean {
+  return access !== 'read';
+}
+
+/** Write and destructive tools are not exposed at all in read-only mode */
+export function isToolAvailable(definition: ToolDefinition, mode: string): boolean {
+  return mode !== 'read-only' || !isWriteAccess(definition.access);
+}
+
+/**
+ * Without tools or categories every tool matches; otherwise a tool must be named
+ * in tools or belong to one of categories. disableTools always wins.
+ */
+export function matchesToolFilter(definition: ToolDefinition, filter: ToolFilter = {}): boolean {
+  if (filter.disableTools?.includes(definition.name)) {
+    return false;
+  }
+  if (!filter.tools && !filter.categories) {
+    return true;
+  }
+  return Boolean(filter.tools?.includes(definition.name) || filter.categories?.includes(definition.category));
+}
+
+/** Rejects misspelled tool and category names, which would otherwise silently hide tools */
+export function validateToolFilter(filter: ToolFilter, definitions: ToolDefinition[]): void {
+  const known = new Set(definitions.map((definition) => definition.name));
+  const unknownTools = [...(filter.tools ?? []), ...(filter.disableTools ?? [])].filter((name) => !known.has(name));
+  if (unknownTools.length > 0) {
+    throw new Error(`Unknown tool${unknownTools.length > 1 ? 's' : ''}: ${unknownTools.join(', ')}. Run with --list-tools to see the available tools`);
+  }
+
+  const unknownCategories = (filter.categories ?? []).filter(
+    (category) => !TOOL_CATEGORIES.includes(category as ToolCategory)
+  );
+  if (unknownCategories.length > 0) {
+    throw new Error(`Unknown tool categor${unknownCategories.length > 1 ? 'ies' : 'y'}: ${unknownCategories.join(', ')}. Available categories: ${TOOL_CATEGORIES.join(', ')}`);
+  }
+}
+
+/**
+ * Reads are idempotent and writes are not unless a definition says otherwise.
+ * Every tool stays within the configured MongoDB deployment, so none is open-world.
+ */
+export function getToolAnnotations(definition: ToolDefinition): ToolAnnotations {
+  return {
+    title: definition.title,
+    readOnlyHint: !isWriteAccess(definition.access),
+    destructiveHint: definition.access === 'destructive',
+    idempotentHint: !isWriteAccess(definition.access),
+    openWorldHint: false,
+    ...definition.annotations,
+  };
+}
+
+/** Write calls on production connections are repeated with the token the first call returns */
+const APPROVAL_TOKEN_PARAM = z
+  .string()
+  .optional()
+  .describe('Token from a previous call of this tool on a production connection, approving the same call');
+
+/** Everything server.registerTool needs besides the handler */
+export function getToolConfig(definition: ToolDefinition, inputSchema: ZodRawShape = definition.inputSchema) {
+  return {
+    title: definition.title,
+    description: definition.description,
+    inputSchema:
+      isWriteAccess(definition.access) && !('approvalToken' in inputSchema)
+        ? { ...inputSchema, approvalToken: APPROVAL_TOKEN_PARAM }
+        : inputSchema,
+    outputSchema: definition.outputSchema,
+    annotations: getToolAnnotations(definition),
+  };
+}
+
+export function applyMiddleware(definition: ToolDefinition, middleware: ToolMiddleware[]) {
+  return (args: Record<string, unknown>, extra?: unknown): Promise<ToolResult> => {
+    const context: ToolCallContext = { definition, args, extra };
+
+    const dispatch = (index: number): Promise<ToolResult> => {
+      if (index === middleware.length) {
+        return Promise.resolve(definition.handler(context.args, context.extra));
+      }
+      return middleware[index](context, () => dispatch(index + 1));
+    };
+
+    return dispatch(0);
+  };
+}
+
+export function registerToolDefinitions(
+  server: McpServer,
+  definitions: ToolDefinition[],
+  middleware: ToolMiddleware[]
+): void {
+  for (const definition of definitions) {
+    server.registerTool(definition.name, getToolConfig(definition), applyMiddleware(definition, middleware));
+  }
+}
+
+/** A tool left out because the connected user lacks privileges it needs */
+export interface HiddenTool {
+  name: string;
+  /** Missing privileges, per connection when there are several */
+  missing: string[];
+}
+
+/** Plain-text listing grouped by category, as printed by --list-tools */
+export function formatToolCatalog(definitions: ToolDefinition[], hidden: HiddenTool[] = []): string {
+  const nameWidth = Math.max(0, ...[...definitions, ...hidden].map((tool) => tool.name.length)) + 2;
+  const lines = [`${definitions.length} tool${definitions.length === 1 ? '' : 's'} exposed`];
+
+  for (const category of TOOL_CATEGORIES) {
+    const inCategory = definitions.filter((definition) => definition.category === category);
+    if (inCategory.length === 0) continue;
+
+    lines.push('', category);
+    for (const definition of inCategory) {
+      lines.push(`  ${definition.name.padEnd(nameWidth)}${definition.access.padEnd(13)}${definition.cost} cost`);
+    }
+  }
+
+  if (hidden.length > 0) {
+    lines.push('', `hidden, missing privileges (${hidden.length})`);
+    for (const tool of hidden) {
+      lines.push(`  ${tool.name.padEnd(nameWidth)}${tool.missing.join('; ')}`);
+    }
+  }
+
+  return lines.join('\n');
+}
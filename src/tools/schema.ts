@@ -1,93 +1,213 @@
 import type { Db } from 'mongodb';
 import { ObjectId } from 'mongodb';
-import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
-import { logToolUsage, logError } from '../utils/logger.js';
-import type { MongoDocument } from '../types.js';
-import { convertObjectIdsToExtendedJson } from '../utils/sanitize.js';
+import { logError } from '../utils/logger.js';
+import type { MongoDocument, PiiDetectorName, PolicyRule } from '../types.js';
 import { MAX_SAMPLE_SIZE } from '../utils/query-limits.js';
+import { tagOperation } from '../utils/cancellation.js';
+import { PII_DETECTORS } from '../utils/pii-detectors.js';
+import { checkPolicies } from '../utils/policy-engine.js';
+import { scanDocumentsForPii } from '../utils/pii-scanner.js';
+import type { PiiFinding } from '../utils/pii-scanner.js';
+import { createProgressReporter } from '../utils/progress.js';
+import { scopePipeline } from '../utils/tenant-scope.js';
+import { structuredResult } from './registry.js';
+import type { ToolRegistry } from './registry.js';
 
-export function registerSchemaTools(server: McpServer, db: Db): void {
-  server.tool(
-    'inferSchema',
-    'Infer the schema of a collection from its documents',
-    {
-      collection: z.string(),
-      sampleSize: z.number().positive().max(MAX_SAMPLE_SIZE).optional(),
-    },
-    async (args) => {
-      logToolUsage('inferSchema', args);
-      const { collection, sampleSize = 100 } = args;
-      try {
-        const pipeline = [{ $sample: { size: sampleSize } }, { $limit: sampleSize }];
+export interface SampledSchema {
+  sampledDocuments: number;
+  /** BSON types seen for each top-level field */
+  fields: Record<string, string[]>;
+}
 
-        const docs = await db.collection(collection).aggregate(pipeline).toArray();
+export function inferSchemaFromDocuments(documents: MongoDocument[]): Record<string, string[]> {
+  const schemaMap = new Map<string, Set<string>>();
 
-        if (docs.length === 0) {
-          return {
-            content: [
-              {
-                type: 'text',
-                text: 'Collection is empty or no documents found.',
-              },
-            ],
-          };
-        }
+  documents.forEach((doc) => {
+    Object.entries(doc).forEach(([key, value]) => {
+      if (!schemaMap.has(key)) {
+        schemaMap.set(key, new Set());
+      }
 
-        const inferSchema = (documents: MongoDocument[]): Record<string, string[]> => {
-          const schemaMap = new Map<string, Set<string>>();
+      const typeSet = schemaMap.get(key)!;
+      if (value === null) {
+        typeSet.add('null');
+      } else if (value instanceof ObjectId) {
+        typeSet.add('ObjectId');
+      } else if (Array.isArray(value)) {
+        typeSet.add('Array');
+      } else if (value instanceof Date) {
+        typeSet.add('Date');
+      } else {
+        typeSet.add(typeof value);
+      }
+    });
+  });
 
-          documents.forEach((doc) => {
-            Object.entries(doc).forEach(([key, value]) => {
-              if (!schemaMap.has(key)) {
-                schemaMap.set(key, new Set());
-              }
+  const schema: Record<string, string[]> = {};
+  schemaMap.forEach((types, field) => {
+    schema[field] = Array.from(types);
+  });
 
-              const typeSet = schemaMap.get(key)!;
-              if (value === null) {
-                typeSet.add('null');
-              } else if (value instanceof ObjectId) {
-                typeSet.add('ObjectId');
-              } else if (Array.isArray(value)) {
-                typeSet.add('Array');
-              } else if (value instanceof Date) {
-                typeSet.add('Date');
-              } else {
-                typeSet.add(typeof value);
-              }
-            });
-          });
+  return schema;
+}
 
-          const schema: Record<string, string[]> = {};
-          schemaMap.forEach((types, field) => {
-            schema[field] = Array.from(types);
-          });
+/** A random sample of a collection's documents */
+async function sampleCollection(db: Db, collection: string, sampleSize: number): Promise<MongoDocument[]> {
+  const pipeline = [{ $sample: { size: sampleSize } }, { $limit: sampleSize }];
+  return db.collection(collection).aggregate(scopePipeline(pipeline), tagOperation()).toArray();
+}
 
-          return schema;
-        };
+/** Infers a collection's schema from a random sample of its documents */
+export async function sampleCollectionSchema(db: Db, collection: string, sampleSize: number): Promise<SampledSchema> {
+  const docs = await sampleCollection(db, collection, sampleSize);
+  return { sampledDocuments: docs.length, fields: inferSchemaFromDocuments(docs) };
+}
 
-        const schema = inferSchema(docs);
+interface CollectionPiiScan {
+  collection: string;
+  sampledDocuments: number;
+  findings: PiiFinding[];
+}
 
+/**
+ * `policies` are the connection's policy rules. The policy middleware only
+ * sees the collection a call names, so scanForPII checks the collections it
+ * enumerates itself.
+ */
+export function registerSchemaTools(registry: ToolRegistry, db: Db, policies: PolicyRule[] = []): void {
+  registry.register({
+    name: 'inferSchema',
+    title: 'Infer Schema',
+    category: 'explore',
+    access: 'read',
+    cost: 'medium',
+    description: 'Infer the schema of a collection from its documents',
+    inputSchema: {
+      collection: z.string(),
+      sampleSize: z.number().positive().max(MAX_SAMPLE_SIZE).optional(),
+    },
+    outputSchema: {
+      collection: z.string(),
+      sampledDocuments: z.number(),
+      fields: z.record(z.array(z.string())).describe('BSON types seen for each top-level field'),
+    },
+    handler: async (args) => {
+      const { collection, sampleSize = 100 } = args;
+      try {
+        const { sampledDocuments, fields } = await sampleCollectionSchema(db, collection, sampleSize);
+
+        if (sampledDocuments === 0) {
+          return structuredResult(
+            { collection, sampledDocuments: 0, fields: {} },
+            'Collection is empty or no documents found.'
+          );
+        }
+
+        return structuredResult({ collection, sampledDocuments, fields });
+      } catch (error) {
+        logError('inferSchema', error, args);
+        const errorMessage = error instanceof Error ? error.message : String(error);
         return {
           content: [
             {
               type: 'text',
-              text: JSON.stringify(convertObjectIdsToExtendedJson(schema), null, 2),
+              text: `Error inferring schema: ${errorMessage}`,
             },
           ],
+          isError: true,
         };
+      }
+    },
+  });
+
+  registry.register({
+    name: 'scanForPII',
+    title: 'Scan for PII',
+    category: 'explore',
+    access: 'read',
+    cost: 'high',
+    description:
+      'Find fields holding personal data (emails, phone numbers, IBANs, card numbers, IP addresses, government IDs, names) in a sample of one or every collection. Reports field paths usable in masking rules, with hit rates and masked examples',
+    inputSchema: {
+      collection: z.string().optional().describe('Collection to scan; every collection when omitted'),
+      sampleSize: z.number().positive().max(MAX_SAMPLE_SIZE).optional().describe('Documents sampled per collection'),
+      detectors: z
+        .array(z.enum(Object.keys(PII_DETECTORS) as [PiiDetectorName, ...PiiDetectorName[]]))
+        .min(1)
+        .optional(),
+    },
+    outputSchema: {
+      collections: z.array(
+        z.object({
+          collection: z.string(),
+          sampledDocuments: z.number(),
+          findings: z.array(
+            z.object({
+              field: z.string(),
+              detector: z.string(),
+              hits: z.number(),
+              values: z.number(),
+              hitRate: z.number().describe('Share of the values at the field containing a match'),
+              examples: z.array(z.string()),
+            })
+          ),
+        })
+      ),
+      skippedCollections: z.array(z.string()).optional().describe('Collections the policies do not allow reading'),
+    },
+    handler: async (args, extra) => {
+      const { collection, sampleSize = 100, detectors } = args;
+      try {
+        const names: string[] = [];
+        const skippedCollections: string[] = [];
+        if (collection) {
+          names.push(collection);
+        } else {
+          const listed = (await db.listCollections({}, { nameOnly: true }).toArray())
+            .map((info) => info.name)
+            .filter((name) => !name.startsWith('system.'))
+            .sort();
+          for (const name of listed) {
+            const refusal = await checkPolicies(policies, 'scanForPII', { collection: name });
+            (refusal ? skippedCollections : names).push(name);
+          }
+        }
+
+        const progress = createProgressReporter(extra);
+        const collections: CollectionPiiScan[] = [];
+        for (const [i, name] of names.entries()) {
+          if (extra?.signal?.aborted) break;
+          await progress.report(i, names.length, `Scanning '${name}'`);
+          const docs = await sampleCollection(db, name, sampleSize);
+          collections.push({ collection: name, sampledDocuments: docs.length, findings: scanDocumentsForPii(docs, detectors) });
+        }
+        await progress.report(names.length, names.length, `Scanned ${names.length} collection(s)`);
+
+        const found = collections.reduce((count, scan) => count + scan.findings.length, 0);
+        const summary = found === 0
+          ? `No personal data found in ${collections.length} collection(s).`
+          : `${found} field/detector match(es) in ${collections.length} collection(s).`;
+        const skipped = skippedCollections.length > 0
+          ? `\nSkipped by policy: ${skippedCollections.join(', ')}.`
+          : '';
+        return structuredResult(
+          skippedCollections.length > 0 ? { collections, skippedCollections } : { collections },
+          `${summary}${skipped}\n\n${JSON.stringify(collections, null, 2)}`
+        );
       } catch (error) {
-        logError('inferSchema', error, args);
+        logError('scanForPII', error, args);
         const errorMessage = error instanceof Error ? error.message : String(error);
         return {
           content: [
             {
               type: 'text',
-              text: `Error inferring schema: ${errorMessage}`,
+              text: `Error scanning for PII: ${errorMessage}`,
             },
           ],
+          isError: true,
         };
       }
-    }
-  );
+    },
+  });
 }
@@ -1,5 +1,4 @@
 import { describe, it, expect, vi } from 'vitest';
-import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import type { Db, MongoClient } from 'mongodb';
 import { registerMonitoringTools } from './monitoring.js';
 import { registerDocumentTools } from './document.js';
@@ -7,6 +6,7 @@ import { registerAdvancedOperations } from './advanced-operations.js';
 import { registerDataQualityTools } from './data-quality.js';
 import { registerLiveMonitoringTools } from './live-monitoring.js';
 import { validateFieldName } from '../utils/name-validator.js';
+import type { ToolDefinition, ToolRegistry } from './registry.js';
 import {
   MAX_EXPORT_LIMIT,
   MAX_MONITORING_DURATION,
@@ -14,18 +14,15 @@ import {
   MAX_MONITORING_LIMIT,
 } from '../utils/query-limits.js';
 
-// Capture registered tool handlers via mock server
-function createMockServer() {
+// Capture registered tool handlers via mock registry
+function createMockRegistry() {
   const registeredTools: Record<string, { schema: any; handler: Function }> = {};
-  const server = {
-    tool: vi.fn((...args: unknown[]) => {
-      const toolName = args[0] as string;
-      const schema = args[2];
-      const handler = args[args.length - 1] as Function;
-      registeredTools[toolName] = { schema, handler };
+  const registry = {
+    register: vi.fn((definition: ToolDefinition) => {
+      registeredTools[definition.name] = { schema: definition.inputSchema, handler: definition.handler };
     }),
-  } as unknown as McpServer;
-  return { server, registeredTools };
+  } as unknown as ToolRegistry;
+  return { registry, registeredTools };
 }
 
 function createMockDb() {
@@ -70,9 +67,9 @@ function createMockDb() {
  */
 describe('Fix 1: getProfilerStats rejects dangerous filter operators', () => {
   it('rejects $where in filter', async () => {
-    const { server, registeredTools } = createMockServer();
+    const { registry, registeredTools } = createMockRegistry();
     const { db, client } = createMockDb();
-    registerMonitoringTools(server, client, db, 'testdb', 'read-only');
+    registerMonitoringTools(registry, client, db, 'testdb', 'read-only');
 
     const handler = registeredTools['getProfilerStats']?.handler;
     expect(handler).toBeDefined();
@@ -83,9 +80,9 @@ describe('Fix 1: getProfilerStats rejects dangerous filter operators', () => {
   });
 
   it('rejects $function nested in $and filter', async () => {
-    const { server, registeredTools } = createMockServer();
+    const { registry, registeredTools } = createMockRegistry();
     const { db, client } = createMockDb();
-    registerMonitoringTools(server, client, db, 'testdb', 'read-only');
+    registerMonitoringTools(registry, client, db, 'testdb', 'read-only');
 
     const handler = registeredTools['getProfilerStats']?.handler;
     const result = await handler({
@@ -95,9 +92,9 @@ describe('Fix 1: getProfilerStats rejects dangerous filter operators', () => {
   });
 
   it('allows safe profiler filters', async () => {
-    const { server, registeredTools } = createMockServer();
+    const { registry, registeredTools } = createMockRegistry();
     const { db, client } = createMockDb();
-    registerMonitoringTools(server, client, db, 'testdb', 'read-only');
+    registerMonitoringTools(registry, client, db, 'testdb', 'read-only');
 
     const handler = registeredTools['getProfilerStats']?.handler;
     const result = await handler({ filter: { millis: { $gt: 100 } } });
@@ -112,7 +109,7 @@ describe('Fix 1: getProfilerStats rejects dangerous filter operators', () => {
  */
 describe('Fix 2: projection operator blocking in data-quality tools', () => {
   it('cloneCollection rejects $function in projection', async () => {
-    const { server, registeredTools } = createMockServer();
+    const { registry, registeredTools } = createMockRegistry();
     const { db } = createMockDb();
 
     // Mock source collection exists
@@ -123,7 +120,7 @@ describe('Fix 2: projection operator blocking in data-quality tools', () => {
     });
     (db.command as any).mockResolvedValue({ count: 10, size: 1000 });
 
-    registerDataQualityTools(server, db, 'read-write');
+    registerDataQualityTools(registry, db);
 
     const handler = registeredTools['cloneCollection']?.handler;
     expect(handler).toBeDefined();
@@ -142,9 +139,9 @@ describe('Fix 2: projection operator blocking in data-quality tools', () => {
   });
 
   it('exportCollection rejects $accumulator in projection', async () => {
-    const { server, registeredTools } = createMockServer();
+    const { registry, registeredTools } = createMockRegistry();
     const { db } = createMockDb();
-    registerDataQualityTools(server, db, 'read-only');
+    registerDataQualityTools(registry, db);
 
     const handler = registeredTools['exportCollection']?.handler;
     expect(handler).toBeDefined();
@@ -161,9 +158,9 @@ describe('Fix 2: projection operator blocking in data-quality tools', () => {
   });
 
   it('analyzeQueryPerformance rejects $function in projection', async () => {
-    const { server, registeredTools } = createMockServer();
+    const { registry, registeredTools } = createMockRegistry();
     const { db } = createMockDb();
-    registerDataQualityTools(server, db, 'read-only');
+    registerDataQualityTools(registry, db);
 
     const handler = registeredTools['analyzeQueryPerformance']?.handler;
     expect(handler).toBeDefined();
@@ -180,7 +177,7 @@ describe('Fix 2: projection operator blocking in data-quality tools', () => {
   });
 
   it('cloneCollection allows safe projections', async () => {
-    const { server, registeredTools } = createMockServer();
+    const { registry, registeredTools } = createMockRegistry();
     const { db } = createMockDb();
 
     // Mock: source exists, destination does not
@@ -191,7 +188,7 @@ describe('Fix 2: projection operator blocking in data-quality tools', () => {
     });
     (db.command as any).mockResolvedValue({ count: 10, size: 1000 });
 
-    registerDataQualityTools(server, db, 'read-write');
+    registerDataQualityTools(registry, db);
     const handler = registeredTools['cloneCollection']?.handler;
 
     const result = await handler({
@@ -222,9 +219,9 @@ describe('Fix 3: live monitoring duration bounds', () => {
   });
 
   it('getLiveMetrics schema rejects duration above max', () => {
-    const { server, registeredTools } = createMockServer();
+    const { registry, registeredTools } = createMockRegistry();
     const { db } = createMockDb();
-    registerLiveMonitoringTools(server, db, 'read-only');
+    registerLiveMonitoringTools(registry, db, 'read-only');
 
     const schema = registeredTools['getLiveMetrics']?.schema;
     expect(schema).toBeDefined();
@@ -235,9 +232,9 @@ describe('Fix 3: live monitoring duration bounds', () => {
   });
 
   it('getLiveMetrics schema rejects interval below minimum', () => {
-    const { server, registeredTools } = createMockServer();
+    const { registry, registeredTools } = createMockRegistry();
     const { db } = createMockDb();
-    registerLiveMonitoringTools(server, db, 'read-only');
+    registerLiveMonitoringTools(registry, db, 'read-only');
 
     const schema = registeredTools['getLiveMetrics']?.schema;
     const intervalSchema = schema.interval;
@@ -246,9 +243,9 @@ describe('Fix 3: live monitoring duration bounds', () => {
   });
 
   it('getLiveMetrics schema rejects interval above max duration', () => {
-    const { server, registeredTools } = createMockServer();
+    const { registry, registeredTools } = createMockRegistry();
     const { db } = createMockDb();
-    registerLiveMonitoringTools(server, db, 'read-only');
+    registerLiveMonitoringTools(registry, db, 'read-only');
 
     const schema = registeredTools['getLiveMetrics']?.schema;
     const intervalSchema = schema.interval;
@@ -257,9 +254,9 @@ describe('Fix 3: live monitoring duration bounds', () => {
   });
 
   it('getHottestCollections schema rejects sampleDuration above max', () => {
-    const { server, registeredTools } = createMockServer();
+    const { registry, registeredTools } = createMockRegistry();
     const { db } = createMockDb();
-    registerLiveMonitoringTools(server, db, 'read-only');
+    registerLiveMonitoringTools(registry, db, 'read-only');
 
     const schema = registeredTools['getHottestCollections']?.schema;
     expect(schema).toBeDefined();
@@ -270,9 +267,9 @@ describe('Fix 3: live monitoring duration bounds', () => {
   });
 
   it('getHottestCollections schema rejects limit above max', () => {
-    const { server, registeredTools } = createMockServer();
+    const { registry, registeredTools } = createMockRegistry();
     const { db } = createMockDb();
-    registerLiveMonitoringTools(server, db, 'read-only');
+    registerLiveMonitoringTools(registry, db, 'read-only');
 
     const schema = registeredTools['getHottestCollections']?.schema;
     const limitSchema = schema.limit;
@@ -286,9 +283,9 @@ describe('Fix 3: live monitoring duration bounds', () => {
  */
 describe('Fix 4: exportCollection default limit', () => {
   it('applies limit to cursor even when caller omits it', async () => {
-    const { server, registeredTools } = createMockServer();
+    const { registry, registeredTools } = createMockRegistry();
     const { db, mockCollection } = createMockDb();
-    registerDataQualityTools(server, db, 'read-only');
+    registerDataQualityTools(registry, db);
 
     const handler = registeredTools['exportCollection']?.handler;
     expect(handler).toBeDefined();
@@ -301,9 +298,9 @@ describe('Fix 4: exportCollection default limit', () => {
   });
 
   it('preserves explicit limit when provided', async () => {
-    const { server, registeredTools } = createMockServer();
+    const { registry, registeredTools } = createMockRegistry();
     const { db, mockCollection } = createMockDb();
-    registerDataQualityTools(server, db, 'read-only');
+    registerDataQualityTools(registry, db);
 
     const handler = registeredTools['exportCollection']?.handler;
     await handler({ collection: 'users', options: { limit: 50 } });
@@ -319,7 +316,7 @@ describe('Fix 4: exportCollection default limit', () => {
  */
 describe('Fix 6: aggregation output size capped in data-quality tools', () => {
   it('findDuplicates caps large aggregation results', async () => {
-    const { server, registeredTools } = createMockServer();
+    const { registry, registeredTools } = createMockRegistry();
     const { db, mockCollection } = createMockDb();
 
     // Return a result that exceeds 1MB when serialized
@@ -327,7 +324,7 @@ describe('Fix 6: aggregation output size capped in data-quality tools', () => {
     const bigResult = Array.from({ length: 10 }, (_, i) => ({ ...bigDoc, _id: { field: `val${i}` } }));
     mockCollection.toArray.mockResolvedValue(bigResult);
 
-    registerDataQualityTools(server, db, 'read-only');
+    registerDataQualityTools(registry, db);
 
     const handler = registeredTools['findDuplicates']?.handler;
     expect(handler).toBeDefined();
@@ -354,9 +351,9 @@ describe('Fix 9: filter nesting depth limit via tool handler', () => {
   }
 
   it('getProfilerStats rejects filter exceeding MAX_FILTER_DEPTH', async () => {
-    const { server, registeredTools } = createMockServer();
+    const { registry, registeredTools } = createMockRegistry();
     const { db, client } = createMockDb();
-    registerMonitoringTools(server, client, db, 'testdb', 'read-only');
+    registerMonitoringTools(registry, client, db, 'testdb', 'read-only');
 
     const handler = registeredTools['getProfilerStats']?.handler;
     expect(handler).toBeDefined();
@@ -368,9 +365,9 @@ describe('Fix 9: filter nesting depth limit via tool handler', () => {
   });
 
   it('getProfilerStats allows filter at MAX_FILTER_DEPTH', async () => {
-    const { server, registeredTools } = createMockServer();
+    const { registry, registeredTools } = createMockRegistry();
     const { db, client } = createMockDb();
-    registerMonitoringTools(server, client, db, 'testdb', 'read-only');
+    registerMonitoringTools(registry, client, db, 'testdb', 'read-only');
 
     const handler = registeredTools['getProfilerStats']?.handler;
     // Each $or layer costs 2 depth (object + array), 5 layers = depth 10 = MAX_FILTER_DEPTH
@@ -410,9 +407,9 @@ describe('Fix 5: field name validation', () => {
   });
 
   it('exploreRelationships rejects $-prefixed localField', async () => {
-    const { server, registeredTools } = createMockServer();
+    const { registry, registeredTools } = createMockRegistry();
     const { db } = createMockDb();
-    registerDataQualityTools(server, db, 'read-only');
+    registerDataQualityTools(registry, db);
 
     const handler = registeredTools['exploreRelationships']?.handler;
     expect(handler).toBeDefined();
@@ -431,9 +428,9 @@ describe('Fix 5: field name validation', () => {
   });
 
   it('exploreRelationships rejects $-prefixed foreignField', async () => {
-    const { server, registeredTools } = createMockServer();
+    const { registry, registeredTools } = createMockRegistry();
     const { db } = createMockDb();
-    registerDataQualityTools(server, db, 'read-only');
+    registerDataQualityTools(registry, db);
 
     const handler = registeredTools['exploreRelationships']?.handler;
     const result = await handler({
@@ -457,9 +454,9 @@ describe('Fix 5: field name validation', () => {
  */
 describe('Fix 11: aggregate options.out bypass is blocked', () => {
   it('strips options.out from aggregate call (string format)', async () => {
-    const { server, registeredTools } = createMockServer();
+    const { registry, registeredTools } = createMockRegistry();
     const { db, mockCollection } = createMockDb();
-    registerDocumentTools(server, db, 'read-only');
+    registerDocumentTools(registry, db);
 
     const handler = registeredTools['aggregate']?.handler;
     expect(handler).toBeDefined();
@@ -476,9 +473,9 @@ describe('Fix 11: aggregate options.out bypass is blocked', () => {
   });
 
   it('strips options.out from aggregate call (object format)', async () => {
-    const { server, registeredTools } = createMockServer();
+    const { registry, registeredTools } = createMockRegistry();
     const { db, mockCollection } = createMockDb();
-    registerDocumentTools(server, db, 'read-only');
+    registerDocumentTools(registry, db);
 
     const handler = registeredTools['aggregate']?.handler;
     await handler({
@@ -492,9 +489,9 @@ describe('Fix 11: aggregate options.out bypass is blocked', () => {
   });
 
   it('strips writeConcern and bypassDocumentValidation from aggregate options', async () => {
-    const { server, registeredTools } = createMockServer();
+    const { registry, registeredTools } = createMockRegistry();
     const { db, mockCollection } = createMockDb();
-    registerDocumentTools(server, db, 'read-only');
+    registerDocumentTools(registry, db);
 
     const handler = registeredTools['aggregate']?.handler;
     await handler({
@@ -510,9 +507,9 @@ describe('Fix 11: aggregate options.out bypass is blocked', () => {
   });
 
   it('preserves safe options (maxTimeMS, allowDiskUse, hint)', async () => {
-    const { server, registeredTools } = createMockServer();
+    const { registry, registeredTools } = createMockRegistry();
     const { db, mockCollection } = createMockDb();
-    registerDocumentTools(server, db, 'read-only');
+    registerDocumentTools(registry, db);
 
     const handler = registeredTools['aggregate']?.handler;
     await handler({
@@ -528,9 +525,9 @@ describe('Fix 11: aggregate options.out bypass is blocked', () => {
   });
 
   it('blocks options.out in read-write mode too (consistent with $out pipeline block)', async () => {
-    const { server, registeredTools } = createMockServer();
+    const { registry, registeredTools } = createMockRegistry();
     const { db, mockCollection } = createMockDb();
-    registerDocumentTools(server, db, 'read-write');
+    registerDocumentTools(registry, db);
 
     const handler = registeredTools['aggregate']?.handler;
     await handler({
@@ -550,9 +547,9 @@ describe('Fix 11: aggregate options.out bypass is blocked', () => {
  */
 describe('Fix 12: explainQuery blocks write operations in read-only mode', () => {
   it('rejects operation: "update" in read-only mode', async () => {
-    const { server, registeredTools } = createMockServer();
+    const { registry, registeredTools } = createMockRegistry();
     const { db } = createMockDb();
-    registerAdvancedOperations(server, db, 'read-only');
+    registerAdvancedOperations(registry, db, 'read-only');
 
     const handler = registeredTools['explainQuery']?.handler;
     expect(handler).toBeDefined();
@@ -567,9 +564,9 @@ describe('Fix 12: explainQuery blocks write operations in read-only mode', () =>
   });
 
   it('rejects operation: "delete" in read-only mode', async () => {
-    const { server, registeredTools } = createMockServer();
+    const { registry, registeredTools } = createMockRegistry();
     const { db } = createMockDb();
-    registerAdvancedOperations(server, db, 'read-only');
+    registerAdvancedOperations(registry, db, 'read-only');
 
     const handler = registeredTools['explainQuery']?.handler;
     const result = await handler({
@@ -581,11 +578,11 @@ describe('Fix 12: explainQuery blocks write operations in read-only mode', () =>
   });
 
   it('allows operation: "find" in read-only mode', async () => {
-    const { server, registeredTools } = createMockServer();
+    const { registry, registeredTools } = createMockRegistry();
     const { db, mockCollection } = createMockDb();
     const mockExplain = vi.fn().mockResolvedValue({ queryPlanner: {} });
     mockCollection.find = vi.fn().mockReturnValue({ explain: mockExplain });
-    registerAdvancedOperations(server, db, 'read-only');
+    registerAdvancedOperations(registry, db, 'read-only');
 
     const handler = registeredTools['explainQuery']?.handler;
     const result = await handler({
@@ -597,11 +594,11 @@ describe('Fix 12: explainQuery blocks write operations in read-only mode', () =>
   });
 
   it('allows operation: "aggregate" in read-only mode', async () => {
-    const { server, registeredTools } = createMockServer();
+    const { registry, registeredTools } = createMockRegistry();
     const { db, mockCollection } = createMockDb();
     const mockExplain = vi.fn().mockResolvedValue({ queryPlanner: {} });
     mockCollection.aggregate = vi.fn().mockReturnValue({ explain: mockExplain, toArray: vi.fn().mockResolvedValue([]) });
-    registerAdvancedOperations(server, db, 'read-only');
+    registerAdvancedOperations(registry, db, 'read-only');
 
     const handler = registeredTools['explainQuery']?.handler;
     const result = await handler({
@@ -614,9 +611,9 @@ describe('Fix 12: explainQuery blocks write operations in read-only mode', () =>
   });
 
   it('allows operation: "update" in read-write mode', async () => {
-    const { server, registeredTools } = createMockServer();
+    const { registry, registeredTools } = createMockRegistry();
     const { db } = createMockDb();
-    registerAdvancedOperations(server, db, 'read-write');
+    registerAdvancedOperations(registry, db, 'read-write');
 
     const handler = registeredTools['explainQuery']?.handler;
     const result = await handler({
@@ -0,0 +1,194 @@
+import { describe, it, expect, vi } from 'vitest';
+import { ObjectId } from 'mongodb';
+import type { Db } from 'mongodb';
+import { z } from 'zod';
+import { registerDocumentTools } from './document.js';
+import { registerSchemaTools } from './schema.js';
+import { registerCollectionTools } from './collection.js';
+import { registerDataQualityTools } from './data-quality.js';
+import { createToolRegistry } from './registry.js';
+import type { ToolResult } from './registry.js';
+
+vi.mock('../utils/logger.js', () => ({ logToolUsage: vi.fn(), logError: vi.fn() }));
+
+const userId = new ObjectId('507f1f77bcf86cd799439011');
+
+function createMockDb(documents: Record<string, unknown>[] = []) {
+  const cursor = {
+    project: vi.fn().mockReturnThis(),
+    limit: vi.fn().mockReturnThis(),
+    skip: vi.fn().mockReturnThis(),
+    sort: vi.fn().mockReturnThis(),
+    toArray: vi.fn().mockResolvedValue(documents),
+    close: vi.fn().mockResolvedValue(undefined),
+  };
+  const collection = {
+    find: vi.fn().mockReturnValue(cursor),
+    aggregate: vi.fn().mockReturnValue(cursor),
+    countDocuments: vi.fn().mockResolvedValue(documents.length),
+  };
+  const db = {
+    collection: vi.fn().mockReturnValue(collection),
+    command: vi.fn().mockResolvedValue({ ns: 'testdb.users', count: 2, size: 512, nindexes: 1 }),
+  } as unknown as Db;
+  return { db, collection, cursor };
+}
+
+function setup(documents?: Record<string, unknown>[]) {
+  const mock = createMockDb(documents);
+  const registry = createToolRegistry();
+  registerDocumentTools(registry, mock.db);
+  registerSchemaTools(registry, mock.db);
+  registerCollectionTools(registry, mock.db);
+  registerDataQualityTools(registry, mock.db);
+
+  const call = async (name: string, args: Record<string, unknown>) => {
+    const definition = registry.get(name)!;
+    const result = (await definition.handler(args)) as ToolResult;
+    return { definition, result };
+  };
+  return { ...mock, registry, call };
+}
+
+function expectValidStructuredContent(result: ToolResult, outputSchema: z.ZodRawShape | undefined) {
+  expect(result.isError).toBeFalsy();
+  expect(outputSchema).toBeDefined();
+  expect(z.object(outputSchema!).safeParse(result.structuredContent).success).toBe(true);
+  expect(JSON.parse(result.content[0].text)).toEqual(result.structuredContent);
+}
+
+describe('structured tool output', () => {
+  const users = [
+    { _id: userId, email: 'a@example.com', age: 31 },
+    { _id: new ObjectId(), email: 'b@example.com', age: '42' },
+  ];
+
+  it('find returns documents and paging metadata with ObjectIds as extended JSON', async () => {
+    const { call } = setup(users);
+    const { definition, result } = await call('find', { collection: 'users' });
+
+    expectValidStructuredContent(result, definition.outputSchema);
+    expect(result.structuredContent).toMatchObject({
+      documents: [{ _id: { $oid: userId.toHexString() } }, {}],
+      metadata: { total: 2, limit: 10, skip: 0, hasMore: false },
+    });
+  });
+
+  it('aggregate wraps the results in an object', async () => {
+    const { call } = setup(users);
+    const { definition, result } = await call('aggregate', { collection: 'users', pipeline: [{ $match: {} }] });
+
+    expect(z.object(definition.outputSchema!).safeParse(result.structuredContent).success).toBe(true);
+    expect(result.structuredContent).toMatchObject({ truncated: false });
+    // The text block keeps the plain array for clients that read text only
+    expect(JSON.parse(result.content[0].text)).toHaveLength(2);
+  });
+
+  it('inferSchema reports field types', async () => {
+    const { call } = setup(users);
+    const { definition, result } = await call('inferSchema', { collection: 'users' });
+
+    expectValidStructuredContent(result, definition.outputSchema);
+    expect(result.structuredContent).toEqual({
+      collection: 'users',
+      sampledDocuments: 2,
+      fields: { _id: ['ObjectId'], email: ['string'], age: ['number', 'string'] },
+    });
+  });
+
+  it('inferSchema returns an empty field map for empty collections', async () => {
+    const { call } = setup([]);
+    const { result } = await call('inferSchema', { collection: 'users' });
+
+    expect(result.structuredContent).toEqual({ collection: 'users', sampledDocuments: 0, fields: {} });
+    expect(result.content[0].text).toMatch(/empty/);
+  });
+
+  it('scanForPII reports the fields holding personal data', async () => {
+    const { call } = setup(users);
+    const { definition, result } = await call('scanForPII', { collection: 'users', detectors: ['email'] });
+
+    expect(z.object(definition.outputSchema!).safeParse(result.structuredContent).success).toBe(true);
+    expect(result.structuredContent).toEqual({
+      collections: [
+        {
+          collection: 'users',
+          sampledDocuments: 2,
+          findings: [{ field: 'email', detector: 'email', hits: 2, values: 2, hitRate: 1, examples: ['a***@example.com', 'b***@example.com'] }],
+        },
+      ],
+    });
+  });
+
+  it('scanForPII skips the collections policies do not allow reading', async () => {
+    const mock = createMockDb(users);
+    (mock.db as any).listCollections = vi.fn().mockReturnValue({
+      toArray: vi.fn().mockResolvedValue([{ name: 'users' }, { name: 'payments' }, { name: 'system.views' }]),
+    });
+    const registry = createToolRegistry();
+    registerSchemaTools(registry, mock.db, [{ name: 'no-payments', collections: ['payments'], operations: ['read'], deny: true }]);
+    const definition = registry.get('scanForPII')!;
+
+    const result = (await definition.handler({ detectors: ['email'] })) as ToolResult;
+
+    expect(z.object(definition.outputSchema!).safeParse(result.structuredContent).success).toBe(true);
+    expect(result.structuredContent).toMatchObject({ collections: [{ collection: 'users' }], skippedCollections: ['payments'] });
+    expect(mock.db.collection).not.toHaveBeenCalledWith('payments');
+    expect(result.content[0].text).toMatch(/Skipped by policy: payments/);
+  });
+
+  it('getCollectionStats returns the filtered stats', async () => {
+    const { call } = setup();
+    const { definition, result } = await call('getCollectionStats', { collection: 'users' });
+
+    expectValidStructuredContent(result, definition.outputSchema);
+    expect(result.structuredContent).toMatchObject({ ns: 'testdb.users', count: 2 });
+  });
+
+  it('findDuplicates returns statistics and groups', async () => {
+    const { call } = setup([{ value: 'a@example.com', count: 2, documentIds: [userId] }]);
+    const { definition, result } = await call('findDuplicates', { collection: 'users', fields: ['email'] });
+
+    expectValidStructuredContent(result, definition.outputSchema);
+    expect(result.structuredContent).toMatchObject({ totalDuplicateGroups: 1, affectedDocuments: 2 });
+  });
+
+  it('findMissingFields matches its schema when nothing matches the filter', async () => {
+    const { call } = setup([]);
+    const { definition, result } = await call('findMissingFields', { collection: 'users', requiredFields: ['email'] });
+
+    expectValidStructuredContent(result, definition.outputSchema);
+  });
+
+  it('marks failures with isError and no structured content', async () => {
+    const { call, collection } = setup();
+    collection.find.mockImplementation(() => {
+      throw new Error('boom');
+    });
+
+    const { result } = await call('find', { collection: 'users' });
+    expect(result.isError).toBe(true);
+    expect(result.structuredContent).toBeUndefined();
+    expect(result.content[0].text).toMatch(/Error executing find: boom/);
+  });
+
+  it('marks rejected aggregation pipelines as errors', async () => {
+    const { call } = setup();
+    const { result } = await call('aggregate', { collection: 'users', pipeline: [{ $out: 'copy' }] });
+
+    expect(result.isError).toBe(true);
+  });
+
+  it('declares an output schema on every tool it covers', () => {
+    const { registry } = setup();
+    const covered = [
+      'find', 'aggregate', 'inferSchema', 'getCollectionStats', 'findDuplicates',
+      'findMissingFields', 'findInconsistentTypes', 'findOrphans', 'validateDocuments',
+      'scanForPII',
+    ];
+
+    for (const name of covered) {
+      expect(registry.get(name)?.outputSchema, name).toBeDefined();
+    }
+  });
+});
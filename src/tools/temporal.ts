@@ -1,23 +1,22 @@
 import type { Db } from 'mongodb';
-import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
-import { logToolUsage, logError } from '../utils/logger.js';
-import { preprocessQuery } from '../utils/query-preprocessor.js';
+import { logError } from '../utils/logger.js';
+import { combineFilters, preprocessQuery } from '../utils/query-preprocessor.js';
 import { convertObjectIdsToExtendedJson } from '../utils/sanitize.js';
 import { MAX_QUERY_LIMIT, capResultSize } from '../utils/query-limits.js';
-
-export function registerTemporalTools(server: McpServer, db: Db, mode: string): void {
-  const registerTool = (toolName: string, description: string, schema: any, handler: (args?: any) => any, writeOperation = false) => {
-    if (writeOperation && mode === 'read-only') {
-      return;
-    }
-    server.tool(toolName, description, schema, handler);
-  };
-
-  registerTool(
-    'findRecent',
-    'Find documents created or modified within a specified time window. Convenience wrapper for temporal queries.',
-    {
+import { tagOperation } from '../utils/cancellation.js';
+import { maskDocuments } from '../utils/pii-masking.js';
+import type { ToolRegistry } from './registry.js';
+
+export function registerTemporalTools(registry: ToolRegistry, db: Db): void {
+  registry.register({
+    name: 'findRecent',
+    title: 'Find Recent Documents',
+    category: 'temporal',
+    access: 'read',
+    cost: 'medium',
+    description: 'Find documents created or modified within a specified time window. Convenience wrapper for temporal queries.',
+    inputSchema: {
       collection: z.string(),
       timestampField: z.string(),
       timeWindow: z.object({
@@ -31,8 +30,7 @@ export function registerTemporalTools(server: McpServer, db: Db, mode: string):
         projection: z.record(z.any()).optional(),
       }).optional(),
     },
-    async (args) => {
-      logToolUsage('findRecent', args);
+    handler: async (args) => {
       const { collection, timestampField, timeWindow, options = {} } = args;
       const {
         filter = {},
@@ -70,13 +68,10 @@ export function registerTemporalTools(server: McpServer, db: Db, mode: string):
 
         // Build query
         const processedFilter = preprocessQuery(filter);
-        const timeQuery = {
-          ...processedFilter,
-          [timestampField]: { $gte: threshold },
-        };
+        const timeQuery = combineFilters(processedFilter, { [timestampField]: { $gte: threshold } });
 
         // Execute query
-        let cursor = collectionObj.find(timeQuery);
+        let cursor = collectionObj.find(timeQuery, tagOperation());
 
         if (projection) cursor = cursor.project(projection);
         if (sort) {
@@ -88,7 +83,7 @@ export function registerTemporalTools(server: McpServer, db: Db, mode: string):
         if (limit) cursor = cursor.limit(limit);
 
         const documents = await cursor.toArray();
-        const totalCount = await collectionObj.countDocuments(timeQuery);
+        const totalCount = await collectionObj.countDocuments(timeQuery, tagOperation());
 
         const response = {
           collection,
@@ -98,7 +93,7 @@ export function registerTemporalTools(server: McpServer, db: Db, mode: string):
           documentsFound: documents.length,
           totalMatching: totalCount,
           hasMore: totalCount > documents.length,
-          documents,
+          documents: maskDocuments(documents),
         };
 
         return {
@@ -119,15 +114,20 @@ export function registerTemporalTools(server: McpServer, db: Db, mode: string):
               text: `Error finding recent documents: ${errorMessage}`,
             },
           ],
+          isError: true,
         };
       }
-    }
-  );
-
-  registerTool(
-    'findInTimeRange',
-    'Find documents within a specific date range. Useful for historical analysis and time-based filtering.',
-    {
+    },
+  });
+
+  registry.register({
+    name: 'findInTimeRange',
+    title: 'Find Documents in Time Range',
+    category: 'temporal',
+    access: 'read',
+    cost: 'medium',
+    description: 'Find documents within a specific date range. Useful for historical analysis and time-based filtering.',
+    inputSchema: {
       collection: z.string(),
       timestampField: z.string(),
       startDate: z.string(),
@@ -140,8 +140,7 @@ export function registerTemporalTools(server: McpServer, db: Db, mode: string):
         groupBy: z.enum(['hour', 'day', 'week', 'month']).optional(),
       }).optional(),
     },
-    async (args) => {
-      logToolUsage('findInTimeRange', args);
+    handler: async (args) => {
       const { collection, timestampField, startDate, endDate, options = {} } = args;
       const {
         filter = {},
@@ -171,13 +170,7 @@ export function registerTemporalTools(server: McpServer, db: Db, mode: string):
         }
 
         const processedFilter = preprocessQuery(filter);
-        const timeQuery = {
-          ...processedFilter,
-          [timestampField]: {
-            $gte: start,
-            $lte: end,
-          },
-        };
+        const timeQuery = combineFilters(processedFilter, { [timestampField]: { $gte: start, $lte: end } });
 
         // If groupBy is specified, use aggregation
         if (groupBy) {
@@ -204,7 +197,7 @@ export function registerTemporalTools(server: McpServer, db: Db, mode: string):
             pipeline.push({ $limit: limit });
           }
 
-          const rawGrouped = await collectionObj.aggregate(pipeline).toArray();
+          const rawGrouped = await collectionObj.aggregate(pipeline, tagOperation()).toArray();
           const { result: grouped } = capResultSize(rawGrouped as Record<string, unknown>[]);
 
           return {
@@ -222,7 +215,7 @@ export function registerTemporalTools(server: McpServer, db: Db, mode: string):
                     groups: grouped.map((g: any) => ({
                       period: g._id,
                       count: g.count,
-                      sampleDocuments: g.documents.slice(0, 3),
+                      sampleDocuments: maskDocuments(g.documents.slice(0, 3)),
                     })),
                   },
                   null,
@@ -234,7 +227,7 @@ export function registerTemporalTools(server: McpServer, db: Db, mode: string):
         }
 
         // Regular query without grouping
-        let cursor = collectionObj.find(timeQuery);
+        let cursor = collectionObj.find(timeQuery, tagOperation());
 
         if (projection) cursor = cursor.project(projection);
         if (sort) {
@@ -245,7 +238,7 @@ export function registerTemporalTools(server: McpServer, db: Db, mode: string):
         if (limit) cursor = cursor.limit(limit);
 
         const documents = await cursor.toArray();
-        const totalCount = await collectionObj.countDocuments(timeQuery);
+        const totalCount = await collectionObj.countDocuments(timeQuery, tagOperation());
 
         return {
           content: [
@@ -259,7 +252,7 @@ export function registerTemporalTools(server: McpServer, db: Db, mode: string):
                   documentsFound: documents.length,
                   totalMatching: totalCount,
                   hasMore: totalCount > documents.length,
-                  documents,
+                  documents: maskDocuments(documents),
                 }), null, 2),
             },
           ],
@@ -274,15 +267,20 @@ export function registerTemporalTools(server: McpServer, db: Db, mode: string):
               text: `Error finding documents in time range: ${errorMessage}`,
             },
           ],
+          isError: true,
         };
       }
-    }
-  );
-
-  registerTool(
-    'detectVolumeAnomalies',
-    'Detect anomalies in document creation/update volume over time. Useful for identifying unusual activity patterns.',
-    {
+    },
+  });
+
+  registry.register({
+    name: 'detectVolumeAnomalies',
+    title: 'Detect Volume Anomalies',
+    category: 'diagnose',
+    access: 'read',
+    cost: 'high',
+    description: 'Detect anomalies in document creation/update volume over time. Useful for identifying unusual activity patterns.',
+    inputSchema: {
       collection: z.string(),
       timestampField: z.string(),
       options: z.object({
@@ -292,8 +290,7 @@ export function registerTemporalTools(server: McpServer, db: Db, mode: string):
         threshold: z.number().positive().optional(),
       }).optional(),
     },
-    async (args) => {
-      logToolUsage('detectVolumeAnomalies', args);
+    handler: async (args) => {
       const { collection, timestampField, options = {} } = args;
       const {
         filter = {},
@@ -331,10 +328,7 @@ export function registerTemporalTools(server: McpServer, db: Db, mode: string):
         // Aggregate by time period
         const pipeline: any[] = [
           {
-            $match: {
-              ...processedFilter,
-              [timestampField]: { $gte: lookbackDate },
-            },
+            $match: combineFilters(processedFilter, { [timestampField]: { $gte: lookbackDate } }),
           },
           {
             $group: {
@@ -350,7 +344,7 @@ export function registerTemporalTools(server: McpServer, db: Db, mode: string):
           { $sort: { _id: 1 } },
         ];
 
-        const rawGrouped = await collectionObj.aggregate(pipeline).toArray();
+        const rawGrouped = await collectionObj.aggregate(pipeline, tagOperation()).toArray();
         const { result: grouped } = capResultSize(rawGrouped as Record<string, unknown>[]);
 
         if (grouped.length === 0) {
@@ -459,10 +453,11 @@ export function registerTemporalTools(server: McpServer, db: Db, mode: string):
               text: `Error detecting volume anomalies: ${errorMessage}`,
             },
           ],
+          isError: true,
         };
       }
-    }
-  );
+    },
+  });
 }
 
 // Helper function to get date format string for grouping
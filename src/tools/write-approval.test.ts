@@ -0,0 +1,123 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { Db } from 'mongodb';
+import { registerDocumentTools } from './document.js';
+import { registerAdvancedOperations } from './advanced-operations.js';
+import { createToolRegistry } from './registry.js';
+import type { ToolResult } from './registry.js';
+import { applyWriteApprovalSettings, DEFAULT_WRITE_APPROVAL } from '../utils/write-approval.js';
+
+vi.mock('../utils/logger.js', () => ({ logToolUsage: vi.fn(), logError: vi.fn() }));
+
+function setup(connectionName?: string) {
+  const cursor = { limit: vi.fn().mockReturnThis(), toArray: vi.fn().mockResolvedValue([{ status: 'pending' }]) };
+  const collection = {
+    find: vi.fn().mockReturnValue(cursor),
+    countDocuments: vi.fn().mockResolvedValue(20),
+    updateMany: vi.fn().mockResolvedValue({ matchedCount: 20, modifiedCount: 20, upsertedCount: 0 }),
+    deleteMany: vi.fn().mockResolvedValue({ deletedCount: 20 }),
+    bulkWrite: vi.fn().mockResolvedValue({ insertedCount: 1, matchedCount: 0, modifiedCount: 0, deletedCount: 1 }),
+  };
+  const db = { databaseName: 'app', collection: vi.fn().mockReturnValue(collection) } as unknown as Db;
+
+  const registry = createToolRegistry();
+  registerDocumentTools(registry, db, connectionName);
+  registerAdvancedOperations(registry, db, 'read-write', connectionName);
+
+  const call = async (name: string, args: Record<string, unknown>) =>
+    (await registry.get(name)!.handler(args)) as ToolResult;
+  const preview = async (name: string, args: Record<string, unknown>) =>
+    JSON.parse((await call(name, args)).content[0].text);
+  return { collection, call, preview };
+}
+
+describe('write approval', () => {
+  const filter = { status: 'pending' };
+  const update = { $set: { status: 'cancelled' } };
+
+  beforeEach(() => {
+    applyWriteApprovalSettings({ required: true });
+  });
+
+  afterEach(() => {
+    applyWriteApprovalSettings(DEFAULT_WRITE_APPROVAL);
+  });
+
+  it('runs updateMany with the token from previewUpdate', async () => {
+    const { collection, call, preview } = setup();
+
+    const { approvalToken, approvalExpiresAt } = await preview('previewUpdate', { collection: 'orders', filter, update });
+    const result = await call('updateMany', { collection: 'orders', filter, update, approvalToken });
+
+    expect(approvalExpiresAt).toEqual(expect.any(String));
+    expect(result.content[0].text).toContain('Matched: 20');
+    expect(collection.updateMany).toHaveBeenCalled();
+  });
+
+  it('refuses a token previewed on another connection', async () => {
+    const staging = setup('staging');
+    const production = setup('production');
+
+    const { approvalToken } = await staging.preview('previewDelete', { collection: 'orders', filter });
+    const result = await production.call('deleteMany', { collection: 'orders', filter, approvalToken });
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toMatch(/issued for a different deleteMany/);
+    expect(production.collection.deleteMany).not.toHaveBeenCalled();
+  });
+
+  it('refuses updateMany without a token or with a different update', async () => {
+    const { collection, call, preview } = setup();
+
+    const missing = await call('updateMany', { collection: 'orders', filter, update });
+    expect(missing.content[0].text).toMatch(/^⚠ Operation blocked: updateMany requires an approvalToken/);
+    expect(missing.isError).toBe(true);
+
+    const { approvalToken } = await preview('previewUpdate', { collection: 'orders', filter, update });
+    const changed = await call('updateMany', { collection: 'orders', filter, update: { $unset: { status: 1 } }, approvalToken });
+    expect(changed.content[0].text).toMatch(/issued for a different updateMany/);
+
+    expect(collection.updateMany).not.toHaveBeenCalled();
+  });
+
+  it('refuses deleteMany when the match count drifted since previewDelete', async () => {
+    const { collection, call, preview } = setup();
+
+    const { approvalToken } = await preview('previewDelete', { collection: 'orders', filter });
+    collection.countDocuments.mockResolvedValue(40);
+    const result = await call('deleteMany', { collection: 'orders', filter, approvalToken });
+
+    expect(result.content[0].text).toMatch(/changed from 20 at preview to 40/);
+    expect(collection.deleteMany).not.toHaveBeenCalled();
+  });
+
+  it('runs bulkWrite with the token from previewBulkWrite', async () => {
+    const { collection, call, preview } = setup();
+    const operations = [{ insertOne: { document: { a: 1 } } }, { deleteOne: { filter: { a: 2 } } }];
+
+    const { approvalToken } = await preview('previewBulkWrite', { collection: 'orders', operations });
+    await call('bulkWrite', { collection: 'orders', operations, approvalToken });
+
+    expect(collection.bulkWrite).toHaveBeenCalled();
+  });
+
+  it('refuses bulkWrite when its updateMany and deleteMany operations match more documents than at preview', async () => {
+    const { collection, call, preview } = setup();
+    const operations = [{ insertOne: { document: { a: 1 } } }, { deleteMany: { filter } }, { updateMany: { filter, update } }];
+
+    const previewed = await preview('previewBulkWrite', { collection: 'orders', operations });
+    collection.countDocuments.mockResolvedValue(35);
+    const result = await call('bulkWrite', { collection: 'orders', operations, approvalToken: previewed.approvalToken });
+
+    expect(previewed.matchedDocuments).toBe(40);
+    expect(result.content[0].text).toMatch(/changed from 40 at preview to 70/);
+    expect(collection.bulkWrite).not.toHaveBeenCalled();
+  });
+
+  it('neither issues nor requires tokens when approval is off', async () => {
+    applyWriteApprovalSettings({ required: false });
+    const { call, preview } = setup();
+
+    expect(await preview('previewDelete', { collection: 'orders', filter })).not.toHaveProperty('approvalToken');
+    expect((await call('deleteMany', { collection: 'orders', filter })).content[0].text).toMatch(/^20 document\(s\) deleted\./);
+  });
+});
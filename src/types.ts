@@ -135,11 +135,168 @@ export interface MongoAdminError {
   mongoError?: Record<string, unknown>;
 }
 
+export type TransportType = 'stdio' | 'http';
+
+export interface AuthToken {
+  name: string;
+  token: string;
+  mode: 'read-only' | 'read-write';
+  tools?: string[];
+}
+
+export type ConnectionState = 'connecting' | 'connected' | 'reconnecting' | 'disconnected' | 'failed' | 'closed';
+
+export type ConnectionErrorCategory =
+  | 'connecting'
+  | 'invalid_uri'
+  | 'authentication_failed'
+  | 'dns_srv_failure'
+  | 'dns_failure'
+  | 'unreachable'
+  | 'unknown';
+
+export interface ConnectionDiagnosis {
+  category: ConnectionErrorCategory;
+  message: string;
+  hint: string;
+}
+
+export interface ConnectionHealth {
+  state: ConnectionState;
+  lastError?: string;
+  lastErrorAt?: string;
+  lastConnectedAt?: string;
+  diagnosis?: ConnectionDiagnosis;
+  connectAttempts: number;
+  reconnectAttempts: number;
+  successfulReconnects: number;
+}
+
+export interface QueryLimits {
+  maxQueryLimit: number;
+  maxExportLimit: number;
+  maxSampleSize: number;
+  maxMonitoringDuration: number;
+  maxMonitoringLimit: number;
+  maxResultSizeBytes: number;
+}
+
+/** Caps for calls on production connections */
+export interface ProductionLimits {
+  /** Documents returned by find, textSearch, findRecent and findInTimeRange */
+  maxQueryLimit: number;
+  /** Server-side time limit for every read */
+  maxTimeMS: number;
+  /** Live monitoring duration, interval and sample duration */
+  maxMonitoringDuration: number;
+}
+
+/** Requires a preview's approval token for updateMany, deleteMany and bulkWrite */
+export interface WriteApprovalSettings {
+  required: boolean;
+  /** How long a token stays valid */
+  ttlMs: number;
+  /** Fraction by which the live match count may differ from the previewed count */
+  tolerance: number;
+}
+
+/** Restricts every query and write to the documents whose `field` equals `value` */
+export interface TenantScope {
+  /** Top-level field present on every document */
+  field: string;
+  value: string | number;
+}
+
+/** Built-in detectors for personal data in string values */
+export type PiiDetectorName = 'email' | 'phone' | 'creditCard' | 'iban' | 'ipAddress' | 'nationalId' | 'name';
+
+/**
+ * How masked values are shown: `redact` replaces them, `hash` shows a stable
+ * digest, `partial` keeps the last characters (or an email's domain) and
+ * `fake` swaps each letter and digit for another, keeping the format.
+ */
+export type MaskingStrategy = 'redact' | 'hash' | 'partial' | 'fake';
+
+/** Masks values in every document a tool returns */
+export interface MaskingRule {
+  /** Dotted field paths, `*` matching one segment; without pattern or detector the whole value is masked */
+  fields?: string[];
+  /** Regular expression; the parts of string values it matches are masked */
+  pattern?: string;
+  /** Built-in alternative to pattern */
+  detector?: PiiDetectorName;
+  strategy: MaskingStrategy;
+}
+
+/** What a tool call does to a collection; `lookup` is reading it from a pipeline or relationship on another collection */
+export type PolicyOperation = 'read' | 'lookup' | 'insert' | 'update' | 'delete' | 'drop' | 'create' | 'index';
+
+/** A team-defined rule checked before every tool call on the collections it names */
+export interface PolicyRule {
+  name: string;
+  /** Shown in refusals to explain the rule */
+  description?: string;
+  /** Collection names or globs (`*`, `?`) */
+  collections: string[];
+  /** Operations the rule applies to, all when omitted; `write` stands for every operation that changes data */
+  operations?: Array<PolicyOperation | 'write'>;
+  /** Refuse matching calls outright */
+  deny?: boolean;
+  /** The call's filter must pin each of these fields with an equality, $eq or $in condition */
+  requireFilterFields?: string[];
+  /** Most documents a matching call may affect */
+  maxDocuments?: number;
+}
+
+export interface DatabaseAccessRule {
+  /** Database name or glob (`*`, `?`) */
+  pattern: string;
+  write: boolean;
+}
+
+export interface ConnectionConfig {
+  name: string;
+  uri: string;
+  dbName: string;
+  mode: string;
+  /** Databases besides dbName that tools may target through a `database` argument */
+  databases?: DatabaseAccessRule[];
+  policies?: PolicyRule[];
+  /** Environment label such as 'production', from the profile or a production host pattern */
+  environment?: string;
+}
+
+/** Narrows which tools are exposed; names and categories are validated against the tool registry */
+export interface ToolFilter {
+  /** Tools to expose in addition to those picked by categories */
+  tools?: string[];
+  /** Tools to hide even when picked by name or category */
+  disableTools?: string[];
+  categories?: string[];
+}
+
 export interface AppConfig {
   uri: string;
   dbName: string;
   mode: string;
+  /** Named connections; the first one is the startup connection built from uri/dbName/mode */
+  connections: ConnectionConfig[];
   logDir: string;
+  transport: TransportType;
+  port: number;
+  host: string;
+  authTokensFile?: string;
+  profile?: string;
+  limits?: Partial<QueryLimits>;
+  productionLimits?: Partial<ProductionLimits>;
+  writeApproval?: Partial<WriteApprovalSettings>;
+  tenant?: TenantScope;
+  masking?: MaskingRule[];
+  toolFilter?: ToolFilter;
+  /** Print the exposed tool catalog and exit instead of starting the server */
+  listTools?: boolean;
+  /** Refuse to start when a read-only connection's credentials could write */
+  requireReadonlyUser?: boolean;
 }
 
 export interface CurrentOpCommand {
@@ -11,7 +11,7 @@ export const VALID_BULK_OPERATION_TYPES = [
 
 export const MAX_BULK_OPERATIONS = 1000;
 
-const MULTI_DOC_OPERATIONS = ['updateMany', 'deleteMany'];
+export const MULTI_DOC_OPERATIONS = ['updateMany', 'deleteMany'];
 
 const OPERATIONS_WITH_FILTER = ['updateOne', 'updateMany', 'deleteOne', 'deleteMany', 'replaceOne'];
 
@@ -0,0 +1,90 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { MongoClient } from 'mongodb';
+import {
+  createOperationComment,
+  killTaggedOperations,
+  OperationCancelledError,
+  runWithOperationComment,
+  tagOperation,
+} from './cancellation.js';
+import { runWithGuardrails } from './production-guardrails.js';
+
+describe('createOperationComment', () => {
+  it('builds unique comments naming the tool', () => {
+    const first = createOperationComment('aggregate');
+    const second = createOperationComment('aggregate');
+
+    expect(first).toMatch(/^mongo-scout:aggregate:[0-9a-f-]{36}$/);
+    expect(first).not.toBe(second);
+  });
+});
+
+describe('tagOperation', () => {
+  it('leaves options untouched outside a tool call', () => {
+    expect(tagOperation()).toEqual({});
+    expect(tagOperation({ limit: 5 })).toEqual({ limit: 5 });
+  });
+
+  it('adds the comment of the current tool call', async () => {
+    const tagged = await runWithOperationComment('mongo-scout:find:1', undefined, async () => {
+      await Promise.resolve();
+      return tagOperation({ allowDiskUse: true, comment: 'caller' });
+    });
+
+    expect(tagged).toEqual({ allowDiskUse: true, comment: 'mongo-scout:find:1' });
+  });
+
+  it('applies the production guardrails of the current call', () => {
+    const tagged = runWithOperationComment('c', undefined, () =>
+      runWithGuardrails({ maxTimeMS: 30_000, readPreference: 'secondaryPreferred', requireApproval: true }, () => [
+        tagOperation({ maxTimeMS: 60_000 }),
+        tagOperation({ maxTimeMS: 5_000 }),
+      ])
+    );
+
+    expect(tagged).toEqual([
+      { comment: 'c', maxTimeMS: 30_000, readPreference: 'secondaryPreferred' },
+      { comment: 'c', maxTimeMS: 5_000, readPreference: 'secondaryPreferred' },
+    ]);
+  });
+
+  it('refuses to start operations once the call was cancelled', () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    expect(() => runWithOperationComment('c', controller.signal, () => tagOperation())).toThrow(
+      OperationCancelledError
+    );
+  });
+});
+
+describe('killTaggedOperations', () => {
+  function createClient(inprog: Array<{ opid?: unknown }>) {
+    const command = vi.fn(async (cmd: Record<string, unknown>) => (cmd.currentOp ? { inprog } : { ok: 1 }));
+    const client = { db: vi.fn(() => ({ command })) } as unknown as MongoClient;
+    return { client, command };
+  }
+
+  it('kills the operations and cursors tagged with the comment', async () => {
+    const { client, command } = createClient([{ opid: 12 }, { opid: 'shard01:34' }, {}]);
+
+    const killed = await killTaggedOperations(client, 'mongo-scout:find:1');
+
+    expect(killed).toBe(2);
+    expect(client.db).toHaveBeenCalledWith('admin');
+    expect(command).toHaveBeenCalledWith({
+      currentOp: true,
+      $ownOps: true,
+      $or: [{ 'command.comment': 'mongo-scout:find:1' }, { 'cursor.originatingCommand.comment': 'mongo-scout:find:1' }],
+    });
+    expect(command).toHaveBeenCalledWith({ killOp: 1, op: 12 });
+    expect(command).toHaveBeenCalledWith({ killOp: 1, op: 'shard01:34' });
+  });
+
+  it('kills nothing when no operation is running', async () => {
+    const { client, command } = createClient([]);
+
+    expect(await killTaggedOperations(client, 'c')).toBe(0);
+    expect(command).toHaveBeenCalledTimes(1);
+  });
+});
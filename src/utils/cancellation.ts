@@ -0,0 +1,82 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { randomUUID } from 'node:crypto';
+import type { MongoClient } from 'mongodb';
+import { getGuardrails } from './production-guardrails.js';
+
+export const OPERATION_COMMENT_PREFIX = 'mongo-scout';
+
+interface OperationContext {
+  comment: string;
+  signal?: AbortSignal;
+}
+
+const operationContext = new AsyncLocalStorage<OperationContext>();
+
+export class OperationCancelledError extends Error {
+  constructor(message = 'Operation cancelled by the client') {
+    super(message);
+    this.name = 'OperationCancelledError';
+  }
+}
+
+export function createOperationComment(toolName: string): string {
+  return `${OPERATION_COMMENT_PREFIX}:${toolName}:${randomUUID()}`;
+}
+
+/** Runs a tool call so that the database operations it tags carry `comment` */
+export function runWithOperationComment<T>(comment: string, signal: AbortSignal | undefined, fn: () => T): T {
+  return operationContext.run({ comment, signal }, fn);
+}
+
+/**
+ * Adds the current tool call's comment to a database operation's options, so a
+ * cancelled call's operations can be found with currentOp and killed. The tag
+ * replaces any caller-supplied comment. Throws once the call was cancelled, so
+ * a handler does not start new operations after it.
+ *
+ * On production connections the call's guardrails also apply: maxTimeMS is
+ * lowered to the production limit, and analytics reads go to secondaries.
+ */
+export function tagOperation<T extends object>(options?: T): T & { comment?: string } {
+  const context = operationContext.getStore();
+  if (!context) {
+    return (options ?? {}) as T & { comment?: string };
+  }
+  if (context.signal?.aborted) {
+    throw new OperationCancelledError();
+  }
+
+  const tagged: T & { comment?: string; maxTimeMS?: number; readPreference?: string } = {
+    ...(options as T),
+    comment: context.comment,
+  };
+  const guardrails = getGuardrails();
+  if (guardrails) {
+    tagged.maxTimeMS = Math.min(tagged.maxTimeMS ?? Infinity, guardrails.maxTimeMS);
+    if (guardrails.readPreference) {
+      tagged.readPreference = guardrails.readPreference;
+    }
+  }
+  return tagged;
+}
+
+/**
+ * Kills the running operations tagged with `comment`, including getMore batches
+ * of their cursors. Resolves to the number of operations killed.
+ */
+export async function killTaggedOperations(client: MongoClient, comment: string): Promise<number> {
+  const admin = client.db('admin');
+  const { inprog = [] } = await admin.command({
+    currentOp: true,
+    $ownOps: true,
+    $or: [{ 'command.comment': comment }, { 'cursor.originatingCommand.comment': comment }],
+  });
+
+  let killed = 0;
+  for (const op of inprog as Array<{ opid?: unknown }>) {
+    if (op.opid === undefined) continue;
+    await admin.command({ killOp: 1, op: op.opid });
+    killed++;
+  }
+  return killed;
+}
@@ -0,0 +1,83 @@
+import { MongoParseError, MongoServerError } from 'mongodb';
+import { redactString } from './uri-redactor.js';
+import type { ConnectionDiagnosis } from '../types.js';
+
+const AUTH_FAILURE_CODE = 18;
+
+const SRV_PATTERNS = ['querysrv', '_mongodb._tcp'];
+const DNS_PATTERNS = ['enotfound', 'eai_again', 'getaddrinfo'];
+const UNREACHABLE_PATTERNS = [
+  'econnrefused',
+  'econnreset',
+  'etimedout',
+  'ehostunreach',
+  'enetunreach',
+  'server selection timed out',
+  'timed out',
+];
+
+function errorMessage(error: unknown): string {
+  return redactString(error instanceof Error ? error.message : String(error));
+}
+
+/**
+ * Classifies why the database could not be reached so the assistant can explain
+ * the problem to the user instead of reporting a generic failure.
+ */
+export function diagnoseConnectionError(error: unknown): ConnectionDiagnosis {
+  const message = errorMessage(error);
+  const lower = message.toLowerCase();
+
+  if (error instanceof MongoParseError || (error instanceof Error && error.name === 'MongoParseError')) {
+    return {
+      category: 'invalid_uri',
+      message,
+      hint: 'The connection string could not be parsed. Expected mongodb://[user:pass@]host[:port][/db] or mongodb+srv://[user:pass@]cluster-host[/db]. Fix the URI and restart the server.',
+    };
+  }
+
+  if (
+    (error instanceof MongoServerError && error.code === AUTH_FAILURE_CODE) ||
+    lower.includes('authentication failed') ||
+    lower.includes('bad auth')
+  ) {
+    return {
+      category: 'authentication_failed',
+      message,
+      hint: 'MongoDB rejected the credentials. Check the username, password and authSource in the connection string.',
+    };
+  }
+
+  if (SRV_PATTERNS.some((pattern) => lower.includes(pattern))) {
+    return {
+      category: 'dns_srv_failure',
+      message,
+      hint: 'The SRV record for the mongodb+srv:// host could not be resolved. Check the cluster hostname and DNS/VPN settings, or use a standard mongodb:// URI.',
+    };
+  }
+
+  if (DNS_PATTERNS.some((pattern) => lower.includes(pattern))) {
+    return {
+      category: 'dns_failure',
+      message,
+      hint: 'The database hostname could not be resolved. Check the hostname in the connection string and DNS/VPN settings.',
+    };
+  }
+
+  if (
+    (error instanceof Error && error.name === 'MongoServerSelectionError') ||
+    UNREACHABLE_PATTERNS.some((pattern) => lower.includes(pattern))
+  ) {
+    return {
+      category: 'unreachable',
+      message,
+      hint: 'No MongoDB server answered. Check that it is running, that host and port are correct, and that network, VPN and firewall allow the connection.',
+    };
+  }
+
+  return {
+    category: 'unknown',
+    message,
+    hint: 'The connection failed for an unrecognized reason. Check the server logs and the connection string.',
+  };
+}
@@ -0,0 +1,122 @@
+import { describe, it, expect, vi } from 'vitest';
+import { MongoNetworkError } from 'mongodb';
+import { withConnectionGuard, isConnectionError } from './connection-guard.js';
+import type { ConnectionManager } from './connection-manager.js';
+import type { ConnectionDiagnosis } from '../types.js';
+
+vi.mock('./logger.js', () => ({ logError: vi.fn() }));
+
+function createMockConnection(reconnected: boolean, diagnosis?: ConnectionDiagnosis): ConnectionManager {
+  return {
+    client: {} as ConnectionManager['client'],
+    connect: vi.fn(),
+    connectInBackground: vi.fn(),
+    reconnect: vi.fn(async () => reconnected),
+    getUnavailableDiagnosis: vi.fn(() => diagnosis),
+    getHealth: vi.fn(() => ({
+      state: reconnected ? 'connected' : 'disconnected',
+      lastError: 'ECONNREFUSED',
+      connectAttempts: 1,
+      reconnectAttempts: 5,
+      successfulReconnects: 0,
+    })),
+    close: vi.fn(),
+  } as ConnectionManager;
+}
+
+const ok = { content: [{ type: 'text', text: 'ok' }] };
+
+describe('isConnectionError', () => {
+  it('detects driver network errors and topology messages', () => {
+    expect(isConnectionError(new MongoNetworkError('socket hang up'))).toBe(true);
+    expect(isConnectionError(new Error('Topology is closed'))).toBe(true);
+    expect(isConnectionError(new Error('E11000 duplicate key'))).toBe(false);
+  });
+});
+
+describe('withConnectionGuard', () => {
+  it('rethrows errors that are not connection errors', async () => {
+    const handler = vi.fn().mockRejectedValue(new Error('bad filter'));
+    const guarded = withConnectionGuard('find', handler, { connection: createMockConnection(true), retryable: true });
+
+    await expect(guarded({})).rejects.toThrow('bad filter');
+  });
+
+  it('asks for a restart when no connection manager is available', async () => {
+    const handler = vi.fn().mockRejectedValue(new MongoNetworkError('socket hang up'));
+    const guarded = withConnectionGuard('find', handler);
+
+    const result = (await guarded({})) as typeof ok;
+    expect(result.content[0].text).toMatch(/restart the MCP server/);
+  });
+
+  it('retries a read tool once after reconnecting', async () => {
+    const connection = createMockConnection(true);
+    const handler = vi.fn().mockRejectedValueOnce(new MongoNetworkError('socket hang up')).mockResolvedValueOnce(ok);
+    const guarded = withConnectionGuard('find', handler, { connection, retryable: true });
+
+    const result = await guarded({ collection: 'users' }, { requestId: 1 });
+
+    expect(result).toEqual(ok);
+    expect(connection.reconnect).toHaveBeenCalledTimes(1);
+    expect(handler).toHaveBeenCalledTimes(2);
+    expect(handler).toHaveBeenLastCalledWith({ collection: 'users' }, { requestId: 1 });
+  });
+
+  it('does not retry write tools after reconnecting', async () => {
+    const connection = createMockConnection(true);
+    const handler = vi.fn().mockRejectedValue(new MongoNetworkError('socket hang up'));
+    const guarded = withConnectionGuard('insertOne', handler, { connection, retryable: false });
+
+    const result = (await guarded({})) as typeof ok;
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(result.content[0].text).toMatch(/was not retried automatically/);
+  });
+
+  it('reports the failed reconnect with the last error', async () => {
+    const connection = createMockConnection(false);
+    const handler = vi.fn().mockRejectedValue(new MongoNetworkError('socket hang up'));
+    const guarded = withConnectionGuard('find', handler, { connection, retryable: true });
+
+    const result = (await guarded({})) as typeof ok;
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(result.content[0].text).toMatch(/could not be re-established \(5 reconnect attempts/);
+    expect(result.content[0].text).toContain('ECONNREFUSED');
+  });
+
+  it('retries only once when the connection drops again', async () => {
+    const connection = createMockConnection(true);
+    const handler = vi.fn().mockRejectedValue(new MongoNetworkError('socket hang up'));
+    const guarded = withConnectionGuard('find', handler, { connection, retryable: true });
+
+    const result = (await guarded({})) as typeof ok;
+
+    expect(handler).toHaveBeenCalledTimes(2);
+    expect(result.content[0].text).toMatch(/dropped again/);
+  });
+
+  it('returns a structured diagnostic without calling the handler while the database is unavailable', async () => {
+    const connection = createMockConnection(false, {
+      category: 'authentication_failed',
+      message: 'Authentication failed.',
+      hint: 'Check the username and password.',
+    });
+    const handler = vi.fn().mockResolvedValue(ok);
+    const guarded = withConnectionGuard('find', handler, { connection, retryable: true });
+
+    const result = (await guarded({})) as typeof ok & { isError?: boolean };
+
+    expect(handler).not.toHaveBeenCalled();
+    expect(result.isError).toBe(true);
+    const report = JSON.parse(result.content[0].text.slice(result.content[0].text.indexOf('{')));
+    expect(report).toMatchObject({
+      error: 'database_unavailable',
+      tool: 'find',
+      category: 'authentication_failed',
+      hint: 'Check the username and password.',
+      connectAttempts: 1,
+    });
+  });
+});
@@ -1,5 +1,7 @@
 import { MongoNetworkError, MongoServerClosedError, MongoNotConnectedError } from 'mongodb';
 import { logError } from './logger.js';
+import type { ConnectionManager } from './connection-manager.js';
+import type { ConnectionDiagnosis } from '../types.js';
 
 const CONNECTION_ERROR_NAMES = [
   'MongoNetworkError',
@@ -44,28 +46,117 @@ const CONNECTION_LOST_MESSAGE =
   'MongoDB connection lost. The server can no longer communicate with the database. ' +
   'Please restart the MCP server to re-establish the connection.';
 
+export interface ConnectionGuardOptions {
+  connection?: ConnectionManager;
+  /** Idempotent reads are re-run once after a successful reconnect */
+  retryable?: boolean;
+}
+
+function connectionMessage<TResult>(toolName: string, message: string): TResult {
+  return {
+    content: [
+      {
+        type: 'text' as const,
+        text: `[${toolName}] ${message}`,
+      },
+    ],
+    isError: true,
+  } as TResult;
+}
+
+function unavailableResult<TResult>(
+  toolName: string,
+  connection: ConnectionManager,
+  diagnosis: ConnectionDiagnosis
+): TResult {
+  const health = connection.getHealth();
+  const report = {
+    error: 'database_unavailable',
+    tool: toolName,
+    category: diagnosis.category,
+    message: diagnosis.message,
+    hint: diagnosis.hint,
+    state: health.state,
+    connectAttempts: health.connectAttempts,
+    lastAttemptAt: health.lastErrorAt,
+  };
+
+  return {
+    content: [
+      {
+        type: 'text' as const,
+        text: `[${toolName}] Database unavailable:\n${JSON.stringify(report, null, 2)}`,
+      },
+    ],
+    isError: true,
+  } as TResult;
+}
+
+function reconnectFailedMessage(connection: ConnectionManager): string {
+  const health = connection.getHealth();
+  return (
+    `MongoDB connection lost and could not be re-established (${health.reconnectAttempts} reconnect attempts so far). ` +
+    `Last error: ${health.lastError ?? 'unknown'}. ` +
+    'Reconnection will be attempted again on the next tool call; use getConnectionHealth to check the connection state.'
+  );
+}
+
+function notRetriedMessage(toolName: string): string {
+  return (
+    'MongoDB connection was lost and has been re-established, ' +
+    `but '${toolName}' was not retried automatically because it may modify data. ` +
+    'Check whether it took effect before running it again.'
+  );
+}
+
 export function withConnectionGuard<TArgs, TResult>(
   toolName: string,
-  handler: (args: TArgs) => Promise<TResult>
-): (args: TArgs) => Promise<TResult> {
-  return async (args: TArgs): Promise<TResult> => {
+  handler: (args: TArgs, ...rest: unknown[]) => Promise<TResult>,
+  options: ConnectionGuardOptions = {}
+): (args: TArgs, ...rest: unknown[]) => Promise<TResult> {
+  const { connection, retryable = false } = options;
+
+  return async (args: TArgs, ...rest: unknown[]): Promise<TResult> => {
+    const diagnosis = connection?.getUnavailableDiagnosis();
+    if (connection && diagnosis) {
+      return unavailableResult(toolName, connection, diagnosis);
+    }
+
     try {
-      return await handler(args);
+      return await handler(args, ...rest);
     } catch (error) {
-      if (isConnectionError(error)) {
-        logError(toolName, error, args);
-
-        return {
-          content: [
-            {
-              type: 'text' as const,
-              text: `[${toolName}] ${CONNECTION_LOST_MESSAGE}`,
-            },
-          ],
-        } as TResult;
+      if (!isConnectionError(error)) {
+        throw error;
+      }
+
+      logError(toolName, error, args);
+
+      if (!connection) {
+        return connectionMessage(toolName, CONNECTION_LOST_MESSAGE);
+      }
+
+      const reconnected = await connection.reconnect(error);
+      if (!reconnected) {
+        return connectionMessage(toolName, reconnectFailedMessage(connection));
       }
 
-      throw error;
+      if (!retryable) {
+        return connectionMessage(toolName, notRetriedMessage(toolName));
+      }
+
+      try {
+        return await handler(args, ...rest);
+      } catch (retryError) {
+        if (!isConnectionError(retryError)) {
+          throw retryError;
+        }
+        logError(toolName, retryError, args);
+        return connectionMessage(
+          toolName,
+          'MongoDB connection dropped again right after reconnecting. ' +
+            'Reconnection will be attempted again on the next tool call; use getConnectionHealth to check the connection state.'
+        );
+      }
     }
   };
 }
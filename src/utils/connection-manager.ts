@@ -0,0 +1,271 @@
+import { MongoClient } from 'mongodb';
+import { redactString } from './uri-redactor.js';
+import { diagnoseConnectionError } from './connection-diagnostics.js';
+import { fetchUserPrivileges } from './privileges.js';
+import type { UserPrivileges } from './privileges.js';
+import type { ConnectionDiagnosis, ConnectionHealth, ConnectionState } from '../types.js';
+
+export interface ReconnectOptions {
+  maxAttempts: number;
+  initialDelayMs: number;
+  maxDelayMs: number;
+  sleep?: (ms: number) => Promise<void>;
+}
+
+export const DEFAULT_RECONNECT_OPTIONS: ReconnectOptions = {
+  maxAttempts: 5,
+  initialDelayMs: 500,
+  maxDelayMs: 10000,
+};
+
+/**
+ * Connection string the placeholder client is built from when the configured URI
+ * cannot be parsed. The placeholder is never connected.
+ */
+const PLACEHOLDER_URI = 'mongodb://127.0.0.1:27017';
+
+export interface ConnectionManager {
+  readonly client: MongoClient;
+  connect(): Promise<void>;
+  /**
+   * Keeps trying to establish the initial connection until it succeeds, the URI
+   * turns out to be invalid, or the manager is closed. Resolves to whether a
+   * connection was made.
+   */
+  connectInBackground(onAttemptFailed?: (diagnosis: ConnectionDiagnosis) => void): Promise<boolean>;
+  /**
+   * Re-establishes the connection, retrying with exponential backoff. Concurrent
+   * callers share the same attempt. Resolves to false once all attempts failed.
+   */
+  reconnect(cause?: unknown): Promise<boolean>;
+  /**
+   * Why tools cannot run yet: set until the first connection succeeds, undefined
+   * afterwards (later outages are handled by reconnect).
+   */
+  getUnavailableDiagnosis(): ConnectionDiagnosis | undefined;
+  getHealth(): ConnectionHealth;
+  /** The connected user's privileges, read after every (re)connect; undefined until then or if the check failed */
+  getPrivileges(): UserPrivileges | undefined;
+  /** Calls listener whenever the privileges are read again. Returns a function that removes it. */
+  onPrivilegesChanged(listener: () => void): () => void;
+  close(): Promise<void>;
+}
+
+export function getBackoffDelay(attempt: number, options: Pick<ReconnectOptions, 'initialDelayMs' | 'maxDelayMs'>): number {
+  return Math.min(options.initialDelayMs * 2 ** (attempt - 1), options.maxDelayMs);
+}
+
+function defaultSleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function buildConnectionManager(
+  client: MongoClient,
+  options: Partial<ReconnectOptions>,
+  uriError?: unknown
+): ConnectionManager {
+  const { maxAttempts, initialDelayMs, maxDelayMs, sleep = defaultSleep } = { ...DEFAULT_RECONNECT_OPTIONS, ...options };
+
+  let state: ConnectionState = 'disconnected';
+  let lastError: string | undefined;
+  let lastErrorAt: string | undefined;
+  let lastConnectedAt: string | undefined;
+  let diagnosis: ConnectionDiagnosis | undefined;
+  let connectAttempts = 0;
+  let reconnectAttempts = 0;
+  let successfulReconnects = 0;
+  let inFlight: Promise<boolean> | undefined;
+  let closed = false;
+  let privileges: UserPrivileges | undefined;
+  const privilegeListeners = new Set<() => void>();
+
+  const recordError = (error: unknown) => {
+    lastError = redactString(error instanceof Error ? error.message : String(error));
+    lastErrorAt = new Date().toISOString();
+    diagnosis = diagnoseConnectionError(error);
+  };
+
+  if (uriError !== undefined) {
+    recordError(uriError);
+    state = 'failed';
+  }
+
+  const openAndPing = async () => {
+    await client.connect();
+    await client.db('admin').command({ ping: 1 });
+    if (!closed) {
+      state = 'connected';
+    }
+    lastConnectedAt = new Date().toISOString();
+
+    // Roles may have changed while disconnected; a failed check leaves every tool available
+    privileges = await fetchUserPrivileges(client).catch(() => undefined);
+    privilegeListeners.forEach((listener) => listener());
+  };
+
+  const runReconnect = async (): Promise<boolean> => {
+    state = 'reconnecting';
+
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      await sleep(getBackoffDelay(attempt, { initialDelayMs, maxDelayMs }));
+      if (closed) {
+        return false;
+      }
+
+      reconnectAttempts++;
+      try {
+        await client.close().catch(() => undefined);
+        await openAndPing();
+        successfulReconnects++;
+        return true;
+      } catch (error) {
+        recordError(error);
+      }
+    }
+
+    if (!closed) {
+      state = 'disconnected';
+    }
+    return false;
+  };
+
+  const connect = async () => {
+    if (uriError !== undefined) {
+      throw uriError;
+    }
+
+    state = 'connecting';
+    connectAttempts++;
+    try {
+      await openAndPing();
+    } catch (error) {
+      recordError(error);
+      if (!closed) {
+        state = 'disconnected';
+      }
+      throw error;
+    }
+  };
+
+  return {
+    client,
+    connect,
+
+    async connectInBackground(onAttemptFailed) {
+      if (uriError !== undefined) {
+        return false;
+      }
+
+      for (let attempt = 1; !closed; attempt++) {
+        try {
+          if (attempt > 1) {
+            await client.close().catch(() => undefined);
+          }
+          await connect();
+          return true;
+        } catch {
+          if (diagnosis) {
+            onAttemptFailed?.(diagnosis);
+          }
+          if (diagnosis?.category === 'invalid_uri') {
+            state = 'failed';
+            return false;
+          }
+          // Stay in 'connecting' between attempts so tools report a startup problem
+          state = 'connecting';
+        }
+        await sleep(getBackoffDelay(attempt, { initialDelayMs, maxDelayMs }));
+      }
+
+      return false;
+    },
+
+    reconnect(cause?: unknown) {
+      if (closed || uriError !== undefined) {
+        return Promise.resolve(false);
+      }
+      if (cause !== undefined) {
+        recordError(cause);
+      }
+      if (!inFlight) {
+        inFlight = runReconnect().finally(() => {
+          inFlight = undefined;
+        });
+      }
+      return inFlight;
+    },
+
+    getUnavailableDiagnosis() {
+      if (lastConnectedAt) {
+        return undefined;
+      }
+      return (
+        diagnosis ?? {
+          category: 'connecting',
+          message: 'The server is still establishing its first connection to MongoDB.',
+          hint: 'Retry in a few seconds.',
+        }
+      );
+    },
+
+    getHealth() {
+      return {
+        state,
+        lastError,
+        lastErrorAt,
+        lastConnectedAt,
+        diagnosis,
+        connectAttempts,
+        reconnectAttempts,
+        successfulReconnects,
+      };
+    },
+
+    getPrivileges() {
+      return privileges;
+    },
+
+    onPrivilegesChanged(listener) {
+      privilegeListeners.add(listener);
+      return () => {
+        privilegeListeners.delete(listener);
+      };
+    },
+
+    async close() {
+      closed = true;
+      state = 'closed';
+      await client.close();
+    },
+  };
+}
+
+/**
+ * Owns the MongoClient for the lifetime of the process. The same client instance
+ * is closed and reconnected in place, so Db handles captured by tools at
+ * registration time keep working after a reconnect.
+ */
+export function createConnectionManager(
+  client: MongoClient,
+  options: Partial<ReconnectOptions> = {}
+): ConnectionManager {
+  return buildConnectionManager(client, options);
+}
+
+/**
+ * Builds the client from a connection string. An unparseable URI does not throw:
+ * the manager is returned in the 'failed' state so the server can still start
+ * and explain the problem through every tool call.
+ */
+export function createConnectionManagerFromUri(
+  uri: string,
+  options: Partial<ReconnectOptions> = {}
+): ConnectionManager {
+  try {
+    return buildConnectionManager(new MongoClient(uri), options);
+  } catch (error) {
+    // Tools need a client to register against. This one is never connected:
+    // getUnavailableDiagnosis() reports the URI error for every call.
+    return buildConnectionManager(new MongoClient(PLACEHOLDER_URI), options, error);
+  }
+}
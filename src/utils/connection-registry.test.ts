@@ -0,0 +1,23 @@
+import { describe, it, expect } from 'vitest';
+import { createConnectionRegistryFromConfig } from './connection-registry.js';
+
+describe('createConnectionRegistryFromConfig', () => {
+  it('creates one managed client per connection, first one as default', () => {
+    const registry = createConnectionRegistryFromConfig([
+      { name: 'dev', uri: 'mongodb://127.0.0.1:27017', dbName: 'app', mode: 'read-write' },
+      { name: 'prod', uri: 'mongodb://127.0.0.1:27018', dbName: 'app', mode: 'read-only' },
+    ]);
+
+    expect(registry.defaultName).toBe('dev');
+    expect(registry.list().map((entry) => entry.name)).toEqual(['dev', 'prod']);
+    expect(registry.get('prod')?.mode).toBe('read-only');
+    expect(registry.get('dev')?.connection.client).not.toBe(registry.get('prod')?.connection.client);
+    expect(registry.get('qa')).toBeUndefined();
+  });
+
+  it('rejects duplicate and missing connections', () => {
+    const dev = { name: 'dev', uri: 'mongodb://127.0.0.1:27017', dbName: 'app', mode: 'read-only' };
+    expect(() => createConnectionRegistryFromConfig([dev, dev])).toThrow(/Duplicate connection name 'dev'/);
+    expect(() => createConnectionRegistryFromConfig([])).toThrow(/At least one connection/);
+  });
+});
@@ -0,0 +1,75 @@
+import { createConnectionManagerFromUri } from './connection-manager.js';
+import type { ConnectionManager, ReconnectOptions } from './connection-manager.js';
+import type { ConnectionConfig, DatabaseAccessRule, PolicyRule } from '../types.js';
+
+export interface RegisteredConnection {
+  name: string;
+  dbName: string;
+  mode: string;
+  databases?: DatabaseAccessRule[];
+  policies?: PolicyRule[];
+  /** Environment label such as 'production' */
+  environment?: string;
+  connection: ConnectionManager;
+}
+
+export interface ConnectionRegistry {
+  /** Name of the connection sessions start on */
+  readonly defaultName: string;
+  get(name: string): RegisteredConnection | undefined;
+  list(): RegisteredConnection[];
+  closeAll(): Promise<void>;
+}
+
+export function createConnectionRegistry(
+  entries: RegisteredConnection[]
+): ConnectionRegistry {
+  if (entries.length === 0) {
+    throw new Error('At least one connection must be configured');
+  }
+
+  const byName = new Map<string, RegisteredConnection>();
+  for (const entry of entries) {
+    if (byName.has(entry.name)) {
+      throw new Error(`Duplicate connection name '${entry.name}'`);
+    }
+    byName.set(entry.name, entry);
+  }
+
+  return {
+    defaultName: entries[0].name,
+
+    get(name: string) {
+      return byName.get(name);
+    },
+
+    list() {
+      return [...byName.values()];
+    },
+
+    async closeAll() {
+      await Promise.allSettled(entries.map((entry) => entry.connection.close()));
+    },
+  };
+}
+
+/**
+ * One MongoClient per configured connection. Clients are not connected here;
+ * each manager connects in the background once the server is up.
+ */
+export function createConnectionRegistryFromConfig(
+  configs: ConnectionConfig[],
+  options: Partial<ReconnectOptions> = {}
+): ConnectionRegistry {
+  return createConnectionRegistry(
+    configs.map((config) => ({
+      name: config.name,
+      dbName: config.dbName,
+      mode: config.mode,
+      databases: config.databases,
+      policies: config.policies,
+      environment: config.environment,
+      connection: createConnectionManagerFromUri(config.uri, options),
+    }))
+  );
+}
@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import { auditCredentials, auditReadOnlyCredentials } from './credential-audit.js';
+import { createConnectionRegistry } from './connection-registry.js';
+import type { RegisteredConnection } from './connection-registry.js';
+import type { ConnectionManager } from './connection-manager.js';
+import type { UserPrivileges } from './privileges.js';
+
+function createEntry(name: string, mode: string, privileges?: UserPrivileges): RegisteredConnection {
+  const connection = { getPrivileges: () => privileges } as unknown as ConnectionManager;
+  return { name, dbName: 'app', mode, connection };
+}
+
+const reader: UserPrivileges = {
+  users: ['analyst@admin'],
+  roles: ['read@app'],
+  privileges: [
+    {
+      resource: { db: 'app', collection: '' },
+      actions: [
+        'changeStream',
+        'collStats',
+        'dbHash',
+        'dbStats',
+        'find',
+        'killCursors',
+        'listCollections',
+        'listIndexes',
+        'listSearchIndexes',
+      ],
+    },
+  ],
+};
+
+const writer: UserPrivileges = {
+  users: ['app@admin'],
+  roles: ['readWrite@app'],
+  privileges: [{ resource: { db: 'app', collection: '' }, actions: ['find', 'update', 'insert', 'remove'] }],
+};
+
+describe('auditReadOnlyCredentials', () => {
+  it('warns when a read-only connection can write, naming the user, roles and actions', () => {
+    expect(auditReadOnlyCredentials(createEntry('prod', 'read-only', writer))).toBe(
+      "Connection 'prod' runs in read-only mode, but app@admin (readWrite@app) can write: insert, remove, update. Only the exposed tools keep it read-only. Connect as a user with only the read role."
+    );
+  });
+
+  it('warns when there is no authentication', () => {
+    expect(auditReadOnlyCredentials(createEntry('dev', 'read-only', { users: [], roles: [], privileges: [] }))).toMatch(
+      /^Connection 'dev' runs in read-only mode without authentication/
+    );
+  });
+
+  it('passes read-only users, read-write connections and unknown privileges', () => {
+    expect(auditReadOnlyCredentials(createEntry('prod', 'read-only', reader))).toBeUndefined();
+    expect(auditReadOnlyCredentials(createEntry('staging', 'read-write', writer))).toBeUndefined();
+    expect(auditReadOnlyCredentials(createEntry('prod', 'read-only'))).toBeUndefined();
+  });
+});
+
+describe('auditCredentials', () => {
+  it('collects the warnings of every connection', () => {
+    const registry = createConnectionRegistry([
+      createEntry('prod', 'read-only', writer),
+      createEntry('reporting', 'read-only', reader),
+      createEntry('staging', 'read-write', writer),
+    ]);
+
+    expect(auditCredentials(registry)).toEqual([expect.stringMatching(/^Connection 'prod'/)]);
+  });
+});
@@ -0,0 +1,30 @@
+import type { ConnectionRegistry, RegisteredConnection } from './connection-registry.js';
+import { findWriteActions } from './privileges.js';
+
+/**
+ * Why a read-only connection's credentials could write, or undefined when they
+ * cannot, the connection is read-write, or its privileges are not known yet.
+ * Read-only mode only decides which tools are exposed, so a validator gap in
+ * one of them would reach the database with whatever the user may do.
+ */
+export function auditReadOnlyCredentials(entry: RegisteredConnection): string | undefined {
+  const user = entry.mode === 'read-only' ? entry.connection.getPrivileges() : undefined;
+  if (!user) {
+    return undefined;
+  }
+
+  if (user.users.length === 0) {
+    return `Connection '${entry.name}' runs in read-only mode without authentication, so MongoDB accepts any write. Connect as a user with only the read role.`;
+  }
+  const writeActions = findWriteActions(user);
+  if (writeActions.length === 0) {
+    return undefined;
+  }
+  const roles = user.roles.length > 0 ? ` (${user.roles.join(', ')})` : '';
+  return `Connection '${entry.name}' runs in read-only mode, but ${user.users.join(', ')}${roles} can write: ${writeActions.join(', ')}. Only the exposed tools keep it read-only. Connect as a user with only the read role.`;
+}
+
+/** The audit warnings of every connection whose privileges are known */
+export function auditCredentials(registry: ConnectionRegistry): string[] {
+  return registry.list().flatMap((entry) => auditReadOnlyCredentials(entry) ?? []);
+}
@@ -0,0 +1,95 @@
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { ElicitResultSchema } from '@modelcontextprotocol/sdk/types.js';
+import type { ElicitRequest, ElicitResult } from '@modelcontextprotocol/sdk/types.js';
+import { convertObjectIdsToExtendedJson } from './sanitize.js';
+import type { MongoDocument } from '../types.js';
+
+/** How long the user has to answer a confirmation prompt */
+export const CONFIRMATION_TIMEOUT_MS = 5 * 60_000;
+
+/** Documents shown in a confirmation prompt */
+export const CONFIRMATION_SAMPLE_SIZE = 3;
+
+/** What a destructive call is about to do, as shown to the user */
+export interface ConfirmationPreview {
+  /** Imperative summary, e.g. "Drop collection 'users'" */
+  action: string;
+  database: string;
+  collection: string;
+  filter?: MongoDocument;
+  matchedCount: number;
+  sample: MongoDocument[];
+}
+
+/** The parts of the SDK's request extra that confirmation prompts use */
+export interface ElicitationExtra {
+  signal?: AbortSignal;
+  sendRequest?: (
+    request: ElicitRequest,
+    resultSchema: typeof ElicitResultSchema,
+    options?: { signal?: AbortSignal; timeout?: number }
+  ) => Promise<ElicitResult>;
+}
+
+/** True once the connected client has declared support for form elicitation */
+export function clientSupportsElicitation(server: McpServer): boolean {
+  return Boolean(server.server.getClientCapabilities()?.elicitation?.form);
+}
+
+export function formatConfirmationMessage(preview: ConfirmationPreview): string {
+  const lines = [
+    `${preview.action}?`,
+    '',
+    `Collection: ${preview.database}.${preview.collection}`,
+    `Matched documents: ${preview.matchedCount.toLocaleString()}`,
+  ];
+  if (preview.filter) {
+    lines.push(`Filter: ${JSON.stringify(convertObjectIdsToExtendedJson(preview.filter))}`);
+  }
+  if (preview.sample.length > 0) {
+    lines.push(
+      '',
+      `Sample (${preview.sample.length} of ${preview.matchedCount.toLocaleString()}):`,
+      ...preview.sample.map((document) => JSON.stringify(convertObjectIdsToExtendedJson(document)))
+    );
+  }
+  lines.push('', 'This cannot be undone.');
+  return lines.join('\n');
+}
+
+/**
+ * Asks the user to confirm a destructive call through MCP elicitation.
+ * Resolves to true only when the user accepted and ticked the confirmation;
+ * declining, cancelling or submitting it unticked all count as no.
+ */
+export async function requestConfirmation(extra: ElicitationExtra, preview: ConfirmationPreview): Promise<boolean> {
+  if (!extra.sendRequest) {
+    throw new Error('Elicitation is not available for this request');
+  }
+
+  const result = await extra.sendRequest(
+    {
+      method: 'elicitation/create',
+      params: {
+        mode: 'form',
+        message: formatConfirmationMessage(preview),
+        requestedSchema: {
+          type: 'object',
+          properties: {
+            confirm: {
+              type: 'boolean',
+              title: 'Proceed',
+              description: `${preview.action} (${preview.matchedCount.toLocaleString()} documents)`,
+              default: false,
+            },
+          },
+          required: ['confirm'],
+        },
+      },
+    },
+    ElicitResultSchema,
+    { signal: extra.signal, timeout: CONFIRMATION_TIMEOUT_MS }
+  );
+
+  return result.action === 'accept' && result.content?.confirm === true;
+}
@@ -1,5 +1,12 @@
 import { describe, it, expect } from 'vitest';
-import { validateFilter, shouldBlockFilter, getOperationWarning, validateFilterDepth, MAX_FILTER_DEPTH } from './filter-validator.js';
+import {
+  validateFilter,
+  shouldBlockFilter,
+  getOperationWarning,
+  validateFilterDepth,
+  getConstrainedFields,
+  MAX_FILTER_DEPTH,
+} from './filter-validator.js';
 
 describe('validateFilter', () => {
   it('flags empty filter as isEmpty and isMatchAll', () => {
@@ -144,3 +151,33 @@ describe('validateFilterDepth', () => {
     expect(MAX_FILTER_DEPTH).toBe(10);
   });
 });
+
+describe('getConstrainedFields', () => {
+  it('returns top-level fields and the fields of each $and branch', () => {
+    expect([...getConstrainedFields({ _id: 1, $and: [{ tenant: 'a' }, { status: { $in: ['x'] } }] })].sort()).toEqual([
+      '_id',
+      'status',
+      'tenant',
+    ]);
+  });
+
+  it('only counts equality, $eq and $in conditions', () => {
+    const filter = {
+      a: { $exists: true },
+      b: { $ne: null },
+      c: { $nin: ['x'] },
+      d: { $not: { $eq: 'x' } },
+      e: /.*/,
+      f: { $eq: 'x' },
+      g: { nested: 1 },
+      $and: [{ h: { $exists: true } }, { i: null }],
+    };
+
+    expect([...getConstrainedFields(filter)].sort()).toEqual(['f', 'g', 'i']);
+  });
+
+  it('only counts $or fields that every branch constrains', () => {
+    expect([...getConstrainedFields({ $or: [{ _id: 1, a: 1 }, { _id: 2 }] })]).toEqual(['_id']);
+    expect(getConstrainedFields({ $nor: [{ _id: 1 }] }).size).toBe(0);
+  });
+});
@@ -110,3 +110,53 @@ export function validateFilterDepth(
   }
   return { valid: true };
 }
+
+/**
+ * Whether a field condition pins the field to given values: an equality, $eq
+ * or $in. Conditions such as $exists, $ne, $nin, $not or a regular expression
+ * can match every document and do not count.
+ */
+function isEqualityCondition(condition: unknown): boolean {
+  if (condition instanceof RegExp) {
+    return false;
+  }
+  const isOperatorObject =
+    condition !== null &&
+    typeof condition === 'object' &&
+    !Array.isArray(condition) &&
+    Object.getPrototypeOf(condition) === Object.prototype;
+  if (!isOperatorObject) {
+    return true;
+  }
+  const keys = Object.keys(condition);
+  if (!keys.some((key) => key.startsWith('$'))) {
+    return true;
+  }
+  return keys.includes('$eq') || (keys.includes('$in') && Array.isArray((condition as Record<string, unknown>).$in));
+}
+
+/**
+ * Fields a filter pins to given values for every document it matches: its
+ * top-level equality, $eq and $in conditions, those of each $and branch and
+ * the fields common to all $or branches.
+ */
+export function getConstrainedFields(filter: Record<string, any>): Set<string> {
+  const fields = new Set<string>();
+  if (!filter || typeof filter !== 'object' || Array.isArray(filter)) {
+    return fields;
+  }
+
+  for (const [key, value] of Object.entries(filter)) {
+    if (!key.startsWith('$')) {
+      if (isEqualityCondition(value)) {
+        fields.add(key);
+      }
+    } else if (key === '$and' && Array.isArray(value)) {
+      value.forEach((branch) => getConstrainedFields(branch).forEach((field) => fields.add(field)));
+    } else if (key === '$or' && Array.isArray(value) && value.length > 0) {
+      const [first, ...rest] = value.map((branch) => getConstrainedFields(branch));
+      first.forEach((field) => rest.every((branch) => branch.has(field)) && fields.add(field));
+    }
+  }
+  return fields;
+}
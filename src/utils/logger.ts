@@ -3,13 +3,20 @@ import path from 'path';
 import { redactString } from './uri-redactor.js';
 import { redactSensitiveKeys } from './log-redactor.js';
 
-const LOG_DIR = process.env.LOG_DIR || './logs';
-const TOOL_LOG_FILE = path.join(LOG_DIR, 'tool-usage.log');
-const ERROR_LOG_FILE = path.join(LOG_DIR, 'error.log');
+let LOG_DIR = process.env.LOG_DIR || './logs';
+let TOOL_LOG_FILE = path.join(LOG_DIR, 'tool-usage.log');
+let ERROR_LOG_FILE = path.join(LOG_DIR, 'error.log');
 const ENABLE_LOGGING = process.env.ENABLE_LOGGING === 'true';
 
 let logDirInitialized = false;
 
+export function setLogDir(dir: string): void {
+  LOG_DIR = dir;
+  TOOL_LOG_FILE = path.join(LOG_DIR, 'tool-usage.log');
+  ERROR_LOG_FILE = path.join(LOG_DIR, 'error.log');
+  logDirInitialized = false;
+}
+
 async function ensureLogDir(): Promise<boolean> {
   if (logDirInitialized) return true;
 
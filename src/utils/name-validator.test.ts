@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { validateCollectionName, validateDatabaseName } from './name-validator.js';
+import { validateCollectionName, validateDatabaseName, matchesDatabasePattern } from './name-validator.js';
 
 describe('validateCollectionName', () => {
   describe('valid names', () => {
@@ -109,3 +109,51 @@ describe('validateDatabaseName', () => {
     });
   });
 });
+
+describe('matchesDatabasePattern', () => {
+  it('matches exact names and globs', () => {
+    expect(matchesDatabasePattern('reports', 'reports')).toBe(true);
+    expect(matchesDatabasePattern('analytics_2024', 'analytics_*')).toBe(true);
+    expect(matchesDatabasePattern('tenant_a', 'tenant_?')).toBe(true);
+    expect(matchesDatabasePattern('tenant_ab', 'tenant_?')).toBe(false);
+    expect(matchesDatabasePattern('analytics', 'analytics_*')).toBe(false);
+  });
+
+  it('treats regex characters in patterns literally', () => {
+    expect(matchesDatabasePattern('app.v2', 'app.v2')).toBe(true);
+    expect(matchesDatabasePattern('appXv2', 'app.v2')).toBe(false);
+  });
+
+  it('never matches system databases with a glob', () => {
+    expect(matchesDatabasePattern('admin', '*')).toBe(false);
+    expect(matchesDatabasePattern('local', 'loc*')).toBe(false);
+    expect(matchesDatabasePattern('admin', 'admin')).toBe(true);
+  });
+});
+
+describe('validateDatabaseName with an allowlist', () => {
+  const rules = [
+    { pattern: 'analytics_*', write: false },
+    { pattern: 'scratch', write: true },
+  ];
+
+  it('allows reads on allowlisted databases', () => {
+    expect(validateDatabaseName('analytics_eu', 'myapp', rules)).toEqual({ valid: true });
+    expect(validateDatabaseName('scratch', 'myapp', rules)).toEqual({ valid: true });
+  });
+
+  it('rejects databases outside the allowlist and lists the accessible ones', () => {
+    const result = validateDatabaseName('billing', 'myapp', rules);
+    expect(result.valid).toBe(false);
+    expect(result.error).toContain("'myapp', 'analytics_*' (read-only), 'scratch' (read-write)");
+  });
+
+  it('requires a write rule for writes', () => {
+    const readOnly = validateDatabaseName('analytics_eu', 'myapp', rules, true);
+    expect(readOnly.valid).toBe(false);
+    expect(readOnly.error).toMatch(/allowlisted for reads only/);
+
+    expect(validateDatabaseName('scratch', 'myapp', rules, true)).toEqual({ valid: true });
+    expect(validateDatabaseName('myapp', 'myapp', rules, true)).toEqual({ valid: true });
+  });
+});
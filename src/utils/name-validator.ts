@@ -1,3 +1,5 @@
+import type { DatabaseAccessRule } from '../types.js';
+
 export interface NameValidationResult {
   valid: boolean;
   error?: string;
@@ -35,7 +37,48 @@ export function validateFieldName(name: string): NameValidationResult {
   return { valid: true };
 }
 
-export function validateDatabaseName(name: string, allowedDbName: string): NameValidationResult {
+/** Databases a broad glob never matches; they must be listed by exact name */
+const SYSTEM_DATABASES = new Set(['admin', 'local', 'config']);
+
+function globToRegExp(pattern: string): RegExp {
+  const source = pattern
+    .split('')
+    .map((char) => {
+      if (char === '*') return '.*';
+      if (char === '?') return '.';
+      return char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    })
+    .join('');
+  return new RegExp(`^${source}$`);
+}
+
+export function matchesDatabasePattern(name: string, pattern: string): boolean {
+  if (SYSTEM_DATABASES.has(name)) {
+    return name === pattern;
+  }
+  return globToRegExp(pattern).test(name);
+}
+
+/** Collection names match globs the same way, without the system database exception */
+export function matchesCollectionPattern(name: string, pattern: string): boolean {
+  return globToRegExp(pattern).test(name);
+}
+
+function describeAccessible(allowedDbName: string, rules: DatabaseAccessRule[]): string {
+  const extra = rules.map((rule) => `'${rule.pattern}' (${rule.write ? 'read-write' : 'read-only'})`);
+  return [`'${allowedDbName}'`, ...extra].join(', ');
+}
+
+/**
+ * The startup database is always accessible. Other databases must match an
+ * allowlist rule, and writes additionally need a rule granting write access.
+ */
+export function validateDatabaseName(
+  name: string,
+  allowedDbName: string,
+  rules: DatabaseAccessRule[] = [],
+  write = false
+): NameValidationResult {
   if (!name || name.length === 0) {
     return { valid: false, error: 'Database name must not be empty' };
   }
@@ -44,8 +87,26 @@ export function validateDatabaseName(name: string, allowedDbName: string): NameV
     return { valid: false, error: 'Database name must not contain null bytes' };
   }
 
-  if (name !== allowedDbName) {
-    return { valid: false, error: `Database '${name}' is not the allowed database. Only '${allowedDbName}' can be accessed` };
+  if (name === allowedDbName) {
+    return { valid: true };
+  }
+
+  const matching = rules.filter((rule) => matchesDatabasePattern(name, rule.pattern));
+  if (matching.length === 0) {
+    if (rules.length === 0) {
+      return { valid: false, error: `Database '${name}' is not the allowed database. Only '${allowedDbName}' can be accessed` };
+    }
+    return {
+      valid: false,
+      error: `Database '${name}' is not an allowed database. Accessible databases: ${describeAccessible(allowedDbName, rules)}`,
+    };
+  }
+
+  if (write && !matching.some((rule) => rule.write)) {
+    return {
+      valid: false,
+      error: `Database '${name}' is allowlisted for reads only. Writes are allowed on '${allowedDbName}' and databases allowlisted with write access`,
+    };
   }
 
   return { valid: true };
@@ -0,0 +1,91 @@
+import type { PiiDetectorName } from '../types.js';
+
+export interface PiiDetector {
+  name: PiiDetectorName;
+  /** Finds candidate values inside a string; always global */
+  pattern: RegExp;
+  /** Rejects candidates the pattern alone cannot tell apart, e.g. card numbers failing the Luhn check */
+  accept?: (match: string) => boolean;
+}
+
+function digitsOf(value: string): string {
+  return value.replace(/\D/g, '');
+}
+
+/** The Luhn checksum every payment card number satisfies */
+export function passesLuhn(digits: string): boolean {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+/** The ISO 13616 mod-97 check: the country code and check digits moved to the end, letters as numbers */
+export function passesIbanChecksum(iban: string): boolean {
+  const compact = iban.replace(/\s/g, '').toUpperCase();
+  const rearranged = compact.slice(4) + compact.slice(0, 4);
+  let remainder = 0;
+  for (const char of rearranged) {
+    const value = char >= 'A' ? char.charCodeAt(0) - 55 : Number(char);
+    remainder = Number(`${remainder}${value}`) % 97;
+  }
+  return remainder === 1;
+}
+
+/** Capitalized words that commonly start sentences, places and dates rather than names */
+const NOT_NAMES = new Set([
+  'The', 'This', 'That', 'These', 'Those', 'And', 'For', 'With', 'From', 'Dear', 'Hello', 'Thanks', 'Please',
+  'New', 'North', 'South', 'East', 'West', 'United', 'Saint', 'San', 'Los', 'Las',
+  'Street', 'Road', 'Avenue', 'Lane', 'Drive', 'City', 'County', 'State', 'Inc', 'Ltd',
+  'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday',
+  'January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December',
+]);
+
+export const PII_DETECTORS: Record<PiiDetectorName, PiiDetector> = {
+  email: {
+    name: 'email',
+    pattern: /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g,
+  },
+  phone: {
+    name: 'phone',
+    pattern: /(?:\+\d{1,3}[\s.-]?)?(?:\(\d{1,4}\)[\s.-]?)?\d{2,4}(?:[\s.-]?\d{2,4}){2,4}/g,
+    // Dates and bare counters look like phone numbers too
+    accept: (match) => {
+      const digits = digitsOf(match).length;
+      return digits >= 8 && digits <= 15 && !/^\d{4}-\d{2}-\d{2}$/.test(match) && /[\s.()+-]/.test(match);
+    },
+  },
+  creditCard: {
+    name: 'creditCard',
+    pattern: /\b(?:\d[ -]?){12,18}\d\b/g,
+    accept: (match) => passesLuhn(digitsOf(match)),
+  },
+  iban: {
+    name: 'iban',
+    pattern: /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]{4}){2,7}(?: ?[A-Z0-9]{1,3})?\b/g,
+    accept: passesIbanChecksum,
+  },
+  ipAddress: {
+    name: 'ipAddress',
+    // IPv4, and IPv6 with at least three groups so that times of day do not match
+    pattern: /\b(?:(?:25[0-5]|2[0-4]\d|1?\d?\d)\.){3}(?:25[0-5]|2[0-4]\d|1?\d?\d)\b|(?<![\w:])(?:[0-9A-Fa-f]{1,4}::?){2,7}[0-9A-Fa-f]{0,4}(?![\w:])/g,
+    accept: (match) => !/^\d{1,2}(?::\d{2}){1,2}$/.test(match),
+  },
+  nationalId: {
+    name: 'nationalId',
+    // US social security numbers and UK national insurance numbers
+    pattern: /\b(?:\d{3}-\d{2}-\d{4}|[A-CEGHJ-PR-TW-Z]{2} ?\d{2} ?\d{2} ?\d{2} ?[A-D])\b/g,
+  },
+  name: {
+    name: 'name',
+    // Two or three capitalized words, such as "Jane Doe" or "Mary-Ann O'Neil"; a heuristic, so expect some noise
+    pattern: /(?<![\p{L}'-])\p{Lu}(?:'\p{Lu})?\p{Ll}+(?:-\p{Lu}\p{Ll}+)?(?: \p{Lu}(?:'\p{Lu})?\p{Ll}+(?:-\p{Lu}\p{Ll}+)?){1,2}(?![\p{L}'-])/gu,
+    accept: (match) => !match.split(/[ '-]/).some((word) => NOT_NAMES.has(word)),
+  },
+};
@@ -0,0 +1,139 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { ObjectId } from 'mongodb';
+import {
+  applyMaskingRules,
+  findRenamedMaskedField,
+  maskDocument,
+  maskDocuments,
+  maskFieldValue,
+  maskOperation,
+  maskString,
+} from './pii-masking.js';
+import { passesLuhn } from './pii-detectors.js';
+
+describe('maskString', () => {
+  it('redacts, hashes and partially masks', () => {
+    expect(maskString('jane@example.com', 'redact')).toBe('[REDACTED]');
+    expect(maskString('jane@example.com', 'hash')).toMatch(/^hash:[0-9a-f]{16}$/);
+    expect(maskString('jane@example.com', 'hash')).toBe(maskString('jane@example.com', 'hash'));
+    expect(maskString('jane@example.com', 'partial')).toBe('j***@example.com');
+    expect(maskString('4111 1111 1111 1111', 'partial')).toBe('**** **** **** 1111');
+    expect(maskString('123', 'partial')).toBe('***');
+  });
+
+  it('fakes values keeping their format, the same way each time', () => {
+    const fake = maskString('+44 20-7946-0958', 'fake');
+    expect(fake).toMatch(/^\+\d\d \d\d-\d{4}-\d{4}$/);
+    expect(fake).not.toBe('+44 20-7946-0958');
+    expect(maskString('+44 20-7946-0958', 'fake')).toBe(fake);
+  });
+});
+
+describe('passesLuhn', () => {
+  it('accepts valid card numbers only', () => {
+    expect(passesLuhn('4111111111111111')).toBe(true);
+    expect(passesLuhn('4111111111111112')).toBe(false);
+  });
+});
+
+describe('masking rules', () => {
+  afterEach(() => {
+    applyMaskingRules([]);
+  });
+
+  it('leaves documents untouched without rules', () => {
+    const docs = [{ email: 'jane@example.com' }];
+    expect(maskDocuments(docs)).toBe(docs);
+  });
+
+  it('masks whole fields, nested paths, wildcards and array elements', () => {
+    applyMaskingRules([
+      { fields: ['ssn', 'address'], strategy: 'redact' },
+      { fields: ['contacts.*.phone'], strategy: 'partial' },
+    ]);
+    const doc = {
+      _id: new ObjectId('507f1f77bcf86cd799439011'),
+      ssn: '123-45-6789',
+      address: { street: '1 Main St', zip: 12345 },
+      contacts: { home: { phone: '555-0100-2233' }, work: [{ phone: '555-0100-4455' }] },
+      name: 'Jane',
+    };
+
+    expect(maskDocument(doc)).toEqual({
+      _id: doc._id,
+      ssn: '[REDACTED]',
+      address: { street: '[REDACTED]', zip: '[REDACTED]' },
+      contacts: { home: { phone: '***-****-2233' }, work: [{ phone: '***-****-4455' }] },
+      name: 'Jane',
+    });
+  });
+
+  it('masks detector matches inside free text', () => {
+    applyMaskingRules([
+      { detector: 'email', strategy: 'partial' },
+      { detector: 'creditCard', strategy: 'redact' },
+    ]);
+
+    expect(
+      maskDocument({ note: 'Mail jane@example.com, card 4111 1111 1111 1111 not 4111 1111 1111 1112' })
+    ).toEqual({ note: 'Mail j***@example.com, card [REDACTED] not 4111 1111 1111 1112' });
+  });
+
+  it('masks detector matches in numeric values', () => {
+    applyMaskingRules([{ detector: 'creditCard', strategy: 'redact' }]);
+
+    expect(maskDocument({ card: 4111111111111111, quantity: 3 })).toEqual({ card: '[REDACTED]', quantity: 3 });
+  });
+
+  it('limits pattern rules to their fields', () => {
+    applyMaskingRules([{ fields: ['comment'], pattern: 'ID-\\d+', strategy: 'hash' }]);
+    const masked = maskDocument({ comment: 'see ID-42', ref: 'ID-42' });
+
+    expect(masked.comment).toMatch(/^see hash:[0-9a-f]{16}$/);
+    expect(masked.ref).toBe('ID-42');
+  });
+
+  it('masks values read from a field on their own', () => {
+    applyMaskingRules([{ fields: ['email'], strategy: 'redact' }]);
+
+    expect(maskFieldValue('email', ['a@x.io', 'b@x.io'])).toEqual(['[REDACTED]', '[REDACTED]']);
+    expect(maskFieldValue('status', ['active'])).toEqual(['active']);
+  });
+
+  it('masks filters, updates and documents inside profiler entries and operations', () => {
+    applyMaskingRules([{ fields: ['email'], strategy: 'redact' }]);
+    const op = {
+      op: 'update',
+      ns: 'app.users',
+      command: {
+        update: 'users',
+        updates: [{ q: { $or: [{ email: 'a@x.io' }, { email: { $in: ['b@x.io'] } }] }, u: { $set: { email: 'c@x.io' } } }],
+      },
+      originatingCommand: { aggregate: 'users', pipeline: [{ $match: { email: 'd@x.io' } }] },
+    };
+
+    expect(maskOperation(op)).toEqual({
+      op: 'update',
+      ns: 'app.users',
+      command: {
+        update: 'users',
+        updates: [
+          { q: { $or: [{ email: '[REDACTED]' }, { email: { $in: ['[REDACTED]'] } }] }, u: { $set: { email: '[REDACTED]' } } },
+        ],
+      },
+      originatingCommand: { aggregate: 'users', pipeline: [{ $match: { email: '[REDACTED]' } }] },
+    });
+  });
+
+  it('finds pipelines that return masked fields under other names', () => {
+    applyMaskingRules([{ fields: ['email', 'address.street'], strategy: 'redact' }]);
+
+    expect(
+      findRenamedMaskedField([{ $match: { $expr: { $eq: ['$email', 'a@x.io'] } } }, { $project: { email: '$email', n: 1 } }])
+    ).toBeUndefined();
+    expect(findRenamedMaskedField([{ $project: { contact: '$email' } }])).toBe('$email');
+    expect(findRenamedMaskedField([{ $group: { _id: '$address', count: { $sum: 1 } } }])).toBe('$address');
+    expect(findRenamedMaskedField([{ $replaceRoot: { newRoot: { doc: '$$ROOT' } } }])).toBe('$$ROOT');
+    expect(findRenamedMaskedField([{ $project: { city: '$address.city' } }])).toBeUndefined();
+  });
+});
@@ -0,0 +1,238 @@
+import { createHash } from 'node:crypto';
+import type { MaskingRule, MaskingStrategy } from '../types.js';
+import { PII_DETECTORS } from './pii-detectors.js';
+
+interface CompiledRule {
+  /** Field paths split into segments */
+  fields?: string[][];
+  pattern?: RegExp;
+  accept?: (match: string) => boolean;
+  strategy: MaskingStrategy;
+}
+
+let rules: CompiledRule[] = [];
+
+/** Replaces the masking rules; set once at startup from the config profile */
+export function applyMaskingRules(maskingRules: MaskingRule[]): void {
+  rules = maskingRules.map((rule) => {
+    const detector = rule.detector ? PII_DETECTORS[rule.detector] : undefined;
+    return {
+      fields: rule.fields?.map((field) => field.split('.')),
+      pattern: rule.pattern ? new RegExp(rule.pattern, 'g') : detector?.pattern,
+      accept: detector?.accept,
+      strategy: rule.strategy,
+    };
+  });
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (!value || typeof value !== 'object') return false;
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+}
+
+/** Whether a rule's field covers a path: the path is the field, or lies inside it. Array indexes are not part of paths. */
+function covers(field: string[], path: string[]): boolean {
+  return field.length <= path.length && field.every((segment, i) => segment === '*' || segment === path[i]);
+}
+
+function digest(value: string): Buffer {
+  return createHash('sha256').update(value).digest();
+}
+
+function partialMask(value: string): string {
+  const at = value.indexOf('@');
+  if (at > 0) {
+    return `${value[0]}***${value.slice(at)}`;
+  }
+
+  // Keep the last four letters and digits, or none of a value that short
+  let visible = value.replace(/[^A-Za-z0-9]/g, '').length > 4 ? 4 : 0;
+  return [...value]
+    .reverse()
+    .map((char) => {
+      if (!/[A-Za-z0-9]/.test(char)) return char;
+      if (visible > 0) {
+        visible--;
+        return char;
+      }
+      return '*';
+    })
+    .reverse()
+    .join('');
+}
+
+/** The same value always gets the same fake, so masked results can still be compared */
+function fakeValue(value: string): string {
+  const seed = digest(value);
+  return [...value]
+    .map((char, i) => {
+      const byte = (seed[i % seed.length] + i) % 256;
+      if (/[0-9]/.test(char)) return String(byte % 10);
+      if (/[a-z]/.test(char)) return String.fromCharCode(97 + (byte % 26));
+      if (/[A-Z]/.test(char)) return String.fromCharCode(65 + (byte % 26));
+      return char;
+    })
+    .join('');
+}
+
+export function maskString(value: string, strategy: MaskingStrategy): string {
+  switch (strategy) {
+    case 'redact':
+      return '[REDACTED]';
+    case 'hash':
+      return `hash:${digest(value).toString('hex').slice(0, 16)}`;
+    case 'partial':
+      return partialMask(value);
+    case 'fake':
+      return fakeValue(value);
+  }
+}
+
+/** Masks a whole value: every scalar inside objects and arrays, and BSON values by their string form */
+function maskWhole(value: unknown, strategy: MaskingStrategy): unknown {
+  if (value === null || value === undefined) {
+    return value;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => maskWhole(item, strategy));
+  }
+  if (isPlainObject(value)) {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, maskWhole(item, strategy)]));
+  }
+  if (typeof value === 'number' && strategy === 'fake') {
+    return Number(fakeValue(String(value)));
+  }
+  return maskString(value instanceof Date ? value.toISOString() : String(value), strategy);
+}
+
+function maskMatches(value: string, path: string[]): string {
+  return rules.reduce((text, rule) => {
+    if (!rule.pattern || (rule.fields && !rule.fields.some((field) => covers(field, path)))) {
+      return text;
+    }
+    return text.replace(rule.pattern, (match) => (rule.accept && !rule.accept(match) ? match : maskString(match, rule.strategy)));
+  }, value);
+}
+
+/** With `skipOperators`, keys such as $set or $and are left out of paths, so filters and updates are masked like documents */
+function maskNode(value: unknown, path: string[], skipOperators = false): unknown {
+  const fieldRule = rules.find((rule) => !rule.pattern && rule.fields?.some((field) => covers(field, path)));
+  if (fieldRule) {
+    return maskWhole(value, fieldRule.strategy);
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => maskNode(item, path, skipOperators));
+  }
+  if (isPlainObject(value)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [
+        key,
+        maskNode(item, skipOperators && key.startsWith('$') ? path : [...path, key], skipOperators),
+      ])
+    );
+  }
+  if (typeof value === 'number') {
+    // Card numbers, phone numbers and the like are often stored as numbers
+    const text = String(value);
+    const masked = maskMatches(text, path);
+    return masked === text ? value : masked;
+  }
+  return typeof value === 'string' ? maskMatches(value, path) : value;
+}
+
+/** Command fields holding filters, updates, pipelines or documents, in profiler entries and currentOp output */
+const OPERATION_DOCUMENT_FIELDS = new Set(['filter', 'query', 'q', 'u', 'update', 'documents', 'pipeline']);
+
+function maskOperationNode(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(maskOperationNode);
+  }
+  if (isPlainObject(value)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [
+        key,
+        OPERATION_DOCUMENT_FIELDS.has(key) ? maskNode(item, [], true) : maskOperationNode(item),
+      ])
+    );
+  }
+  return value;
+}
+
+/** Applies the masking rules to a document about to be returned; a no-op without rules */
+export function maskDocument<T>(document: T): T {
+  return rules.length > 0 ? (maskNode(document, []) as T) : document;
+}
+
+export function maskDocuments<T>(documents: T[]): T[] {
+  return rules.length > 0 ? documents.map(maskDocument) : documents;
+}
+
+/** Masks a value read from `path` on its own, such as distinct values or a duplicate group's key */
+export function maskFieldValue<T>(path: string, value: T): T {
+  return rules.length > 0 ? (maskNode(value, path.split('.')) as T) : value;
+}
+
+/** Masks the filters, updates and documents inside a profiler entry or currentOp operation, at their document paths */
+export function maskOperation<T>(operation: T): T {
+  return rules.length > 0 ? (maskOperationNode(operation) as T) : operation;
+}
+
+/** Stages that pass fields on under their own names, or only select and order documents */
+const NAME_PRESERVING_STAGES = new Set(['$match', '$sort', '$limit', '$skip', '$sample', '$count', '$unwind']);
+
+/** Whether a rule's field and a referenced path share data: one lies inside the other */
+function overlaps(field: string[], path: string[]): boolean {
+  return field.every((segment, i) => i >= path.length || segment === '*' || segment === path[i]);
+}
+
+/** The field path an expression string refers to: '$a.b' -> ['a', 'b'], '$$ROOT' -> [] */
+function referencedPath(value: string): string[] | undefined {
+  const root = /^\$\$(?:ROOT|CURRENT)(?:\.(.+))?$/.exec(value);
+  if (root) {
+    return root[1] ? root[1].split('.') : [];
+  }
+  return value.startsWith('$') && !value.startsWith('$$') ? value.slice(1).split('.') : undefined;
+}
+
+function findMaskedReference(expression: unknown): string | undefined {
+  if (typeof expression === 'string') {
+    const path = referencedPath(expression);
+    const masked = path && rules.some((rule) => rule.fields?.some((field) => overlaps(field, path)));
+    return masked ? expression : undefined;
+  }
+  const children = Array.isArray(expression) ? expression : isPlainObject(expression) ? Object.values(expression) : [];
+  for (const child of children) {
+    const found = findMaskedReference(child);
+    if (found) return found;
+  }
+  return undefined;
+}
+
+/**
+ * Field rules mask by path, so a pipeline that copies a masked field to another
+ * name, e.g. { $project: { contact: '$email' } } or { $group: { _id: '$email' } },
+ * would return it unmasked. Returns the first such reference, to refuse the pipeline.
+ */
+export function findRenamedMaskedField(pipeline: Record<string, unknown>[]): string | undefined {
+  if (!rules.some((rule) => rule.fields)) {
+    return undefined;
+  }
+  for (const stage of pipeline) {
+    for (const [name, spec] of Object.entries(stage)) {
+      if (NAME_PRESERVING_STAGES.has(name)) continue;
+      // { email: '$email' } keeps the name, and so the masking
+      const expressions =
+        ['$project', '$addFields', '$set'].includes(name) && isPlainObject(spec)
+          ? Object.entries(spec)
+              .filter(([key, expression]) => expression !== `$${key}`)
+              .map(([, expression]) => expression)
+          : [spec];
+      for (const expression of expressions) {
+        const found = findMaskedReference(expression);
+        if (found) return found;
+      }
+    }
+  }
+  return undefined;
+}
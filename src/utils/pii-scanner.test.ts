@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { ObjectId } from 'mongodb';
+import { scanDocumentsForPii } from './pii-scanner.js';
+import { passesIbanChecksum } from './pii-detectors.js';
+
+describe('scanDocumentsForPii', () => {
+  const customers = [
+    {
+      _id: new ObjectId(),
+      contact: { email: 'jane@example.com', phones: ['+1 415-555-0100'] },
+      note: 'Refund for Jane Doe from 10.0.0.12',
+      iban: 'GB82 WEST 1234 5698 7654 32',
+    },
+    {
+      _id: new ObjectId(),
+      contact: { email: 'not an email', phones: ['+44 20 7946 0958', 'none'] },
+      note: 'Refund approved',
+      iban: 'GB82WEST12345698765433',
+    },
+  ];
+
+  it('reports nested and array paths with hit rates and masked examples', () => {
+    const findings = scanDocumentsForPii(customers);
+
+    expect(findings).toContainEqual({
+      field: 'contact.email',
+      detector: 'email',
+      hits: 1,
+      values: 2,
+      hitRate: 0.5,
+      examples: ['j***@example.com'],
+    });
+    expect(findings).toContainEqual(
+      expect.objectContaining({ field: 'contact.phones', detector: 'phone', hits: 2, values: 3, hitRate: 0.667 })
+    );
+    expect(findings).toContainEqual(expect.objectContaining({ field: 'note', detector: 'name', examples: ['***e Doe'] }));
+    expect(findings).toContainEqual(expect.objectContaining({ field: 'note', detector: 'ipAddress', hits: 1 }));
+  });
+
+  it('only counts IBANs with a valid checksum', () => {
+    const [iban] = scanDocumentsForPii(customers, ['iban']);
+
+    expect(iban).toMatchObject({ field: 'iban', hits: 1, values: 2, examples: ['**** **** **** **** **54 32'] });
+    expect(passesIbanChecksum('DE89370400440532013000')).toBe(true);
+  });
+
+  it('sorts by hit rate and runs only the chosen detectors', () => {
+    const findings = scanDocumentsForPii(
+      customers.map(({ contact }) => ({ contact })),
+      ['email', 'phone']
+    );
+
+    expect(findings.map((finding) => [finding.field, finding.detector])).toEqual([
+      ['contact.phones', 'phone'],
+      ['contact.email', 'email'],
+    ]);
+  });
+
+  it('finds nothing in documents without personal data', () => {
+    expect(scanDocumentsForPii([{ status: 'active', total: 42, at: new Date() }])).toEqual([]);
+  });
+});
@@ -0,0 +1,74 @@
+import type { MongoDocument, PiiDetectorName } from '../types.js';
+import { PII_DETECTORS } from './pii-detectors.js';
+import { maskString } from './pii-masking.js';
+
+const MAX_EXAMPLES = 3;
+
+export interface PiiFinding {
+  /** Dotted path, without array indexes, as masking rules take it */
+  field: string;
+  detector: PiiDetectorName;
+  /** Values at the path containing at least one match */
+  hits: number;
+  /** String and number values seen at the path */
+  values: number;
+  hitRate: number;
+  /** Distinct matches, partially masked */
+  examples: string[];
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (!value || typeof value !== 'object') return false;
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+}
+
+/** Collects the string and number values under each path; array elements are values of the array's path */
+function collectValues(value: unknown, path: string, values: Map<string, string[]>): void {
+  if (Array.isArray(value)) {
+    value.forEach((item) => collectValues(item, path, values));
+  } else if (isPlainObject(value)) {
+    Object.entries(value).forEach(([key, item]) => collectValues(item, path ? `${path}.${key}` : key, values));
+  } else if ((typeof value === 'string' || typeof value === 'number') && path) {
+    if (!values.has(path)) values.set(path, []);
+    values.get(path)!.push(String(value));
+  }
+}
+
+/**
+ * Runs the detectors over every string and number in the documents, nested
+ * fields and arrays included. Returns a finding per field and detector with
+ * at least one hit, highest hit rate first.
+ */
+export function scanDocumentsForPii(
+  documents: MongoDocument[],
+  detectors: PiiDetectorName[] = Object.keys(PII_DETECTORS) as PiiDetectorName[]
+): PiiFinding[] {
+  const values = new Map<string, string[]>();
+  documents.forEach((doc) => collectValues(doc, '', values));
+
+  const findings: PiiFinding[] = [];
+  values.forEach((fieldValues, field) => {
+    for (const name of detectors) {
+      const detector = PII_DETECTORS[name];
+      const examples = new Set<string>();
+      let hits = 0;
+      for (const value of fieldValues) {
+        const matches = [...value.matchAll(detector.pattern)]
+          .map((match) => match[0])
+          .filter((match) => !detector.accept || detector.accept(match));
+        if (matches.length === 0) continue;
+        hits++;
+        for (const match of matches) {
+          if (examples.size < MAX_EXAMPLES) examples.add(maskString(match, 'partial'));
+        }
+      }
+      if (hits > 0) {
+        const hitRate = Math.round((hits / fieldValues.length) * 1000) / 1000;
+        findings.push({ field, detector: name, hits, values: fieldValues.length, hitRate, examples: [...examples] });
+      }
+    }
+  });
+
+  return findings.sort((a, b) => b.hitRate - a.hitRate || a.field.localeCompare(b.field));
+}
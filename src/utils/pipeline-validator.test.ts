@@ -6,6 +6,7 @@ import {
   EXPENSIVE_STAGES,
   WRITE_STAGES,
   BLOCKED_STAGES,
+  collectPipelineCollections,
 } from './pipeline-validator.js';
 
 describe('validatePipeline', () => {
@@ -482,3 +483,15 @@ describe('validatePipeline', () => {
     });
   });
 });
+
+describe('collectPipelineCollections', () => {
+  it('collects collections joined at any depth', () => {
+    const pipeline = [
+      { $lookup: { from: 'customers', localField: 'c', foreignField: '_id', as: 'customer' } },
+      { $unionWith: 'archive' },
+      { $facet: { graph: [{ $graphLookup: { from: 'employees', startWith: '$m', connectFromField: 'm', connectToField: '_id', as: 'chain' } }] } },
+      { $unionWith: { coll: 'returns', pipeline: [{ $lookup: { from: 'audit_log', pipeline: [], as: 'audit' } }] } },
+    ];
+    expect(collectPipelineCollections(pipeline).sort()).toEqual(['archive', 'audit_log', 'customers', 'employees', 'returns']);
+  });
+});
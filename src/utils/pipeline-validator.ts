@@ -148,3 +148,39 @@ export function validatePipeline(pipeline: Record<string, unknown>[]): PipelineV
 
   return { valid: true, stageCount: totals.stages, expensiveStageCount: totals.expensive };
 }
+
+/**
+ * Collections a pipeline reads besides the one it runs on: the sources of its
+ * $lookup, $graphLookup and $unionWith stages, including nested ones.
+ */
+export function collectPipelineCollections(pipeline: Record<string, unknown>[]): string[] {
+  const collections = new Set<string>();
+
+  const visit = (stages: unknown[]) => {
+    for (const stage of stages) {
+      if (!stage || typeof stage !== 'object' || Array.isArray(stage)) continue;
+      for (const [key, stageBody] of Object.entries(stage)) {
+        if (key === '$unionWith' && typeof stageBody === 'string') {
+          collections.add(stageBody);
+        }
+        if (!stageBody || typeof stageBody !== 'object' || Array.isArray(stageBody)) continue;
+        const body = stageBody as Record<string, unknown>;
+        if ((key === '$lookup' || key === '$graphLookup') && typeof body.from === 'string') {
+          collections.add(body.from);
+        }
+        if (key === '$unionWith' && typeof body.coll === 'string') {
+          collections.add(body.coll);
+        }
+        if ((key === '$lookup' || key === '$unionWith') && Array.isArray(body.pipeline)) {
+          visit(body.pipeline);
+        }
+        if (key === '$facet') {
+          Object.values(body).forEach((subPipeline) => Array.isArray(subPipeline) && visit(subPipeline));
+        }
+      }
+    }
+  };
+
+  visit(pipeline);
+  return [...collections];
+}
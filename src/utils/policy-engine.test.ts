@@ -0,0 +1,99 @@
+import { describe, it, expect, vi } from 'vitest';
+import { checkPolicies, describeToolCall } from './policy-engine.js';
+import type { PolicyRule } from '../types.js';
+
+const rules: PolicyRule[] = [
+  { name: 'payments-read-only', description: 'payments are written by the billing service', collections: ['payments'], operations: ['write'], deny: true },
+  { name: 'targeted-user-deletes', collections: ['users'], operations: ['delete'], requireFilterFields: ['_id'] },
+  { name: 'no-audit-joins', collections: ['audit_log'], operations: ['lookup'], deny: true },
+  { name: 'small-order-updates', collections: ['orders'], operations: ['update'], maxDocuments: 500 },
+];
+
+describe('describeToolCall', () => {
+  it('treats dry runs as reads', () => {
+    expect(describeToolCall('deleteMany', { collection: 'users', filter: {}, options: { dryRun: true } })).toEqual([
+      { operation: 'read', collection: 'users', filter: {} },
+    ]);
+  });
+
+  it('describes each bulkWrite operation', () => {
+    const targets = describeToolCall('bulkWrite', {
+      collection: 'orders',
+      operations: [{ insertOne: { document: {} } }, { deleteMany: { filter: { status: 'old' } } }],
+    });
+    expect(targets).toEqual([
+      { operation: 'insert', collection: 'orders', documents: 1 },
+      { operation: 'delete', collection: 'orders', filter: { status: 'old' }, matches: { collection: 'orders', filter: { status: 'old' } } },
+    ]);
+  });
+
+  it('describes the drop and index creation of cloneCollection on the destination', () => {
+    const clone = { source: 'orders', destination: 'orders_copy' };
+    expect(describeToolCall('cloneCollection', { ...clone, options: { dropIfExists: true } })).toEqual([
+      { operation: 'read', collection: 'orders', filter: {} },
+      { operation: 'drop', collection: 'orders_copy', matches: { collection: 'orders_copy', filter: {} } },
+      { operation: 'insert', collection: 'orders_copy', matches: { collection: 'orders', filter: {} } },
+      { operation: 'index', collection: 'orders_copy' },
+    ]);
+    expect(describeToolCall('cloneCollection', { ...clone, options: { includeIndexes: false } }).map((target) => target.operation)).toEqual([
+      'read',
+      'insert',
+    ]);
+  });
+});
+
+describe('checkPolicies', () => {
+  it('denies writes to a protected collection and explains the rule', async () => {
+    expect(await checkPolicies(rules, 'insertOne', { collection: 'payments', document: {} })).toBe(
+      "insertOne blocked by policy 'payments-read-only' (payments are written by the billing service): insert on 'payments' is denied."
+    );
+    expect(await checkPolicies(rules, 'find', { collection: 'payments', filter: {} })).toBeUndefined();
+  });
+
+  it('requires deletes on users to filter on _id', async () => {
+    expect(await checkPolicies(rules, 'deleteMany', { collection: 'users', filter: { status: 'inactive' } })).toMatch(
+      /policy 'targeted-user-deletes': delete on 'users' must filter on _id/
+    );
+    expect(await checkPolicies(rules, 'deleteOne', { collection: 'users', filter: { _id: { $in: ['a', 'b'] } } })).toBeUndefined();
+    expect(
+      await checkPolicies(rules, 'bulkWrite', { collection: 'users', operations: [{ deleteOne: { filter: { email: 'a@b.c' } } }] })
+    ).toMatch(/targeted-user-deletes/);
+  });
+
+  it('blocks $lookup into a denied collection, however deeply nested', async () => {
+    const nested = [
+      { $match: { status: 'open' } },
+      { $facet: { recent: [{ $lookup: { from: 'tickets', pipeline: [{ $unionWith: 'audit_log' }], as: 't' } }] } },
+    ];
+    expect(await checkPolicies(rules, 'aggregate', { collection: 'orders', pipeline: nested })).toMatch(
+      /policy 'no-audit-joins': lookup on 'audit_log' is denied/
+    );
+    expect(await checkPolicies(rules, 'find', { collection: 'audit_log', filter: {} })).toBeUndefined();
+  });
+
+  it('counts the documents an update would affect against maxDocuments', async () => {
+    const countDocuments = vi.fn().mockResolvedValue(1200);
+    const args = { collection: 'orders', filter: { region: 'eu' }, update: { $set: { flagged: true } } };
+
+    expect(await checkPolicies(rules, 'updateMany', args, countDocuments)).toMatch(
+      /update on 'orders' would affect 1,200 documents, more than the limit of 500/
+    );
+    expect(countDocuments).toHaveBeenCalledWith('orders', { region: 'eu' });
+
+    countDocuments.mockResolvedValue(12);
+    expect(await checkPolicies(rules, 'updateMany', args, countDocuments)).toBeUndefined();
+    expect(await checkPolicies(rules, 'updateOne', args)).toBeUndefined();
+  });
+
+  it('refuses a limited write it cannot count', async () => {
+    expect(await checkPolicies(rules, 'updateMany', { collection: 'orders', filter: {}, update: {} })).toMatch(
+      /number it would affect is unknown/
+    );
+  });
+
+  it('matches collection patterns and applies rules without operations to every operation', async () => {
+    const archive: PolicyRule[] = [{ name: 'archives-off-limits', collections: ['archive_*'], deny: true }];
+    expect(await checkPolicies(archive, 'find', { collection: 'archive_2024' })).toMatch(/archives-off-limits/);
+    expect(await checkPolicies(archive, 'find', { collection: 'archived' })).toBeUndefined();
+  });
+});
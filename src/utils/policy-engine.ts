@@ -0,0 +1,205 @@
+import type { Db } from 'mongodb';
+import type { PolicyOperation, PolicyRule } from '../types.js';
+import { MULTI_DOC_OPERATIONS } from './bulk-write-validator.js';
+import { tagOperation } from './cancellation.js';
+import { getConstrainedFields } from './filter-validator.js';
+import { matchesCollectionPattern } from './name-validator.js';
+import { collectPipelineCollections } from './pipeline-validator.js';
+import { preprocessQuery } from './query-preprocessor.js';
+
+type Filter = Record<string, any>;
+
+/** The operations `write` stands for in a rule */
+export const WRITE_OPERATIONS: readonly PolicyOperation[] = ['insert', 'update', 'delete', 'drop', 'create', 'index'];
+
+/** Counts the documents a filter matches, for maxDocuments rules */
+export type DocumentCounter = (collection: string, filter: Filter) => Promise<number>;
+
+/** One collection a tool call touches, and how */
+export interface PolicyTarget {
+  operation: PolicyOperation;
+  collection: string;
+  /** Selects the documents read or changed; undefined for operations without a filter */
+  filter?: Filter;
+  /** Number of documents affected, when the arguments tell */
+  documents?: number;
+  /** Otherwise the documents affected are those this filter matches in this collection */
+  matches?: { collection: string; filter: Filter };
+}
+
+function isDryRun(args: Filter): boolean {
+  return args.dryRun === true || args.options?.dryRun === true;
+}
+
+/** Read tools name their filter `filter`, `query` or `options.filter`; no filter matches everything */
+function readFilter(toolName: string, args: Filter): Filter {
+  if (toolName === 'analyzeQueryPerformance') {
+    return args.query?.filter ?? {};
+  }
+  return args.filter ?? args.query ?? args.options?.filter ?? {};
+}
+
+function readTargets(toolName: string, args: Filter): PolicyTarget[] {
+  const targets: PolicyTarget[] = [];
+  const collection = args.collection ?? args.source;
+  if (typeof collection === 'string') {
+    targets.push({ operation: 'read', collection, filter: readFilter(toolName, args) });
+  }
+
+  const lookups = [
+    args.referenceCollection,
+    ...(Array.isArray(args.relationships) ? args.relationships.map((relationship: Filter) => relationship?.foreignCollection) : []),
+    ...(Array.isArray(args.pipeline) ? collectPipelineCollections(args.pipeline) : []),
+  ];
+  for (const lookup of lookups) {
+    if (typeof lookup === 'string') {
+      targets.push({ operation: 'lookup', collection: lookup });
+    }
+  }
+  return targets;
+}
+
+function bulkOperationTargets(collection: string, operation: Filter): PolicyTarget[] {
+  const [type] = Object.keys(operation ?? {});
+  const body: Filter = operation?.[type] ?? {};
+  if (type === 'insertOne') {
+    return [{ operation: 'insert', collection, documents: 1 }];
+  }
+
+  const filter: Filter = body.filter ?? {};
+  const affected = MULTI_DOC_OPERATIONS.includes(type) ? { matches: { collection, filter } } : { documents: 1 };
+  const kind: PolicyOperation = type?.startsWith('delete') ? 'delete' : 'update';
+  return [{ operation: kind, collection, filter, ...affected }];
+}
+
+/** The collections a tool call reads or changes, derived from its arguments. Dry runs only read. */
+export function describeToolCall(toolName: string, args: Filter = {}): PolicyTarget[] {
+  if (isDryRun(args)) {
+    return readTargets(toolName, args);
+  }
+
+  const { collection, filter = {} } = args;
+  switch (toolName) {
+    case 'insertOne':
+      return [{ operation: 'insert', collection, documents: 1 }];
+    case 'insertMany':
+      return [{ operation: 'insert', collection, documents: Array.isArray(args.documents) ? args.documents.length : 0 }];
+    case 'updateOne':
+    case 'replaceOne':
+    case 'findOneAndUpdate':
+      return [{ operation: 'update', collection, filter, documents: 1 }];
+    case 'updateMany':
+      return [{ operation: 'update', collection, filter, matches: { collection, filter } }];
+    case 'renameField': {
+      const renameFilter = args.options?.filter ?? {};
+      return [{ operation: 'update', collection, filter: renameFilter, matches: { collection, filter: renameFilter } }];
+    }
+    case 'deleteOne':
+      return [{ operation: 'delete', collection, filter, documents: 1 }];
+    case 'deleteMany':
+      return [{ operation: 'delete', collection, filter, matches: { collection, filter } }];
+    case 'bulkWrite':
+      return (Array.isArray(args.operations) ? args.operations : []).flatMap((operation: Filter) =>
+        bulkOperationTargets(collection, operation)
+      );
+    case 'dropCollection':
+      return [{ operation: 'drop', collection: args.name, matches: { collection: args.name, filter: {} } }];
+    case 'createCollection':
+      return [{ operation: 'create', collection: args.name, documents: 0 }];
+    case 'createIndex':
+    case 'dropIndex':
+      return [{ operation: 'index', collection }];
+    case 'cloneCollection': {
+      const { filter: sourceFilter = {}, dropIfExists = false, includeIndexes = true } = args.options ?? {};
+      return [
+        { operation: 'read', collection: args.source, filter: sourceFilter },
+        ...(dropIfExists
+          ? [{ operation: 'drop' as const, collection: args.destination, matches: { collection: args.destination, filter: {} } }]
+          : []),
+        { operation: 'insert', collection: args.destination, matches: { collection: args.source, filter: sourceFilter } },
+        ...(includeIndexes ? [{ operation: 'index' as const, collection: args.destination }] : []),
+      ];
+    }
+    default:
+      return readTargets(toolName, args);
+  }
+}
+
+function appliesTo(rule: PolicyRule, target: PolicyTarget): boolean {
+  const operations = (rule.operations ?? []).flatMap((operation) => (operation === 'write' ? WRITE_OPERATIONS : [operation]));
+  return (
+    (operations.length === 0 || operations.includes(target.operation)) &&
+    typeof target.collection === 'string' &&
+    rule.collections.some((pattern) => matchesCollectionPattern(target.collection, pattern))
+  );
+}
+
+/** Whether a deny rule forbids reading the collection; listings and completions leave such collections out */
+export function isReadDenied(rules: PolicyRule[], collection: string): boolean {
+  return rules.some((rule) => rule.deny && appliesTo(rule, { operation: 'read', collection }));
+}
+
+async function findViolation(
+  rule: PolicyRule,
+  target: PolicyTarget,
+  countDocuments?: DocumentCounter
+): Promise<string | undefined> {
+  const { operation, collection } = target;
+  if (rule.deny) {
+    return `${operation} on '${collection}' is denied`;
+  }
+
+  if (rule.requireFilterFields) {
+    if (!target.filter) {
+      return `${operation} on '${collection}' takes no filter, but must filter on ${rule.requireFilterFields.join(', ')}`;
+    }
+    const constrained = getConstrainedFields(target.filter);
+    const missing = rule.requireFilterFields.filter((field) => !constrained.has(field));
+    if (missing.length > 0) {
+      return `${operation} on '${collection}' must filter on ${missing.join(', ')}`;
+    }
+  }
+
+  if (rule.maxDocuments !== undefined) {
+    let affected = target.documents;
+    if (affected === undefined && target.matches && countDocuments) {
+      affected = await countDocuments(target.matches.collection, target.matches.filter);
+    }
+    if (affected === undefined) {
+      return `${operation} on '${collection}' is limited to ${rule.maxDocuments.toLocaleString()} documents, and the number it would affect is unknown`;
+    }
+    if (affected > rule.maxDocuments) {
+      return `${operation} on '${collection}' would affect ${affected.toLocaleString()} documents, more than the limit of ${rule.maxDocuments.toLocaleString()}`;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Checks a tool call against the rules, in order. Resolves to a refusal naming
+ * the first rule the call breaks, or undefined when every rule allows it.
+ */
+export async function checkPolicies(
+  rules: PolicyRule[],
+  toolName: string,
+  args: Filter,
+  countDocuments?: DocumentCounter
+): Promise<string | undefined> {
+  const targets = describeToolCall(toolName, args);
+  for (const rule of rules) {
+    for (const target of targets) {
+      if (!appliesTo(rule, target)) continue;
+      const violation = await findViolation(rule, target, countDocuments);
+      if (violation) {
+        const reason = rule.description ? ` (${rule.description})` : '';
+        return `${toolName} blocked by policy '${rule.name}'${reason}: ${violation}.`;
+      }
+    }
+  }
+  return undefined;
+}
+
+export function createDocumentCounter(db: Db): DocumentCounter {
+  return (collection, filter) => db.collection(collection).countDocuments(preprocessQuery(filter), tagOperation());
+}
@@ -0,0 +1,89 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { MongoClient } from 'mongodb';
+import { checkToolPrivileges, fetchUserPrivileges, findMissingPrivileges, getRequiredPrivileges } from './privileges.js';
+import type { UserPrivileges } from './privileges.js';
+
+const readOnApp: UserPrivileges = {
+  users: ['analyst@admin'],
+  roles: ['read@app'],
+  privileges: [{ resource: { db: 'app', collection: '' }, actions: ['find', 'listCollections', 'collStats', 'dbStats'] }],
+};
+
+describe('getRequiredPrivileges', () => {
+  it('falls back to find for reads and insert for writes', () => {
+    expect(getRequiredPrivileges('findDuplicates', 'read')).toEqual([{ scope: 'collection', actions: ['find'] }]);
+    expect(getRequiredPrivileges('insertMany', 'write')).toEqual([{ scope: 'collection', actions: ['insert'] }]);
+  });
+
+  it('derives runAdminCommand privileges from the command', () => {
+    expect(getRequiredPrivileges('runAdminCommand', 'read')).toEqual([]);
+    expect(getRequiredPrivileges('runAdminCommand', 'read', { command: { ping: 1 } })).toEqual([]);
+    expect(getRequiredPrivileges('runAdminCommand', 'read', { command: { serverStatus: 1 } })).toEqual([
+      { scope: 'cluster', actions: ['serverStatus'] },
+    ]);
+  });
+});
+
+describe('findMissingPrivileges', () => {
+  it('lists the actions no privilege grants on a matching resource', () => {
+    expect(findMissingPrivileges(readOnApp, getRequiredPrivileges('find', 'read'), 'app')).toEqual([]);
+    expect(findMissingPrivileges(readOnApp, getRequiredPrivileges('find', 'read'), 'billing')).toEqual([
+      "find on collections in 'billing'",
+    ]);
+    expect(findMissingPrivileges(readOnApp, getRequiredPrivileges('bulkWrite', 'destructive'), 'app')).toEqual([
+      "insert on collections in 'app'",
+      "update on collections in 'app'",
+      "remove on collections in 'app'",
+    ]);
+  });
+
+  it('needs database-wide grants for database actions and cluster grants for cluster actions', () => {
+    const oneCollection: UserPrivileges = {
+      users: ['app@admin'],
+      roles: ['orders-reader@admin'],
+      privileges: [
+        { resource: { db: 'app', collection: 'orders' }, actions: ['find', 'listCollections'] },
+        { resource: { cluster: true }, actions: ['inprog'] },
+      ],
+    };
+
+    expect(findMissingPrivileges(oneCollection, getRequiredPrivileges('find', 'read'), 'app')).toEqual([]);
+    expect(findMissingPrivileges(oneCollection, getRequiredPrivileges('listCollections', 'read'), 'app')).toEqual([
+      "listCollections on database 'app'",
+    ]);
+    expect(findMissingPrivileges(oneCollection, getRequiredPrivileges('getCurrentOperations', 'read'), 'app')).toEqual([]);
+  });
+
+  it('allows everything with anyResource grants or without authentication', () => {
+    const root: UserPrivileges = { users: ['root@admin'], roles: ['root@admin'], privileges: [{ resource: { anyResource: true }, actions: ['serverStatus'] }] };
+
+    expect(findMissingPrivileges(root, getRequiredPrivileges('getServerStatus', 'read'), 'app')).toEqual([]);
+    expect(findMissingPrivileges({ users: [], roles: [], privileges: [] }, getRequiredPrivileges('dropCollection', 'destructive'), 'app')).toEqual([]);
+  });
+});
+
+describe('checkToolPrivileges', () => {
+  it('names the user and the missing actions', () => {
+    expect(checkToolPrivileges(readOnApp, 'getServerStatus', 'read', 'app')).toBe(
+      'getServerStatus needs privileges that analyst@admin lacks: serverStatus on the cluster. Ask a database administrator to grant them, or use another tool.'
+    );
+    expect(checkToolPrivileges(readOnApp, 'count', 'read', 'app')).toBeUndefined();
+    expect(checkToolPrivileges(undefined, 'dropCollection', 'destructive', 'app')).toBeUndefined();
+  });
+});
+
+describe('fetchUserPrivileges', () => {
+  it('reads the authenticated users and their privileges from connectionStatus', async () => {
+    const command = vi.fn(async () => ({
+      authInfo: {
+        authenticatedUsers: [{ user: 'analyst', db: 'admin' }],
+        authenticatedUserRoles: [{ role: 'read', db: 'app' }],
+        authenticatedUserPrivileges: readOnApp.privileges,
+      },
+    }));
+    const client = { db: () => ({ command }) } as unknown as MongoClient;
+
+    expect(await fetchUserPrivileges(client)).toEqual(readOnApp);
+    expect(command).toHaveBeenCalledWith({ connectionStatus: 1, showPrivileges: true });
+  });
+});
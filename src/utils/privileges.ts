@@ -0,0 +1,216 @@
+import type { MongoClient } from 'mongodb';
+
+/** A resource document as returned by connectionStatus */
+export interface PrivilegeResource {
+  db?: string;
+  collection?: string;
+  cluster?: boolean;
+  anyResource?: boolean;
+}
+
+export interface Privilege {
+  resource: PrivilegeResource;
+  actions: string[];
+}
+
+export interface UserPrivileges {
+  /** Authenticated users as user@db; none when authentication is off, in which case every action is allowed */
+  users: string[];
+  /** Their roles as role@db */
+  roles: string[];
+  privileges: Privilege[];
+}
+
+/**
+ * Where a tool's actions must be granted: on the cluster, on the database as a
+ * whole, or on at least one of its collections (tools take the collection as
+ * an argument, so any collection-level grant may be enough).
+ */
+export type PrivilegeScope = 'cluster' | 'database' | 'collection';
+
+export interface RequiredPrivilege {
+  scope: PrivilegeScope;
+  actions: string[];
+}
+
+/**
+ * Actions that change data, schema or server state. Killing cursors and
+ * operations is left out: the built-in read role grants killCursors.
+ */
+const WRITE_ACTIONS = new Set([
+  'insert',
+  'update',
+  'remove',
+  'bypassDocumentValidation',
+  'createCollection',
+  'dropCollection',
+  'convertToCapped',
+  'renameCollectionSameDB',
+  'createIndex',
+  'dropIndex',
+  'collMod',
+  'compact',
+  'dropDatabase',
+  'enableProfiler',
+  'applyOps',
+  'createUser',
+  'dropUser',
+  'grantRole',
+  'revokeRole',
+  'changePassword',
+  'setParameter',
+  'shutdown',
+]);
+
+const FIND: RequiredPrivilege = { scope: 'collection', actions: ['find'] };
+const SERVER_STATUS: RequiredPrivilege = { scope: 'cluster', actions: ['serverStatus'] };
+const IN_PROGRESS: RequiredPrivilege = { scope: 'cluster', actions: ['inprog'] };
+const PROFILER: RequiredPrivilege = { scope: 'database', actions: ['enableProfiler'] };
+
+/**
+ * The MongoDB privilege actions each tool runs with. Tools not listed here need
+ * find when they read and insert when they write.
+ */
+const TOOL_PRIVILEGES: Record<string, RequiredPrivilege[]> = {
+  // listDatabases falls back to the databases the user is authorized for
+  listDatabases: [],
+  listCollections: [{ scope: 'database', actions: ['listCollections'] }],
+  getDatabaseStats: [{ scope: 'database', actions: ['dbStats'] }],
+  getCollectionStats: [{ scope: 'collection', actions: ['collStats'] }],
+  createCollection: [{ scope: 'collection', actions: ['createCollection'] }],
+  dropCollection: [{ scope: 'collection', actions: ['dropCollection'] }],
+  listIndexes: [{ scope: 'collection', actions: ['listIndexes'] }],
+  createIndex: [{ scope: 'collection', actions: ['createIndex'] }],
+  dropIndex: [{ scope: 'collection', actions: ['dropIndex'] }],
+  updateOne: [{ scope: 'collection', actions: ['update'] }],
+  replaceOne: [{ scope: 'collection', actions: ['update'] }],
+  updateMany: [{ scope: 'collection', actions: ['find', 'update'] }],
+  findOneAndUpdate: [{ scope: 'collection', actions: ['find', 'update'] }],
+  renameField: [{ scope: 'collection', actions: ['find', 'update'] }],
+  deleteOne: [{ scope: 'collection', actions: ['remove'] }],
+  deleteMany: [{ scope: 'collection', actions: ['find', 'remove'] }],
+  bulkWrite: [{ scope: 'collection', actions: ['insert', 'update', 'remove'] }],
+  cloneCollection: [{ scope: 'collection', actions: ['find', 'insert'] }],
+  getServerStatus: [SERVER_STATUS],
+  getConnectionPoolStats: [SERVER_STATUS],
+  getLiveMetrics: [SERVER_STATUS],
+  getHottestCollections: [
+    SERVER_STATUS,
+    IN_PROGRESS,
+    { scope: 'database', actions: ['listCollections'] },
+    { scope: 'collection', actions: ['collStats'] },
+  ],
+  getCollectionMetrics: [{ scope: 'collection', actions: ['collStats'] }, IN_PROGRESS],
+  getCurrentOperations: [IN_PROGRESS],
+  getProfilerStats: [PROFILER, FIND],
+  getSlowestOperations: [PROFILER, FIND, IN_PROGRESS],
+  // Checked per command when called; ping, hello and connectionStatus need nothing
+  runAdminCommand: [],
+  getConnectionHealth: [],
+  listConnections: [],
+  useConnection: [],
+};
+
+/** What each runAdminCommand command needs, by lowercase command name */
+const ADMIN_COMMAND_PRIVILEGES: Record<string, RequiredPrivilege> = {
+  serverstatus: SERVER_STATUS,
+  dbstats: { scope: 'database', actions: ['dbStats'] },
+  collstats: { scope: 'collection', actions: ['collStats'] },
+  replsetstatus: { scope: 'cluster', actions: ['replSetGetStatus'] },
+  replsetgetconfig: { scope: 'cluster', actions: ['replSetGetConfig'] },
+  getcmdlineopts: { scope: 'cluster', actions: ['getCmdLineOpts'] },
+  hostinfo: { scope: 'cluster', actions: ['hostInfo'] },
+  profile: PROFILER,
+  currentop: IN_PROGRESS,
+  top: { scope: 'cluster', actions: ['top'] },
+  validate: { scope: 'collection', actions: ['validate'] },
+  getlog: { scope: 'cluster', actions: ['getLog'] },
+  getparameter: { scope: 'cluster', actions: ['getParameter'] },
+  connpoolstats: { scope: 'cluster', actions: ['connPoolStats'] },
+};
+
+/** The privileges a tool needs; with arguments, runAdminCommand's depend on the command */
+export function getRequiredPrivileges(
+  toolName: string,
+  access: 'read' | 'write' | 'destructive',
+  args?: Record<string, any>
+): RequiredPrivilege[] {
+  if (toolName === 'runAdminCommand' && args?.command && typeof args.command === 'object') {
+    const commandName = Object.keys(args.command)[0]?.toLowerCase();
+    const required = commandName ? ADMIN_COMMAND_PRIVILEGES[commandName] : undefined;
+    return required ? [required] : [];
+  }
+  return TOOL_PRIVILEGES[toolName] ?? [access === 'read' ? FIND : { scope: 'collection', actions: ['insert'] }];
+}
+
+function grants(privilege: Privilege, scope: PrivilegeScope, dbName: string): boolean {
+  const { resource } = privilege;
+  if (resource.anyResource) {
+    return true;
+  }
+  if (scope === 'cluster') {
+    return resource.cluster === true;
+  }
+  if (resource.cluster || resource.db === undefined || (resource.db !== '' && resource.db !== dbName)) {
+    return false;
+  }
+  return scope === 'collection' || resource.collection === '';
+}
+
+function describeScope(scope: PrivilegeScope, dbName: string): string {
+  if (scope === 'cluster') return 'the cluster';
+  return scope === 'database' ? `database '${dbName}'` : `collections in '${dbName}'`;
+}
+
+/** The required actions the user lacks, as "action on resource"; empty without authentication */
+export function findMissingPrivileges(user: UserPrivileges, required: RequiredPrivilege[], dbName: string): string[] {
+  if (user.users.length === 0) {
+    return [];
+  }
+
+  return required.flatMap(({ scope, actions }) =>
+    actions
+      .filter((action) => !user.privileges.some((privilege) => privilege.actions.includes(action) && grants(privilege, scope, dbName)))
+      .map((action) => `${action} on ${describeScope(scope, dbName)}`)
+  );
+}
+
+/** The write actions the user holds on any resource, sorted; empty without authentication, where nothing is restricted */
+export function findWriteActions(user: UserPrivileges): string[] {
+  const granted = user.privileges.flatMap((privilege) => privilege.actions.filter((action) => WRITE_ACTIONS.has(action)));
+  return [...new Set(granted)].sort();
+}
+
+/** Reads the connected user's effective privileges; connectionStatus needs no privileges itself */
+export async function fetchUserPrivileges(client: MongoClient): Promise<UserPrivileges> {
+  const status = await client.db('admin').command({ connectionStatus: 1, showPrivileges: true });
+  const authInfo = status.authInfo ?? {};
+  const qualified = (entry: { user?: string; role?: string; db: string }) => `${entry.user ?? entry.role}@${entry.db}`;
+  return {
+    users: (authInfo.authenticatedUsers ?? []).map(qualified),
+    roles: (authInfo.authenticatedUserRoles ?? []).map(qualified),
+    privileges: authInfo.authenticatedUserPrivileges ?? [],
+  };
+}
+
+/**
+ * Checks a tool call against the user's privileges. Returns a refusal
+ * naming the missing actions, or undefined when the call may run or the
+ * privileges are not known.
+ */
+export function checkToolPrivileges(
+  user: UserPrivileges | undefined,
+  toolName: string,
+  access: 'read' | 'write' | 'destructive',
+  dbName: string,
+  args?: Record<string, any>
+): string | undefined {
+  if (!user) {
+    return undefined;
+  }
+  const missing = findMissingPrivileges(user, getRequiredPrivileges(toolName, access, args), dbName);
+  if (missing.length === 0) {
+    return undefined;
+  }
+  return `${toolName} needs privileges that ${user.users.join(', ')} lacks: ${missing.join(', ')}. Ask a database administrator to grant them, or use another tool.`;
+}
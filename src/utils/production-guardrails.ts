@@ -0,0 +1,116 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+import type { ProductionLimits } from '../types.js';
+import { matchesCollectionPattern } from './name-validator.js';
+
+export const PRODUCTION_ENVIRONMENT = 'production';
+
+/** Caps for calls on production connections, below the server-wide query limits */
+export const DEFAULT_PRODUCTION_LIMITS: ProductionLimits = {
+  maxQueryLimit: 1_000,
+  maxTimeMS: 30_000,
+  maxMonitoringDuration: 60_000,
+};
+
+let productionLimits: ProductionLimits = { ...DEFAULT_PRODUCTION_LIMITS };
+
+/** Overrides the defaults above with the productionLimits of a config profile */
+export function applyProductionLimits(overrides: Partial<ProductionLimits>): void {
+  productionLimits = {
+    maxQueryLimit: overrides.maxQueryLimit ?? productionLimits.maxQueryLimit,
+    maxTimeMS: overrides.maxTimeMS ?? productionLimits.maxTimeMS,
+    maxMonitoringDuration: overrides.maxMonitoringDuration ?? productionLimits.maxMonitoringDuration,
+  };
+}
+
+export function getProductionLimits(): ProductionLimits {
+  return productionLimits;
+}
+
+/** What a call on a production connection runs under; read by tagOperation and the write approval checks */
+export interface CallGuardrails {
+  maxTimeMS: number;
+  /** Set for analytics reads, which should not load the primary */
+  readPreference?: 'secondaryPreferred';
+  /** updateMany, deleteMany and bulkWrite need a preview's approval token whatever the server-wide setting */
+  requireApproval: boolean;
+}
+
+const guardrailContext = new AsyncLocalStorage<CallGuardrails>();
+
+const QUERY_LIMIT_TOOLS = new Set(['find', 'textSearch', 'findRecent', 'findInTimeRange']);
+
+const MONITORING_DURATION_PARAMS = ['duration', 'interval', 'sampleDuration'];
+
+/** Read tools that scan or aggregate whole collections */
+const ANALYTICS_CATEGORIES = new Set(['quality', 'relationships', 'temporal', 'export']);
+const ANALYTICS_TOOLS = new Set(['aggregate', 'inferSchema', 'scanForPII', 'detectVolumeAnomalies']);
+
+export function isProduction(environment?: string): boolean {
+  return environment === PRODUCTION_ENVIRONMENT;
+}
+
+/** Hosts of a connection string, lowercased and without credentials or ports: mongodb://u:p@a:27017,b/db -> ['a', 'b'] */
+export function getUriHosts(uri: string): string[] {
+  const match = /^mongodb(?:\+srv)?:\/\/(?:[^@/]*@)?([^/?]*)/.exec(uri);
+  if (!match) {
+    return [];
+  }
+  return match[1]
+    .split(',')
+    .map((host) => (host.startsWith('[') ? host.slice(1, host.indexOf(']')) : host.replace(/:\d+$/, '')))
+    .filter(Boolean)
+    .map((host) => host.toLowerCase());
+}
+
+/**
+ * A connection's environment label: the configured one, or production when
+ * any of its hosts matches a production host pattern such as "*.prod.example.com".
+ */
+export function resolveEnvironment(uri: string, environment?: string, productionHosts: string[] = []): string | undefined {
+  if (environment) {
+    return environment.trim().toLowerCase();
+  }
+  const hosts = getUriHosts(uri);
+  const isProductionHost = hosts.some((host) =>
+    productionHosts.some((pattern) => matchesCollectionPattern(host, pattern.toLowerCase()))
+  );
+  return isProductionHost ? PRODUCTION_ENVIRONMENT : undefined;
+}
+
+export function isAnalyticsTool(name: string, category: string): boolean {
+  return ANALYTICS_TOOLS.has(name) || ANALYTICS_CATEGORIES.has(category);
+}
+
+/**
+ * Lowers a call's limit and live monitoring durations to the production caps.
+ * Returns the arguments to run with and a note per value that was lowered.
+ */
+export function capProductionArgs(toolName: string, args: Record<string, unknown>): { args: Record<string, unknown>; capped: string[] } {
+  const capped: string[] = [];
+  const result = { ...args };
+  const cap = (param: string, max: number) => {
+    const value = result[param];
+    if (typeof value === 'number' && value > max) {
+      result[param] = max;
+      capped.push(`${param} capped at ${max.toLocaleString()}`);
+    }
+  };
+
+  if (QUERY_LIMIT_TOOLS.has(toolName)) {
+    cap('limit', productionLimits.maxQueryLimit);
+  }
+  for (const param of MONITORING_DURATION_PARAMS) {
+    cap(param, productionLimits.maxMonitoringDuration);
+  }
+  return { args: result, capped };
+}
+
+/** Runs a tool call on a production connection under `guardrails` */
+export function runWithGuardrails<T>(guardrails: CallGuardrails, fn: () => T): T {
+  return guardrailContext.run(guardrails, fn);
+}
+
+/** The current call's guardrails; undefined outside production connections */
+export function getGuardrails(): CallGuardrails | undefined {
+  return guardrailContext.getStore();
+}
@@ -0,0 +1,102 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { AbstractCursor } from 'mongodb';
+import { createProgressReporter, readWithProgress } from './progress.js';
+
+vi.mock('./logger.js', () => ({ logError: vi.fn() }));
+
+function setup(progressToken: string | number | null = 'token-1') {
+  let time = 0;
+  const sendNotification = vi.fn().mockResolvedValue(undefined);
+  const reporter = createProgressReporter(
+    { _meta: progressToken === null ? undefined : { progressToken }, sendNotification },
+    { minIntervalMs: 1000, now: () => time }
+  );
+  const advance = (ms: number) => {
+    time += ms;
+  };
+  const sent = () => sendNotification.mock.calls.map(([notification]) => notification.params);
+  return { reporter, sendNotification, advance, sent };
+}
+
+describe('createProgressReporter', () => {
+  it('is disabled without a progress token', async () => {
+    const { reporter, sendNotification } = setup(null);
+
+    await reporter.report(1, 10);
+
+    expect(reporter.enabled).toBe(false);
+    expect(sendNotification).not.toHaveBeenCalled();
+  });
+
+  it('sends progress notifications with the request token', async () => {
+    const { reporter, sendNotification } = setup(7);
+
+    await reporter.report(3, 10, 'Documents read: 3');
+
+    expect(sendNotification).toHaveBeenCalledWith({
+      method: 'notifications/progress',
+      params: { progressToken: 7, progress: 3, total: 10, message: 'Documents read: 3' },
+    });
+  });
+
+  it('throttles intermediate updates but always sends completion', async () => {
+    const { reporter, advance, sent } = setup();
+
+    await reporter.report(1, 10);
+    await reporter.report(2, 10);
+    advance(1000);
+    await reporter.report(3, 10);
+    await reporter.report(10, 10);
+
+    expect(sent().map((params) => params.progress)).toEqual([1, 3, 10]);
+  });
+
+  it('drops values that do not increase', async () => {
+    const { reporter, advance, sent } = setup();
+
+    await reporter.report(5, 10);
+    advance(1000);
+    await reporter.report(5, 10);
+    await reporter.report(4, 10);
+
+    expect(sent().map((params) => params.progress)).toEqual([5]);
+  });
+
+  it('does not fail when a notification cannot be delivered', async () => {
+    const { reporter, sendNotification } = setup();
+    sendNotification.mockRejectedValueOnce(new Error('Not connected'));
+
+    await expect(reporter.report(1, 2)).resolves.toBeUndefined();
+  });
+});
+
+describe('readWithProgress', () => {
+  function createCursor(documents: number[]) {
+    return {
+      toArray: vi.fn().mockResolvedValue(documents),
+      async *[Symbol.asyncIterator]() {
+        yield* documents;
+      },
+    } as unknown as AbstractCursor<number> & { toArray: ReturnType<typeof vi.fn> };
+  }
+
+  it('uses toArray when progress is not requested', async () => {
+    const cursor = createCursor([1, 2, 3]);
+    const { reporter } = setup(null);
+
+    expect(await readWithProgress(cursor, reporter)).toEqual([1, 2, 3]);
+    expect(cursor.toArray).toHaveBeenCalled();
+  });
+
+  it('iterates the cursor and reports documents read', async () => {
+    const cursor = createCursor([1, 2, 3]);
+    const { reporter, sent } = setup();
+
+    expect(await readWithProgress(cursor, reporter, 3)).toEqual([1, 2, 3]);
+    expect(cursor.toArray).not.toHaveBeenCalled();
+    expect(sent()).toEqual([
+      { progressToken: 'token-1', progress: 1, total: 3, message: 'Documents read: 1' },
+      { progressToken: 'token-1', progress: 3, total: 3, message: 'Documents read: 3' },
+    ]);
+  });
+});
@@ -0,0 +1,88 @@
+import type { AbstractCursor } from 'mongodb';
+import type { ProgressToken, ServerNotification } from '@modelcontextprotocol/sdk/types.js';
+import { logError } from './logger.js';
+
+/** Minimum time between progress notifications, except the final one */
+export const PROGRESS_INTERVAL_MS = 1000;
+
+/** The parts of the SDK's request extra that progress reporting uses */
+export interface ProgressExtra {
+  _meta?: { progressToken?: ProgressToken };
+  sendNotification?: (notification: ServerNotification) => Promise<void>;
+}
+
+export interface ProgressReporterOptions {
+  minIntervalMs?: number;
+  now?: () => number;
+}
+
+export interface ProgressReporter {
+  /** False when the client sent no progress token; callers can skip work done only for progress */
+  readonly enabled: boolean;
+  /**
+   * Sends a progress notification. Values that do not increase are dropped, and
+   * updates short of `total` are throttled to one per `minIntervalMs`.
+   */
+  report(progress: number, total?: number, message?: string): Promise<void>;
+}
+
+const disabledReporter: ProgressReporter = {
+  enabled: false,
+  report: async () => {},
+};
+
+/**
+ * Reports progress for a tool call when the client asked for it by sending a
+ * progress token. Failing to deliver a notification never fails the call.
+ */
+export function createProgressReporter(extra?: ProgressExtra, options: ProgressReporterOptions = {}): ProgressReporter {
+  const progressToken = extra?._meta?.progressToken;
+  const send = extra?.sendNotification;
+  if (progressToken === undefined || !send) {
+    return disabledReporter;
+  }
+
+  const { minIntervalMs = PROGRESS_INTERVAL_MS, now = Date.now } = options;
+  let lastProgress = -Infinity;
+  let lastSentAt = -Infinity;
+
+  return {
+    enabled: true,
+
+    async report(progress, total, message) {
+      const finished = total !== undefined && progress >= total;
+      if (progress <= lastProgress || (!finished && now() - lastSentAt < minIntervalMs)) {
+        return;
+      }
+
+      lastProgress = progress;
+      lastSentAt = now();
+      try {
+        await send({
+          method: 'notifications/progress',
+          params: { progressToken, progress, total, message },
+        });
+      } catch (error) {
+        logError('progress', error);
+      }
+    },
+  };
+}
+
+/** Reads a cursor to the end, reporting the number of documents read so far */
+export async function readWithProgress<T>(
+  cursor: AbstractCursor<T>,
+  reporter: ProgressReporter,
+  total?: number
+): Promise<T[]> {
+  if (!reporter.enabled) {
+    return cursor.toArray();
+  }
+
+  const documents: T[] = [];
+  for await (const document of cursor) {
+    documents.push(document);
+    await reporter.report(documents.length, total, `Documents read: ${documents.length}`);
+  }
+  return documents;
+}
@@ -1,6 +1,6 @@
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, afterEach } from 'vitest';
 import { z } from 'zod';
-import { MAX_QUERY_LIMIT, MAX_EXPORT_LIMIT, MAX_SAMPLE_SIZE, capResultSize, MAX_RESULT_SIZE_BYTES } from './query-limits.js';
+import { MAX_QUERY_LIMIT, MAX_EXPORT_LIMIT, MAX_SAMPLE_SIZE, capResultSize, MAX_RESULT_SIZE_BYTES, applyQueryLimits } from './query-limits.js';
 
 describe('query limits constants', () => {
   it('MAX_QUERY_LIMIT is 10000', () => {
@@ -73,3 +73,23 @@ describe('capResultSize', () => {
     expect(truncated).toBe(true);
   });
 });
+
+describe('applyQueryLimits', () => {
+  afterEach(() => {
+    applyQueryLimits({ maxQueryLimit: 10_000, maxResultSizeBytes: 1_048_576 });
+  });
+
+  it('overrides only the limits that are given', () => {
+    applyQueryLimits({ maxQueryLimit: 100 });
+
+    expect(MAX_QUERY_LIMIT).toBe(100);
+    expect(MAX_EXPORT_LIMIT).toBe(50_000);
+  });
+
+  it('applies to result size capping', () => {
+    applyQueryLimits({ maxResultSizeBytes: 50 });
+
+    const { truncated } = capResultSize([{ a: 'x'.repeat(40) }, { b: 'y'.repeat(40) }]);
+    expect(truncated).toBe(true);
+  });
+});
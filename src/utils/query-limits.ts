@@ -1,23 +1,39 @@
+import type { QueryLimits } from '../types.js';
+
 /** Maximum number of documents returned by general query tools (find, textSearch, findRecent, findInTimeRange) */
-export const MAX_QUERY_LIMIT = 10_000;
+export let MAX_QUERY_LIMIT = 10_000;
 
 /** Maximum number of documents returned by exportCollection */
-export const MAX_EXPORT_LIMIT = 50_000;
+export let MAX_EXPORT_LIMIT = 50_000;
 
 /** Maximum sample size for schema inference and data quality tools (inferSchema, findMissingFields, findInconsistentTypes) */
-export const MAX_SAMPLE_SIZE = 10_000;
+export let MAX_SAMPLE_SIZE = 10_000;
 
 /** Maximum duration for live monitoring endpoints (getLiveMetrics, getHottestCollections) — 5 minutes */
-export const MAX_MONITORING_DURATION = 300_000;
+export let MAX_MONITORING_DURATION = 300_000;
 
 /** Minimum polling interval for live monitoring endpoints — 100ms */
 export const MIN_MONITORING_INTERVAL = 100;
 
 /** Maximum collection limit for getHottestCollections */
-export const MAX_MONITORING_LIMIT = 100;
+export let MAX_MONITORING_LIMIT = 100;
 
 /** Maximum result size in bytes for aggregation output */
-export const MAX_RESULT_SIZE_BYTES = 1_048_576;
+export let MAX_RESULT_SIZE_BYTES = 1_048_576;
+
+/**
+ * Overrides the defaults above with limits from a config profile. Tool schemas
+ * read these bindings when they are registered, so this must run before the
+ * server is set up.
+ */
+export function applyQueryLimits(limits: Partial<QueryLimits>): void {
+  MAX_QUERY_LIMIT = limits.maxQueryLimit ?? MAX_QUERY_LIMIT;
+  MAX_EXPORT_LIMIT = limits.maxExportLimit ?? MAX_EXPORT_LIMIT;
+  MAX_SAMPLE_SIZE = limits.maxSampleSize ?? MAX_SAMPLE_SIZE;
+  MAX_MONITORING_DURATION = limits.maxMonitoringDuration ?? MAX_MONITORING_DURATION;
+  MAX_MONITORING_LIMIT = limits.maxMonitoringLimit ?? MAX_MONITORING_LIMIT;
+  MAX_RESULT_SIZE_BYTES = limits.maxResultSizeBytes ?? MAX_RESULT_SIZE_BYTES;
+}
 
 export function capResultSize(data: Record<string, unknown>[]): {
   result: Record<string, unknown>[];
@@ -1,6 +1,6 @@
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, afterEach } from 'vitest';
 import { ObjectId } from 'mongodb';
-import { preprocessQuery } from './query-preprocessor.js';
+import { applyTenantScope, combineFilters, preprocessQuery, scopeToTenant } from './query-preprocessor.js';
 
 describe('preprocessQuery', () => {
   it('returns empty object for empty query', () => {
@@ -87,3 +87,39 @@ describe('preprocessQuery', () => {
     ).toThrow(/\$function.*blocked/i);
   });
 });
+
+describe('tenant scope', () => {
+  afterEach(() => {
+    applyTenantScope(undefined);
+  });
+
+  it('ANDs the tenant predicate into every filter', () => {
+    applyTenantScope({ field: 'tenantId', value: 'acme' });
+
+    expect(preprocessQuery({})).toEqual({ tenantId: 'acme' });
+    expect(preprocessQuery(undefined as any)).toEqual({ tenantId: 'acme' });
+    expect(preprocessQuery({ tenantId: 'globex', status: 'open' })).toEqual({
+      $and: [{ tenantId: 'globex', status: 'open' }, { tenantId: 'acme' }],
+    });
+  });
+
+  it('converts the tenant value like a filter value', () => {
+    const id = new ObjectId();
+    applyTenantScope({ field: 'tenantId', value: id.toHexString() });
+
+    expect(scopeToTenant()).toEqual({ tenantId: id });
+  });
+
+  it('leaves filters alone without a scope', () => {
+    expect(scopeToTenant({ status: 'open' })).toEqual({ status: 'open' });
+  });
+
+  it('keeps the tenant predicate when a tool adds a condition on the tenant field', () => {
+    applyTenantScope({ field: 'tenantId', value: 'acme' });
+
+    expect(combineFilters(preprocessQuery({}), { tenantId: { $exists: false } })).toEqual({
+      $and: [{ tenantId: 'acme' }, { tenantId: { $exists: false } }],
+    });
+    expect(combineFilters({}, { status: 'open' })).toEqual({ status: 'open' });
+  });
+});
@@ -1,8 +1,11 @@
 import { ObjectId } from 'mongodb';
-import type { MongoQuery, MongoFilter } from '../types.js';
+import type { MongoQuery, MongoFilter, TenantScope } from '../types.js';
 import { assertNoDangerousOperators } from './operator-validator.js';
 import { validateFilterDepth } from './filter-validator.js';
 
+/** The tenant every query is restricted to; its value is converted like a filter value */
+let tenantScope: { field: string; value: unknown } | undefined;
+
 function isObjectIdField(fieldName: string): boolean {
   const objectIdPatterns = [
     /^_id$/,
@@ -101,9 +104,43 @@ function preprocessQueryInner(query: MongoQuery): MongoFilter {
   return processed;
 }
 
+/**
+ * Restricts every query to the documents of one tenant, or lifts the
+ * restriction when called without a scope. Like the query limits, this is set
+ * once at startup from the config profile or command line flags.
+ */
+export function applyTenantScope(scope: TenantScope | undefined): void {
+  tenantScope = scope && { field: scope.field, value: preprocessQueryInner({ [scope.field]: scope.value })[scope.field] };
+}
+
+export function getTenantScope(): { field: string; value: unknown } | undefined {
+  return tenantScope;
+}
+
+/** ANDs the tenant predicate into a filter the server built itself; preprocessQuery already does this for user filters */
+export function scopeToTenant(filter: MongoFilter = {}): MongoFilter {
+  if (!tenantScope) {
+    return filter;
+  }
+  const predicate = { [tenantScope.field]: tenantScope.value };
+  return Object.keys(filter).length === 0 ? predicate : { $and: [filter, predicate] };
+}
+
+/**
+ * ANDs filters together. Spreading them into one object would let a key of
+ * one replace the same key of another, such as the tenant field.
+ */
+export function combineFilters(...filters: MongoFilter[]): MongoFilter {
+  const nonEmpty = filters.filter((filter) => Object.keys(filter).length > 0);
+  if (nonEmpty.length <= 1) {
+    return nonEmpty[0] ?? {};
+  }
+  return { $and: nonEmpty };
+}
+
 export function preprocessQuery(query: MongoQuery): MongoFilter {
   if (!query || typeof query !== 'object') {
-    return query;
+    return tenantScope ? scopeToTenant() : query;
   }
 
   assertNoDangerousOperators(query, 'query filter');
@@ -111,5 +148,5 @@ export function preprocessQuery(query: MongoQuery): MongoFilter {
   if (!depthCheck.valid) {
     throw new Error(depthCheck.error);
   }
-  return preprocessQueryInner(query);
+  return scopeToTenant(preprocessQueryInner(query));
 }
@@ -0,0 +1,141 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { applyTenantScope } from './query-preprocessor.js';
+import { checkTenantScope, scopeBulkOperations, scopePipeline, stampTenant } from './tenant-scope.js';
+
+const tenantMatch = { $match: { tenantId: 'acme' } };
+
+describe('tenant scope', () => {
+  beforeEach(() => {
+    applyTenantScope({ field: 'tenantId', value: 'acme' });
+  });
+
+  afterEach(() => {
+    applyTenantScope(undefined);
+  });
+
+  describe('scopePipeline', () => {
+    it('prepends the tenant $match', () => {
+      expect(scopePipeline([{ $group: { _id: '$status' } }])).toEqual([tenantMatch, { $group: { _id: '$status' } }]);
+    });
+
+    it('keeps stages that must come first in front', () => {
+      const geoNear = { $geoNear: { near: [0, 0], distanceField: 'd' } };
+      expect(scopePipeline([geoNear, { $limit: 5 }])).toEqual([geoNear, tenantMatch, { $limit: 5 }]);
+    });
+
+    it('scopes the collections joined by $lookup, $unionWith and $graphLookup, including inside $facet', () => {
+      const scoped = scopePipeline([
+        { $lookup: { from: 'customers', localField: 'customerId', foreignField: '_id', as: 'customer' } },
+        { $unionWith: 'archive' },
+        {
+          $facet: {
+            chains: [{ $graphLookup: { from: 'employees', startWith: '$m', connectFromField: 'm', connectToField: '_id', as: 'c' } }],
+            audits: [{ $lookup: { from: 'audit', pipeline: [{ $unionWith: { coll: 'old_audit' } }], as: 'a' } }],
+          },
+        },
+      ]);
+
+      expect(scoped).toEqual([
+        tenantMatch,
+        { $lookup: { from: 'customers', localField: 'customerId', foreignField: '_id', as: 'customer', pipeline: [tenantMatch] } },
+        { $unionWith: { coll: 'archive', pipeline: [tenantMatch] } },
+        {
+          $facet: {
+            chains: [
+              {
+                $graphLookup: {
+                  from: 'employees',
+                  startWith: '$m',
+                  connectFromField: 'm',
+                  connectToField: '_id',
+                  as: 'c',
+                  restrictSearchWithMatch: { tenantId: 'acme' },
+                },
+              },
+            ],
+            audits: [
+              {
+                $lookup: {
+                  from: 'audit',
+                  pipeline: [tenantMatch, { $unionWith: { coll: 'old_audit', pipeline: [tenantMatch] } }],
+                  as: 'a',
+                },
+              },
+            ],
+          },
+        },
+      ]);
+    });
+
+    it('leaves pipelines alone without a scope', () => {
+      applyTenantScope(undefined);
+      const pipeline = [{ $lookup: { from: 'customers', localField: 'c', foreignField: '_id', as: 'c' } }];
+      expect(scopePipeline(pipeline)).toBe(pipeline);
+    });
+  });
+
+  describe('writes', () => {
+    it('stamps inserted documents', () => {
+      expect(stampTenant({ name: 'Ada' })).toEqual({ name: 'Ada', tenantId: 'acme' });
+    });
+
+    it('scopes bulkWrite filters and stamps its inserts and replacements', () => {
+      expect(
+        scopeBulkOperations([
+          { insertOne: { document: { a: 1 } } },
+          { replaceOne: { filter: { _id: 1 }, replacement: { a: 2 } } },
+          { deleteMany: { filter: {} } },
+        ])
+      ).toEqual([
+        { insertOne: { document: { a: 1, tenantId: 'acme' } } },
+        { replaceOne: { filter: { $and: [{ _id: 1 }, { tenantId: 'acme' }] }, replacement: { a: 2, tenantId: 'acme' } } },
+        { deleteMany: { filter: { tenantId: 'acme' } } },
+      ]);
+    });
+  });
+
+  describe('checkTenantScope', () => {
+    it('allows documents that name the scoped tenant or none', () => {
+      expect(checkTenantScope('insertMany', { documents: [{ a: 1 }, { a: 2, tenantId: 'acme' }] })).toBeUndefined();
+    });
+
+    it('refuses documents of another tenant', () => {
+      expect(checkTenantScope('insertOne', { document: { tenantId: 'globex' } })).toBe(
+        "insertOne cannot write documents whose 'tenantId' is not acme"
+      );
+      expect(
+        checkTenantScope('bulkWrite', { operations: [{ replaceOne: { filter: {}, replacement: { tenantId: 'globex' } } }] })
+      ).toMatch(/cannot write documents/);
+    });
+
+    it('refuses updates that change the tenant field', () => {
+      const updates = [
+        { $set: { tenantId: 'globex' } },
+        { $unset: { 'tenantId.region': '' } },
+        { $rename: { owner: 'tenantId' } },
+        [{ $unset: 'tenantId' }],
+        [{ $replaceWith: '$archived' }],
+      ];
+      for (const update of updates) {
+        expect(checkTenantScope('updateMany', { filter: {}, update })).toMatch(/cannot change the tenant field 'tenantId'/);
+      }
+      expect(
+        checkTenantScope('bulkWrite', { operations: [{ updateOne: { filter: {}, update: { $set: { tenantId: 'x' } } } }] })
+      ).toMatch(/\(\$set\)/);
+      expect(checkTenantScope('updateOne', { filter: {}, update: { $set: { tenantIdentity: 'x' } } })).toBeUndefined();
+    });
+
+    it('refuses tools that reach every tenant', () => {
+      expect(checkTenantScope('dropCollection', { name: 'orders' })).toMatch(/not available with tenant scoping/);
+      expect(checkTenantScope('cloneCollection', { source: 'a', destination: 'b', options: { dropIfExists: true } })).toMatch(
+        /cannot drop an existing destination/
+      );
+      expect(checkTenantScope('renameField', { oldFieldName: 'tenantId', newFieldName: 'owner' })).toMatch(/tenant field/);
+    });
+
+    it('allows everything without a scope', () => {
+      applyTenantScope(undefined);
+      expect(checkTenantScope('dropCollection', { name: 'orders' })).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,193 @@
+import type { Document } from 'mongodb';
+import { getTenantScope, scopeToTenant } from './query-preprocessor.js';
+
+type Args = Record<string, any>;
+
+/**
+ * Tools that drop every tenant's documents or show other sessions' operations,
+ * filters included. They are refused while a tenant scope is set.
+ */
+const CROSS_TENANT_TOOLS = new Set([
+  'dropCollection',
+  'runAdminCommand',
+  'getCurrentOperations',
+  'getSlowestOperations',
+  'getProfilerStats',
+  'getCollectionMetrics',
+]);
+
+/** Stages MongoDB only accepts at the start of a pipeline; the tenant $match goes right after them */
+const LEADING_STAGES = new Set([
+  '$changeStream',
+  '$collStats',
+  '$currentOp',
+  '$documents',
+  '$geoNear',
+  '$indexStats',
+  '$listLocalSessions',
+  '$listSessions',
+  '$planCacheStats',
+  '$search',
+  '$searchMeta',
+  '$vectorSearch',
+]);
+
+/** Update stages that can drop or rewrite any field, the tenant field included */
+const REPLACING_UPDATE_STAGES = new Set(['$project', '$replaceRoot', '$replaceWith']);
+
+function touchesField(path: string, field: string): boolean {
+  return path === field || path.startsWith(`${field}.`);
+}
+
+function isObject(value: unknown): value is Args {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+/** Scopes the collections a stage reads besides its input: $lookup, $graphLookup and $unionWith sources */
+function scopeNestedStages(stages: Document[]): Document[] {
+  return stages.map((stage) => {
+    if (!isObject(stage)) return stage;
+    const scoped: Document = {};
+    for (const [name, body] of Object.entries(stage)) {
+      if (name === '$unionWith') {
+        scoped[name] = typeof body === 'string'
+          ? { coll: body, pipeline: scopePipeline([]) }
+          : { ...body, pipeline: scopePipeline(body?.pipeline ?? []) };
+      } else if (name === '$lookup' && isObject(body)) {
+        scoped[name] = { ...body, pipeline: scopePipeline(Array.isArray(body.pipeline) ? body.pipeline : []) };
+      } else if (name === '$graphLookup' && isObject(body)) {
+        scoped[name] = { ...body, restrictSearchWithMatch: scopeToTenant(body.restrictSearchWithMatch) };
+      } else if (name === '$facet' && isObject(body)) {
+        scoped[name] = Object.fromEntries(
+          Object.entries(body).map(([facet, pipeline]) => [facet, Array.isArray(pipeline) ? scopeNestedStages(pipeline) : pipeline])
+        );
+      } else {
+        scoped[name] = body;
+      }
+    }
+    return scoped;
+  });
+}
+
+/**
+ * Restricts a pipeline to the tenant's documents: a leading $match on the
+ * collection it runs on, and the same $match in the sub-pipelines of the
+ * stages that read other collections. Returns the pipeline unchanged when no
+ * tenant scope is set.
+ */
+export function scopePipeline(pipeline: Document[]): Document[] {
+  if (!getTenantScope()) {
+    return pipeline;
+  }
+
+  const stages = scopeNestedStages(pipeline);
+  const tenantMatch = { $match: scopeToTenant() };
+  const [first] = Object.keys(stages[0] ?? {});
+  return LEADING_STAGES.has(first) ? [stages[0], tenantMatch, ...stages.slice(1)] : [tenantMatch, ...stages];
+}
+
+/** Sets the tenant field on a document about to be inserted */
+export function stampTenant<T extends Document>(document: T): T {
+  const scope = getTenantScope();
+  return scope ? { ...document, [scope.field]: scope.value } : document;
+}
+
+/** Scopes the filters of bulkWrite operations and stamps the documents they insert or replace */
+export function scopeBulkOperations<T extends Document>(operations: T[]): T[] {
+  if (!getTenantScope()) {
+    return operations;
+  }
+
+  return operations.map((operation) =>
+    Object.fromEntries(
+      Object.entries(operation).map(([type, body]) => {
+        if (!isObject(body)) return [type, body];
+        if (type === 'insertOne') return [type, { ...body, document: stampTenant(body.document ?? {}) }];
+        const scoped: Args = { ...body, filter: scopeToTenant(body.filter) };
+        if (type === 'replaceOne') scoped.replacement = stampTenant(body.replacement ?? {});
+        return [type, scoped];
+      })
+    ) as T
+  );
+}
+
+/** The update operator or pipeline stage that would change the tenant field, if any */
+function findTenantFieldChange(update: unknown, field: string): string | undefined {
+  if (Array.isArray(update)) {
+    for (const stage of update) {
+      for (const [name, body] of Object.entries(isObject(stage) ? stage : {})) {
+        const paths = name === '$unset' ? [body].flat() : isObject(body) ? Object.keys(body) : [];
+        if (REPLACING_UPDATE_STAGES.has(name) || paths.some((path) => typeof path === 'string' && touchesField(path, field))) {
+          return name;
+        }
+      }
+    }
+    return undefined;
+  }
+
+  for (const [operator, body] of Object.entries(isObject(update) ? update : {})) {
+    if (!isObject(body)) continue;
+    const paths = operator === '$rename' ? [...Object.keys(body), ...Object.values(body)] : Object.keys(body);
+    if (paths.some((path) => typeof path === 'string' && touchesField(path, field))) {
+      return operator;
+    }
+  }
+  return undefined;
+}
+
+/** Whether a document to insert names a tenant other than the scoped one */
+function namesOtherTenant(document: unknown, field: string, value: unknown): boolean {
+  if (!isObject(document) || !(field in document)) {
+    return false;
+  }
+  const given = document[field];
+  return String(isObject(given) && typeof given.$oid === 'string' ? given.$oid : given) !== String(value);
+}
+
+/**
+ * Checks a tool call against the tenant scope. Resolves to a refusal when the
+ * call would reach other tenants' data or change a document's tenant, or
+ * undefined when it may run. Filters and pipelines are scoped where they run,
+ * and inserted documents are stamped there.
+ */
+export function checkTenantScope(toolName: string, args: Args = {}): string | undefined {
+  const scope = getTenantScope();
+  if (!scope) {
+    return undefined;
+  }
+  const { field, value } = scope;
+
+  if (CROSS_TENANT_TOOLS.has(toolName)) {
+    return `${toolName} is not available with tenant scoping, because it reaches every tenant's data`;
+  }
+  if (toolName === 'cloneCollection' && args.options?.dropIfExists) {
+    return `cloneCollection cannot drop an existing destination with tenant scoping, because it holds every tenant's data`;
+  }
+  if (toolName === 'renameField' && [args.oldFieldName, args.newFieldName].some((name) => typeof name === 'string' && touchesField(name, field))) {
+    return `renameField cannot rename to or from the tenant field '${field}'`;
+  }
+
+  const operations: Args[] = toolName === 'bulkWrite' && Array.isArray(args.operations) ? args.operations : [];
+  const documents = [
+    ...(toolName === 'insertOne' ? [args.document] : []),
+    ...(toolName === 'insertMany' && Array.isArray(args.documents) ? args.documents : []),
+    ...(toolName === 'replaceOne' ? [args.replacement] : []),
+    ...operations.flatMap((operation) => [operation?.insertOne?.document, operation?.replaceOne?.replacement]),
+  ];
+  if (documents.some((document) => namesOtherTenant(document, field, value))) {
+    return `${toolName} cannot write documents whose '${field}' is not ${String(value)}`;
+  }
+
+  const updates = [
+    ...(['updateOne', 'updateMany', 'findOneAndUpdate'].includes(toolName) ? [args.update] : []),
+    ...operations.flatMap((operation) => [operation?.updateOne?.update, operation?.updateMany?.update]),
+  ];
+  for (const update of updates) {
+    const change = findTenantFieldChange(update, field);
+    if (change) {
+      return `${toolName} cannot change the tenant field '${field}' (${change})`;
+    }
+  }
+
+  return undefined;
+}
@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import { authorizeToolCall, createAuthInfo, getTokenGrant, resolveEffectiveMode } from './tool-authorization.js';
+import type { AuthToken } from '../types.js';
+
+const writer: AuthToken = { name: 'writer', token: 'writer-token-0123456789', mode: 'read-write' };
+const reader: AuthToken = { name: 'reader', token: 'reader-token-0123456789', mode: 'read-only' };
+const scoped: AuthToken = { name: 'scoped', token: 'scoped-token-0123456789', mode: 'read-write', tools: ['find', 'insertOne'] };
+
+describe('createAuthInfo / getTokenGrant', () => {
+  it('exposes the token name as clientId and the grant without the secret', () => {
+    const authInfo = createAuthInfo(scoped);
+    expect(authInfo.clientId).toBe('scoped');
+
+    const grant = getTokenGrant(authInfo);
+    expect(grant).toEqual({ name: 'scoped', mode: 'read-write', tools: ['find', 'insertOne'] });
+    expect(grant).not.toHaveProperty('token');
+  });
+
+  it('returns undefined when there is no grant', () => {
+    expect(getTokenGrant(undefined)).toBeUndefined();
+    expect(getTokenGrant({ token: 'x', clientId: 'c', scopes: [] })).toBeUndefined();
+  });
+});
+
+describe('authorizeToolCall', () => {
+  it('allows everything when no grant is present', () => {
+    expect(authorizeToolCall('dropDatabase', true).allowed).toBe(true);
+  });
+
+  it('allows writes for read-write tokens', () => {
+    expect(authorizeToolCall('insertOne', true, getTokenGrant(createAuthInfo(writer))).allowed).toBe(true);
+  });
+
+  it('denies writes for read-only tokens', () => {
+    const result = authorizeToolCall('insertOne', true, getTokenGrant(createAuthInfo(reader)));
+    expect(result.allowed).toBe(false);
+    expect(result.error).toMatch(/read-only/);
+  });
+
+  it('allows reads for read-only tokens', () => {
+    expect(authorizeToolCall('find', false, getTokenGrant(createAuthInfo(reader))).allowed).toBe(true);
+  });
+
+  it('denies tools outside the token allowlist', () => {
+    const grant = getTokenGrant(createAuthInfo(scoped));
+    expect(authorizeToolCall('find', false, grant).allowed).toBe(true);
+    expect(authorizeToolCall('insertOne', true, grant).allowed).toBe(true);
+
+    const result = authorizeToolCall('deleteMany', true, grant);
+    expect(result.allowed).toBe(false);
+    expect(result.error).toMatch(/not allowed to call 'deleteMany'/);
+  });
+});
+
+describe('resolveEffectiveMode', () => {
+  it('keeps the server mode without a token', () => {
+    expect(resolveEffectiveMode('read-write')).toBe('read-write');
+  });
+
+  it('narrows to read-only for read-only tokens', () => {
+    expect(resolveEffectiveMode('read-write', createAuthInfo(reader))).toBe('read-only');
+  });
+
+  it('never widens a read-only server', () => {
+    expect(resolveEffectiveMode('read-only', createAuthInfo(writer))).toBe('read-only');
+  });
+});
@@ -0,0 +1,70 @@
+import type { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import type { AuthToken } from '../types.js';
+
+export interface ToolAuthorizationResult {
+  allowed: boolean;
+  error?: string;
+}
+
+export type TokenGrant = Pick<AuthToken, 'name' | 'mode' | 'tools'>;
+
+export function createAuthInfo(entry: AuthToken): AuthInfo {
+  const grant: TokenGrant = { name: entry.name, mode: entry.mode, tools: entry.tools };
+  return {
+    token: entry.token,
+    clientId: entry.name,
+    scopes: [],
+    extra: { grant },
+  };
+}
+
+export function getTokenGrant(authInfo?: AuthInfo): TokenGrant | undefined {
+  const grant = authInfo?.extra?.grant;
+  if (!grant || typeof grant !== 'object') {
+    return undefined;
+  }
+  return grant as TokenGrant;
+}
+
+/**
+ * Decides whether the caller behind a request may run a tool. Requests without
+ * a token grant (stdio, or HTTP without a token file) are governed solely by the
+ * server mode, which already decided which tools were registered.
+ */
+export function authorizeToolCall(
+  toolName: string,
+  writeOperation: boolean,
+  grant?: TokenGrant
+): ToolAuthorizationResult {
+  if (!grant) {
+    return { allowed: true };
+  }
+
+  if (grant.tools && !grant.tools.includes(toolName)) {
+    return {
+      allowed: false,
+      error: `Token '${grant.name}' is not allowed to call '${toolName}'. Allowed tools: ${grant.tools.join(', ') || '(none)'}`,
+    };
+  }
+
+  if (writeOperation && grant.mode === 'read-only') {
+    return {
+      allowed: false,
+      error: `'${toolName}' is a write operation and token '${grant.name}' is limited to read-only mode`,
+    };
+  }
+
+  return { allowed: true };
+}
+
+/**
+ * The mode a single request runs under: a token can narrow the server mode to
+ * read-only but never widen it.
+ */
+export function resolveEffectiveMode(serverMode: string, authInfo?: AuthInfo): string {
+  const grant = getTokenGrant(authInfo);
+  if (grant?.mode === 'read-only') {
+    return 'read-only';
+  }
+  return serverMode;
+}
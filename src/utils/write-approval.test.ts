@@ -0,0 +1,98 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  applyWriteApprovalSettings,
+  checkApprovalToken,
+  DEFAULT_WRITE_APPROVAL,
+  issueApprovalToken,
+} from './write-approval.js';
+import type { ApprovalSubject } from './write-approval.js';
+import { runWithGuardrails } from './production-guardrails.js';
+
+const subject: ApprovalSubject = {
+  operation: 'updateMany',
+  connection: 'staging',
+  database: 'app',
+  collection: 'orders',
+  filter: { status: 'pending', region: 'eu' },
+  update: { $set: { status: 'cancelled' } },
+};
+
+describe('write approval tokens', () => {
+  beforeEach(() => {
+    applyWriteApprovalSettings({ required: true, ttlMs: 60_000, tolerance: 0.1 });
+  });
+
+  afterEach(() => {
+    applyWriteApprovalSettings(DEFAULT_WRITE_APPROVAL);
+    vi.useRealTimers();
+  });
+
+  it('issues nothing and approves every write when approval is not required', () => {
+    applyWriteApprovalSettings({ required: false });
+
+    expect(issueApprovalToken(subject, 10)).toBeUndefined();
+    expect(checkApprovalToken(undefined, subject, 10)).toBeUndefined();
+  });
+
+  it('requires approval on production connections even when the server does not', () => {
+    applyWriteApprovalSettings({ required: false });
+
+    runWithGuardrails({ maxTimeMS: 30_000, requireApproval: true }, () => {
+      expect(checkApprovalToken(undefined, subject, 10)).toMatch(/requires an approvalToken/);
+      const grant = issueApprovalToken(subject, 10)!;
+      expect(checkApprovalToken(grant.approvalToken, subject, 10)).toBeUndefined();
+    });
+  });
+
+  it('approves a write matching the preview, regardless of filter key order', () => {
+    const grant = issueApprovalToken(subject, 10)!;
+
+    expect(grant.approvalToken).toMatch(/^[\w-]{16}$/);
+    expect(
+      checkApprovalToken(grant.approvalToken, { ...subject, filter: { region: 'eu', status: 'pending' } }, 10)
+    ).toBeUndefined();
+  });
+
+  it('refuses a missing token and names the preview tool', () => {
+    expect(checkApprovalToken(undefined, subject, 10)).toMatch(/updateMany requires an approvalToken. Run previewUpdate/);
+  });
+
+  it('refuses a token issued for a different filter, update, collection or connection', () => {
+    const changes: Partial<ApprovalSubject>[] = [
+      { filter: { status: 'pending' } },
+      { update: { $set: { status: 'shipped' } } },
+      { collection: 'invoices' },
+      { connection: 'production' },
+    ];
+    for (const change of changes) {
+      const grant = issueApprovalToken(subject, 10)!;
+      expect(checkApprovalToken(grant.approvalToken, { ...subject, ...change }, 10)).toMatch(/issued for a different/);
+    }
+  });
+
+  it('accepts each token once', () => {
+    const grant = issueApprovalToken(subject, 10)!;
+
+    expect(checkApprovalToken(grant.approvalToken, subject, 10)).toBeUndefined();
+    expect(checkApprovalToken(grant.approvalToken, subject, 10)).toMatch(/unknown or was already used/);
+  });
+
+  it('refuses expired tokens', () => {
+    vi.useFakeTimers();
+    const grant = issueApprovalToken(subject, 10)!;
+
+    vi.advanceTimersByTime(60_000);
+
+    expect(checkApprovalToken(grant.approvalToken, subject, 10)).toMatch(/expired/);
+  });
+
+  it('refuses a write whose live match count drifted past the tolerance', () => {
+    const withinTolerance = issueApprovalToken(subject, 100)!;
+    expect(checkApprovalToken(withinTolerance.approvalToken, subject, 110)).toBeUndefined();
+
+    const pastTolerance = issueApprovalToken(subject, 100)!;
+    expect(checkApprovalToken(pastTolerance.approvalToken, subject, 111)).toBe(
+      'The number of matching documents changed from 100 at preview to 111, more than the allowed drift of 10. Run previewUpdate again and check the new matches.'
+    );
+  });
+});
@@ -0,0 +1,181 @@
+import { createHash, randomBytes } from 'node:crypto';
+import type { WriteApprovalSettings } from '../types.js';
+import { getGuardrails } from './production-guardrails.js';
+
+export const DEFAULT_WRITE_APPROVAL: WriteApprovalSettings = {
+  required: false,
+  ttlMs: 5 * 60_000,
+  tolerance: 0.05,
+};
+
+let settings: WriteApprovalSettings = { ...DEFAULT_WRITE_APPROVAL };
+
+/** What a token approves; a write must present the same values to use it */
+export interface ApprovalSubject {
+  operation: 'updateMany' | 'deleteMany' | 'bulkWrite';
+  /** Name of the connection, so a preview on one cluster approves nothing on another */
+  connection: string;
+  database: string;
+  collection: string;
+  filter?: unknown;
+  update?: unknown;
+  operations?: unknown[];
+}
+
+const PREVIEW_TOOLS: Record<ApprovalSubject['operation'], string> = {
+  updateMany: 'previewUpdate',
+  deleteMany: 'previewDelete',
+  bulkWrite: 'previewBulkWrite',
+};
+
+/** Writes whose handlers check a token issued by their preview tool */
+export const PREVIEWED_WRITES: ReadonlySet<string> = new Set(Object.keys(PREVIEW_TOOLS));
+
+/** One call of a write tool on a production connection, approved by repeating it with the token */
+export interface CallApprovalSubject {
+  connection: string;
+  tool: string;
+  args: Record<string, unknown>;
+}
+
+export interface ApprovalGrant {
+  approvalToken: string;
+  approvalExpiresAt: string;
+}
+
+interface IssuedApproval {
+  hash: string;
+  matchedCount: number;
+  expiresAt: number;
+}
+
+const issued = new Map<string, IssuedApproval>();
+
+/** Overrides the defaults with the settings of a config profile or command line flags */
+export function applyWriteApprovalSettings(overrides: Partial<WriteApprovalSettings>): void {
+  settings = {
+    required: overrides.required ?? settings.required,
+    ttlMs: overrides.ttlMs ?? settings.ttlMs,
+    tolerance: overrides.tolerance ?? settings.tolerance,
+  };
+}
+
+/** Approval is required server-wide, or for the current call on a production connection */
+function approvalRequired(): boolean {
+  return settings.required || getGuardrails()?.requireApproval === true;
+}
+
+/** JSON with object keys sorted, so equal filters hash equally whatever their key order */
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (value !== null && typeof value === 'object' && !(value instanceof Date)) {
+    const entries = Object.keys(value)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+export function hashApprovalSubject(subject: ApprovalSubject, matchedCount: number): string {
+  return createHash('sha256')
+    .update(canonicalJson({ ...subject, matchedCount }))
+    .digest('hex');
+}
+
+function hashCallApprovalSubject(subject: CallApprovalSubject): string {
+  return createHash('sha256').update(canonicalJson({ call: subject })).digest('hex');
+}
+
+function removeExpired(now: number): void {
+  for (const [token, approval] of issued) {
+    if (approval.expiresAt <= now) {
+      issued.delete(token);
+    }
+  }
+}
+
+/**
+ * Issues a single-use token approving a write previewed with `matchedCount`
+ * matches. Returns undefined when approval is not required, so previews only
+ * mention tokens on servers that ask for them.
+ */
+export function issueApprovalToken(subject: ApprovalSubject, matchedCount: number): ApprovalGrant | undefined {
+  if (!approvalRequired()) {
+    return undefined;
+  }
+
+  const now = Date.now();
+  removeExpired(now);
+
+  const approvalToken = randomBytes(12).toString('base64url');
+  const expiresAt = now + settings.ttlMs;
+  issued.set(approvalToken, { hash: hashApprovalSubject(subject, matchedCount), matchedCount, expiresAt });
+  return { approvalToken, approvalExpiresAt: new Date(expiresAt).toISOString() };
+}
+
+/**
+ * Checks and consumes the token presented with a write. Resolves to a reason
+ * the write is refused, or undefined when it may go ahead. The token must have
+ * been issued for the same subject, and `liveCount` may differ from the
+ * previewed count by at most the configured tolerance.
+ */
+export function checkApprovalToken(
+  token: string | undefined,
+  subject: ApprovalSubject,
+  liveCount: number
+): string | undefined {
+  if (!approvalRequired()) {
+    return undefined;
+  }
+
+  const preview = PREVIEW_TOOLS[subject.operation];
+  if (!token) {
+    return `${subject.operation} requires an approvalToken. Run ${preview} with the same arguments first and pass the token it returns.`;
+  }
+
+  const approval = issued.get(token);
+  issued.delete(token);
+  if (!approval) {
+    return `The approvalToken is unknown or was already used. Run ${preview} again to get a new one.`;
+  }
+  if (approval.expiresAt <= Date.now()) {
+    return `The approvalToken expired. Run ${preview} again to get a new one.`;
+  }
+  if (approval.hash !== hashApprovalSubject(subject, approval.matchedCount)) {
+    return `The approvalToken was issued for a different ${subject.operation}. Run ${preview} with the arguments you want to execute.`;
+  }
+
+  const allowedDrift = Math.floor(approval.matchedCount * settings.tolerance);
+  if (Math.abs(liveCount - approval.matchedCount) > allowedDrift) {
+    return `The number of matching documents changed from ${approval.matchedCount.toLocaleString()} at preview to ${liveCount.toLocaleString()}, more than the allowed drift of ${allowedDrift.toLocaleString()}. Run ${preview} again and check the new matches.`;
+  }
+
+  return undefined;
+}
+
+/** Issues a single-use token approving one more call of a write tool with the same arguments */
+export function issueCallApproval(subject: CallApprovalSubject): ApprovalGrant {
+  const now = Date.now();
+  removeExpired(now);
+
+  const approvalToken = randomBytes(12).toString('base64url');
+  const expiresAt = now + settings.ttlMs;
+  issued.set(approvalToken, { hash: hashCallApprovalSubject(subject), matchedCount: 0, expiresAt });
+  return { approvalToken, approvalExpiresAt: new Date(expiresAt).toISOString() };
+}
+
+/** Checks and consumes a token from issueCallApproval; resolves to the reason the call is refused, if any */
+export function checkCallApproval(token: string, subject: CallApprovalSubject): string | undefined {
+  const approval = issued.get(token);
+  issued.delete(token);
+  if (!approval || approval.expiresAt <= Date.now()) {
+    return `The approvalToken is unknown, expired or was already used. Call ${subject.tool} without it to get a new one.`;
+  }
+  if (approval.hash !== hashCallApprovalSubject(subject)) {
+    return `The approvalToken was issued for a different ${subject.tool} call. Call ${subject.tool} without it to get one for these arguments.`;
+  }
+  return undefined;
+}